@@ -1,7 +1,28 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
 import { GoogleGenAI, Modality, Type } from '@google/genai';
 import './index.css';
+import { WireframeEditor } from './src/WireframeEditor';
+import { useUndo } from './src/useUndo';
+import { ArchitecturalPlan, cleanupPlanWalls, detectPlanRooms, normalizePlan, recleanTrace } from './src/plan';
+import { TraceCleanupPanel } from './src/TraceCleanupPanel';
+import { IssuesPanel } from './src/IssuesPanel';
+import { LayersPanel } from './src/LayersPanel';
+import { HistoryPanel } from './src/HistoryPanel';
+import { DxfImportPanel } from './src/DxfImportPanel';
+import { DxfDrawing, parseDxf } from './src/dxfImport';
+import { ExportOptions, ExportPanel } from './src/ExportPanel';
+import { planSvg } from './src/planSvg';
+import { planPdf } from './src/planPdf';
+import { planIfc } from './src/planIfc';
+import { loadJpeg } from './src/pdf';
+import { el, svgDocument, svgPoints } from './src/svg';
+import { clearLocalProject, loadProjectLocally, parseProject, planChangeSize, ProjectFile, saveProjectLocally, serializeProject } from './src/project';
+import { defaultLayers, PlanLayers } from './src/layers';
+import { writeDxf } from './src/dxf';
+import { planDxf } from './src/planDxf';
+import { fixAllIssues, fixIssue, issueKey, validatePlan } from './src/validate';
+import { CleanupOptions, defaultCleanupOptions } from './src/geometry';
 
 // Fix: Moved the AIStudio interface into the `declare global` block to resolve a TypeScript type conflict.
 // When an interface is defined in a file with imports/exports, it becomes local to that module. By moving
@@ -27,13 +48,6 @@ interface InputImage {
   previewUrl: string;
 }
 
-interface ArchitecturalPlan {
-    walls: Array<{ boundary: Array<{ x: number; y: number }> }>;
-    doors?: Array<{ boundary: Array<{ x: number; y: number }> }>;
-    windows?: Array<{ boundary: Array<{ x: number; y: number }> }>;
-    dimensions: { width: number; height: number };
-}
-
 interface OutlineData {
     paths: Array<{ boundary: Array<{ x: number; y: number }> }>;
     dimensions: { width: number; height: number };
@@ -56,6 +70,12 @@ const stylePresets: Record<StylePreset, string> = {
 
 const roomTypes = ['Bedroom', 'Kitchen', 'Bathroom', 'Living Room', 'Dining Room', 'Hallway', 'Closet', 'Office', 'Garage'];
 
+// undo steps kept in the local autosave; downloaded projects keep the whole history
+const localHistoryLimit = 20;
+// estimated size of the undo history (JSON characters of what its steps changed); the
+// oldest steps are dropped beyond it, whatever the step limit
+const historyMaxSize = 50_000_000;
+
 const Login = ({ onLogin }: { onLogin: (email: string) => void }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -228,7 +248,37 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<Mode>('text-to-image');
   const [inputImage, setInputImage] = useState<InputImage | null>(null);
-  const [planData, setPlanData] = useState<ArchitecturalPlan | null>(null);
+  const [historyLimit, setHistoryLimit] = useState(100);
+  const planHistory = useUndo<ArchitecturalPlan | null>(null, { limit: historyLimit, maxSize: historyMaxSize, sizeOf: planChangeSize });
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => ({
+    title: { project: '', date: new Date().toLocaleDateString(), drawnBy: user.email },
+    showTitle: true,
+    print: false,
+    paper: 'A3',
+    scale: 100,
+    underlay: false,
+    storeyHeight: 3,
+    wallHeight: 2.7,
+  }));
+  // a DXF file read and waiting for its layers to be assigned
+  const [dxfImport, setDxfImport] = useState<{ drawing: DxfDrawing; fileName: string } | null>(null);
+  const planData = planHistory.present;
+  // raw AI trace, kept so cleanup can be re-run with different tolerances
+  const [tracedPlan, setTracedPlan] = useState<ArchitecturalPlan | null>(null);
+  const [cleanupOptions, setCleanupOptions] = useState<CleanupOptions>(defaultCleanupOptions);
+  const [showCleanup, setShowCleanup] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  // the last autosave didn't fit in local storage
+  const [localSaveFailed, setLocalSaveFailed] = useState(false);
+  const [selectedIssue, setSelectedIssue] = useState<string | null>(null);
+  const [layers, setLayers] = useState<PlanLayers>(defaultLayers);
+  const [showLayers, setShowLayers] = useState(false);
+  // checked against the last recorded state, so drag previews don't re-validate on every move
+  const committedPlan = planHistory.entries[planHistory.index].state;
+  const planIssues = useMemo(() => (committedPlan ? validatePlan(committedPlan) : []), [committedPlan]);
+  const highlightedIssue = showIssues ? planIssues.find(i => issueKey(i) === selectedIssue) ?? null : null;
   const [outlineData, setOutlineData] = useState<OutlineData | null>(null);
   const [selectedStyle, setSelectedStyle] = useState<StylePreset | null>(null);
   const [rooms, setRooms] = useState([{ id: 1, name: '', type: 'Bedroom' }]);
@@ -249,6 +299,10 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [startPanPoint, setStartPanPoint] = useState({ x: 0, y: 0 });
+  // Touch points on the output, and the two-finger gesture (distance and midpoint at its
+  // start, with the view it started from) while one is in progress
+  const touchPoints = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ distance: number; mid: { x: number; y: number }; zoom: number; pan: { x: number; y: number } } | null>(null);
   
   // Filter State
   const [activeFilter, setActiveFilter] = useState<FilterType | null>(null);
@@ -257,6 +311,8 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
 
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const dxfInputRef = useRef<HTMLInputElement>(null);
   const outputImageRef = useRef<HTMLImageElement>(null);
 
   useEffect(() => {
@@ -296,7 +352,9 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
     setOriginalImage(null);
     setGeneratedImage(null);
     setGeneratedVideo(null);
-    setPlanData(null);
+    planHistory.reset(null);
+    setTracedPlan(null);
+    setShowCleanup(false);
     setOutlineData(null);
     setError(null);
     setIsCropping(false);
@@ -395,6 +453,91 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
     }
   };
 
+  // Projects: the render and the plan with its whole undo history
+  const openProject = (project: ProjectFile) => {
+    resetOutputs();
+    setMode('architectural');
+    setPrompt(project.prompt);
+    setOriginalImage(project.image);
+    setGeneratedImage(project.image);
+    planHistory.restore(project.history);
+    setShowWireframe(true);
+  };
+
+  const handleProjectUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(
+      text => {
+        const project = parseProject(text);
+        if (project) openProject(project);
+        else setError('That file is not an Intelligent Architect project.');
+      },
+      () => setError('Failed to read the project file.')
+    );
+  };
+
+  const handleDxfUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(
+      text => {
+        try {
+          setDxfImport({ drawing: parseDxf(text), fileName: file.name });
+        } catch (err: any) {
+          setError(`Failed to read ${file.name}: ${err.message}`);
+        }
+      },
+      () => setError('Failed to read the DXF file.')
+    );
+  };
+
+  // An imported drawing gets a blank render of its size to edit over
+  const openImportedPlan = (plan: ArchitecturalPlan) => {
+    const { width, height } = plan.dimensions;
+    const blank = `data:image/svg+xml,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="white"/></svg>`)}`;
+    resetOutputs();
+    setOriginalImage(blank);
+    setGeneratedImage(blank);
+    planHistory.reset(plan, 'Import DXF');
+    setShowWireframe(true);
+    setDxfImport(null);
+  };
+
+  // keyed by the drawing so another file starts with fresh layer roles
+  const renderDxfImport = () => dxfImport && (
+    <React.Fragment key={dxfImport.fileName}>
+        <DxfImportPanel
+            drawing={dxfImport.drawing}
+            fileName={dxfImport.fileName}
+            onImport={openImportedPlan}
+            onClose={() => setDxfImport(null)}
+        />
+    </React.Fragment>
+  );
+
+  // reopen the project from the last session
+  useEffect(() => {
+    const project = loadProjectLocally();
+    if (project) openProject(project);
+  }, []);
+
+  // keep the open project saved locally, at most once a second. Only the latest steps fit in
+  // local storage; if even the current plan doesn't, the older copy is dropped so a stale
+  // project doesn't reopen, and the user is told to download the project instead.
+  useEffect(() => {
+    if (mode !== 'architectural' || !generatedImage || !planData) return;
+    const timer = setTimeout(() => {
+      const saved = saveProjectLocally(serializeProject(prompt, generatedImage, planHistory, localHistoryLimit))
+        || saveProjectLocally(serializeProject(prompt, generatedImage, planHistory, 1));
+      if (!saved) clearLocalProject();
+      setLocalSaveFailed(!saved);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [mode, generatedImage, planHistory.entries, planHistory.index]);
+
   // Architectural Plan Room Handlers
   const handleAddRoom = () => {
     setRooms([...rooms, { id: Date.now(), name: '', type: 'Bedroom' }]);
@@ -408,98 +551,69 @@ const IntelligentArchitectApp = ({ user, onLogout, onDeductCredits, onPurchaseCr
     setRooms(rooms.map(room => room.id === id ? { ...room, [field]: value } : room));
   };
 
-  const generateDxfContent = (plan: ArchitecturalPlan): string => {
-    let dxf = '999\nDXF generated by Intelligent Architect\n';
-
-    // HEADER section
-    dxf += '0\nSECTION\n2\nHEADER\n';
-    dxf += '9\n$ACADVER\n1\nAC1009\n'; // AutoCAD R12
-    dxf += '0\nENDSEC\n';
-
-    // TABLES section
-    dxf += '0\nSECTION\n2\nTABLES\n';
-    dxf += '0\nTABLE\n2\nLAYER\n70\n4\n';
-
-    // Layer definitions
-    dxf += '0\nLAYER\n2\n0\n70\n64\n62\n7\n6\nCONTINUOUS\n'; // Name, flags, color (7=white), linetype
-    dxf += '0\nLAYER\n2\nWALLS\n70\n64\n62\n1\n6\nCONTINUOUS\n'; // color 1 = Red
-    dxf += '0\nLAYER\n2\nDOORS\n70\n64\n62\n2\n6\nCONTINUOUS\n'; // color 2 = Yellow
-    dxf += '0\nLAYER\n2\nWINDOWS\n70\n64\n62\n4\n6\nCONTINUOUS\n'; // color 4 = Cyan
-
-    dxf += '0\nENDTAB\n';
-    dxf += '0\nENDSEC\n';
-
-    // ENTITIES section
-    dxf += '0\nSECTION\n2\nENTITIES\n';
-
-    const createPolyline = (points: Array<{x: number; y: number}>, layer: string, isClosed: boolean = true) => {
-        let entity = `0\nLWPOLYLINE\n100\nAcDbEntity\n8\n${layer}\n100\nAcDbPolyline\n`;
-        entity += `90\n${points.length}\n`;
-        entity += `70\n${isClosed ? 1 : 0}\n`;
-        points.forEach(p => {
+    const generateOutlineDxfContent = (data: OutlineData): string => writeDxf({
+        version: 'R2000',
+        layers: [{ name: 'OUTLINE', color: 7 }],
+        entities: data.paths.map(path => ({
+            type: 'polyline',
+            layer: 'OUTLINE',
             // Invert Y-axis for standard CAD coordinate system (Y increases upwards)
-            const invertedY = plan.dimensions.height - p.y;
-            entity += `10\n${p.x}\n20\n${invertedY}\n`;
-        });
-        return entity;
-    };
-
-    plan.walls.forEach(wall => {
-        dxf += createPolyline(wall.boundary, 'WALLS', true);
+            points: path.boundary.map(p => ({ x: p.x, y: data.dimensions.height - p.y })),
+            closed: false,
+        })),
     });
 
-    plan.doors?.forEach(door => {
-        dxf += createPolyline(door.boundary, 'DOORS', false);
-    });
-    plan.windows?.forEach(window => {
-        dxf += createPolyline(window.boundary, 'WINDOWS', false);
+    const generateOutlineSvgContent = (data: OutlineData): string => svgDocument({
+        width: String(data.dimensions.width),
+        height: String(data.dimensions.height),
+        viewBox: data.dimensions,
+        style: '.outline-path { fill: none; stroke: black; stroke-width: 2px; }',
+        children: data.paths.map(path => el('polyline', { points: svgPoints(path.boundary), class: 'outline-path' })),
     });
 
-    dxf += '0\nENDSEC\n';
-    dxf += '0\nEOF\n';
+  // Title block fields left empty fall back to the prompt the plan was made from
+  const titleBlock = () => ({ ...exportOptions.title, project: exportOptions.title.project || prompt || 'Floor plan' });
+  const exportTitle = () => (exportOptions.showTitle ? titleBlock() : undefined);
 
-    return dxf;
-  }
+  const getPlanSvgContent = (plan: ArchitecturalPlan): string => planSvg(plan, {
+    layers,
+    background: layers.render.visible && generatedImage ? generatedImage : undefined,
+    title: exportTitle(),
+    print: exportOptions.print,
+  });
 
-    const generateOutlineDxfContent = (data: OutlineData): string => {
-        let dxf = '999\nDXF generated by Intelligent Architect\n';
-        // HEADER
-        dxf += '0\nSECTION\n2\nHEADER\n9\n$ACADVER\n1\nAC1009\n0\nENDSEC\n';
-        // TABLES (Layer definition)
-        dxf += '0\nSECTION\n2\nTABLES\n0\nTABLE\n2\nLAYER\n70\n2\n';
-        dxf += '0\nLAYER\n2\n0\n70\n64\n62\n7\n6\nCONTINUOUS\n'; // Default Layer 0
-        dxf += '0\nLAYER\n2\nOUTLINE\n70\n64\n62\n0\n6\nCONTINUOUS\n'; // OUTLINE Layer (color 0 = black)
-        dxf += '0\nENDTAB\n0\nENDSEC\n';
-        // ENTITIES
-        dxf += '0\nSECTION\n2\nENTITIES\n';
-        const createPolyline = (points: Array<{x: number; y: number}>, layer: string) => {
-            let entity = `0\nLWPOLYLINE\n100\nAcDbEntity\n8\n${layer}\n100\nAcDbPolyline\n`;
-            entity += `90\n${points.length}\n70\n0\n`; // Not closed
-            points.forEach(p => {
-                const invertedY = data.dimensions.height - p.y;
-                entity += `10\n${p.x}\n20\n${invertedY}\n`;
-            });
-            return entity;
-        };
-        data.paths.forEach(path => {
-            dxf += createPolyline(path.boundary, 'OUTLINE');
-        });
-        dxf += '0\nENDSEC\n0\nEOF\n';
-        return dxf;
-    };
+  const handleDownloadPdf = async (plan: ArchitecturalPlan) => {
+    try {
+      const underlay = exportOptions.underlay && layers.render.visible && generatedImage ? await loadJpeg(generatedImage) : undefined;
+      const pdf = planPdf(plan, {
+        layers,
+        paper: exportOptions.paper,
+        scale: exportOptions.scale,
+        title: titleBlock(),
+        underlay,
+        print: exportOptions.print,
+      });
+      handleDownload(`floorplan-1-${exportOptions.scale}.pdf`, pdf, 'application/pdf');
+    } catch (err: any) {
+      setError(`Failed to export the PDF: ${err.message}`);
+    }
+  };
 
-    const generateOutlineSvgContent = (data: OutlineData): string => {
-        let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${data.dimensions.width}" height="${data.dimensions.height}" viewBox="0 0 ${data.dimensions.width} ${data.dimensions.height}">`;
-        svg += '<style>.outline-path { fill: none; stroke: black; stroke-width: 2px; }</style>';
-        data.paths.forEach(path => {
-            const points = path.boundary.map(p => `${p.x},${p.y}`).join(' ');
-            svg += `<polyline points="${points}" class="outline-path" />`;
-        });
-        svg += '</svg>';
-        return svg;
-    };
+  const handleDownloadIfc = (plan: ArchitecturalPlan) => {
+    try {
+      const ifc = planIfc(plan, {
+        storeyHeight: exportOptions.storeyHeight,
+        wallHeight: exportOptions.wallHeight,
+        project: titleBlock().project,
+        author: exportOptions.title.drawnBy,
+      });
+      handleDownload('floorplan.ifc', ifc, 'application/x-step');
+    } catch (err: any) {
+      setError(`Failed to export IFC: ${err.message}`);
+    }
+  };
 
-  const handleDownload = (filename: string, content: string, mimeType: string) => {
+  const handleDownload = (filename: string, content: string | Uint8Array, mimeType: string) => {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -907,7 +1021,9 @@ Execute the conversion now. Provide only the raw JSON output.`;
         const jsonText = jsonResponse.text.trim();
         if (jsonText) {
             try {
-                setPlanData(JSON.parse(jsonText));
+                const traced = normalizePlan(JSON.parse(jsonText));
+                setTracedPlan(traced);
+                planHistory.reset(detectPlanRooms(cleanupPlanWalls(traced, cleanupOptions), rooms), 'Trace plan');
                 setShowWireframe(true);
             } catch (parseError) {
                 console.error("Failed to parse architectural plan JSON:", jsonText, parseError);
@@ -919,7 +1035,8 @@ Execute the conversion now. Provide only the raw JSON output.`;
     } catch (err: any) {
         console.error("Wireframe Generation Error:", err);
         setError(`Failed to generate wireframe: ${err.message || 'Unknown error'}`);
-        setPlanData(null);
+        planHistory.reset(null);
+        setTracedPlan(null);
     } finally {
         setIsGeneratingWireframe(false);
     }
@@ -1044,15 +1161,16 @@ Execute the conversion now. Provide only the raw JSON output.`;
         setPan({ x: newX, y: newY });
     };
 
-    const handlePanMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (isCropping) return;
+    const handlePanPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (isCropping || pinch.current) return;
         e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
         setIsPanning(true);
         setStartPanPoint({ x: e.clientX - pan.x, y: e.clientY - pan.y });
     };
 
-    const handlePanMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (!isPanning || isCropping) return;
+    const handlePanPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!isPanning || isCropping || pinch.current) return;
         e.preventDefault();
         setPan({
             x: e.clientX - startPanPoint.x,
@@ -1060,13 +1178,54 @@ Execute the conversion now. Provide only the raw JSON output.`;
         });
     };
 
-    const handlePanMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
+    const handlePanPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
         if(isPanning) {
             e.preventDefault();
             setIsPanning(false);
         }
     };
 
+    // Distance and midpoint (relative to the wrapper) of the first two touch points
+    const pinchMetrics = (rect: DOMRect) => {
+        const [a, b]: Array<{ x: number; y: number }> = Array.from(touchPoints.current.values());
+        return {
+            distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+            mid: { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top },
+        };
+    };
+
+    // Touch points are tracked in the capture phase so that two-finger pinch-zoom and pan
+    // also work when the fingers land on the wireframe editor, which keeps its own events.
+    const handleTouchPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.pointerType !== 'touch' || isCropping) return;
+        touchPoints.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touchPoints.current.size === 2) {
+            pinch.current = { ...pinchMetrics(e.currentTarget.getBoundingClientRect()), zoom, pan };
+            setIsPanning(false);
+        }
+    };
+
+    const handleTouchPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!touchPoints.current.has(e.pointerId)) return;
+        touchPoints.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const start = pinch.current;
+        if (!start) return;
+        e.stopPropagation(); // the editor sits this gesture out
+        const { distance, mid } = pinchMetrics(e.currentTarget.getBoundingClientRect());
+        const newZoom = Math.min(Math.max(start.zoom * (distance / start.distance), 0.2), 5);
+        // keep the point under the starting midpoint under the fingers' current midpoint
+        setZoom(newZoom);
+        setPan({
+            x: mid.x - (start.mid.x - start.pan.x) * (newZoom / start.zoom),
+            y: mid.y - (start.mid.y - start.pan.y) * (newZoom / start.zoom),
+        });
+    };
+
+    const handleTouchPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        touchPoints.current.delete(e.pointerId);
+        if (touchPoints.current.size < 2) pinch.current = null;
+    };
+
     // Filter Handlers
     const applyFilter = (filter: FilterType) => {
         if (activeFilter === filter) { // Toggle off
@@ -1153,10 +1312,14 @@ Execute the conversion now. Provide only the raw JSON output.`;
         <div className="output-image-container">
             <div 
                 className={`image-wrapper ${!isCropping && generatedImage ? 'pannable' : ''} ${isPanning ? 'panning' : ''}`}
-                onMouseDown={handlePanMouseDown}
-                onMouseMove={isPanning ? handlePanMouseMove : undefined}
-                onMouseUp={isPanning ? handlePanMouseUp : undefined}
-                onMouseLeave={isPanning ? handlePanMouseUp : undefined}
+                onPointerDownCapture={handleTouchPointerDown}
+                onPointerMoveCapture={handleTouchPointerMove}
+                onPointerUpCapture={handleTouchPointerUp}
+                onPointerCancelCapture={handleTouchPointerUp}
+                onPointerDown={handlePanPointerDown}
+                onPointerMove={isPanning ? handlePanPointerMove : undefined}
+                onPointerUp={isPanning ? handlePanPointerUp : undefined}
+                onPointerCancel={isPanning ? handlePanPointerUp : undefined}
                 onWheel={!isCropping ? handleWheelZoom : undefined}
             >
                 <div 
@@ -1170,6 +1333,7 @@ Execute the conversion now. Provide only the raw JSON output.`;
                         src={generatedImage} 
                         alt={prompt} 
                         className="generated-image" 
+                        style={showWireframe ? { opacity: layers.render.visible ? layers.render.opacity ?? 1 : 0 } : undefined}
                         onDragStart={(e) => e.preventDefault()}
                     />
                     {showWireframe && planData && planData.dimensions && (
@@ -1180,17 +1344,18 @@ Execute the conversion now. Provide only the raw JSON output.`;
                                 height: `${imageRenderedSize.height}px`,
                             }}
                         >
-                            <svg width="100%" height="100%" viewBox={`0 0 ${planData.dimensions.width} ${planData.dimensions.height}`} preserveAspectRatio="none">
-                                {planData.walls.map((wall, i) => (
-                                <polygon key={`wall-${i}`} points={wall.boundary.map(p => `${p.x},${p.y}`).join(' ')} className="wall-shape" vectorEffect="non-scaling-stroke" />
-                                ))}
-                                {planData.windows?.map((window, i) => (
-                                    <polyline key={`window-${i}`} points={window.boundary.map(p => `${p.x},${p.y}`).join(' ')} className="window-shape" vectorEffect="non-scaling-stroke" />
-                                ))}
-                                {planData.doors?.map((door, i) => (
-                                    <polyline key={`door-${i}`} points={door.boundary.map(p => `${p.x},${p.y}`).join(' ')} className="door-shape" vectorEffect="non-scaling-stroke" />
-                                ))}
-                            </svg>
+                            <WireframeEditor
+                                plan={planData}
+                                onChange={planHistory.set}
+                                size={imageRenderedSize}
+                                onUndo={planHistory.undo}
+                                onRedo={planHistory.redo}
+                                canUndo={planHistory.canUndo}
+                                canRedo={planHistory.canRedo}
+                                highlight={highlightedIssue}
+                                roomTypes={roomTypes}
+                                layers={layers}
+                            />
                         </div>
                     )}
                 </div>
@@ -1247,6 +1412,45 @@ Execute the conversion now. Provide only the raw JSON output.`;
                     <button className="filter-button reset-filter" onClick={removeFilters} disabled={!activeFilter}>Reset</button>
                 </div>
             )}
+            {showWireframe && planData && tracedPlan && showCleanup && (
+                <TraceCleanupPanel
+                    traced={tracedPlan}
+                    initial={cleanupOptions}
+                    onApply={opts => {
+                        setCleanupOptions(opts);
+                        planHistory.set(detectPlanRooms(recleanTrace(planData, tracedPlan, cleanupOptions, opts), rooms), { label: 'Clean up trace' });
+                        setShowCleanup(false);
+                    }}
+                    onClose={() => setShowCleanup(false)}
+                />
+            )}
+            {showWireframe && planData && showIssues && (
+                <IssuesPanel
+                    issues={planIssues}
+                    selected={selectedIssue}
+                    onSelect={(issue) => setSelectedIssue(issueKey(issue))}
+                    onFix={(issue) => { planHistory.set(fixIssue(planData, issue), { label: 'Fix geometry issue' }); setSelectedIssue(null); }}
+                    onFixAll={() => { planHistory.set(fixAllIssues(planData), { label: 'Fix all issues' }); setSelectedIssue(null); }}
+                    onClose={() => setShowIssues(false)}
+                />
+            )}
+            {showWireframe && planData && showLayers && (
+                <LayersPanel layers={layers} onChange={setLayers} onClose={() => setShowLayers(false)} />
+            )}
+            {renderDxfImport()}
+            {showWireframe && planData && showExport && (
+                <ExportPanel options={exportOptions} onChange={setExportOptions} onClose={() => setShowExport(false)} />
+            )}
+            {showWireframe && planData && showHistory && (
+                <HistoryPanel
+                    entries={planHistory.entries}
+                    index={planHistory.index}
+                    limit={historyLimit}
+                    onJump={planHistory.jumpTo}
+                    onLimitChange={setHistoryLimit}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
             <div className="output-actions">
                 {isCropping ? (
                     <>
@@ -1264,8 +1468,43 @@ Execute the conversion now. Provide only the raw JSON output.`;
                 )}
                 {showWireframe && planData && (
                     <>
-                        <button onClick={() => handleDownload('floorplan.svg', document.querySelector('.wireframe-overlay')!.innerHTML, 'image/svg+xml')} className="action-button">Download SVG</button>
-                        <button onClick={() => handleDownload('floorplan.dxf', generateDxfContent(planData), 'application/dxf')} className="action-button">Download DXF</button>
+                        <button onClick={() => planHistory.set(detectPlanRooms(planData, rooms), { label: 'Detect rooms' })} className="action-button">Detect Rooms</button>
+                        {tracedPlan && <button onClick={() => setShowCleanup(prev => !prev)} className="action-button">Clean Up Trace</button>}
+                        <button onClick={() => setShowIssues(prev => !prev)} className="action-button">
+                            Check Geometry{planIssues.length ? ` (${planIssues.length})` : ''}
+                        </button>
+                        <button onClick={() => setShowLayers(prev => !prev)} className="action-button">Layers</button>
+                        <button onClick={() => setShowHistory(prev => !prev)} className="action-button">History</button>
+                        <button onClick={() => setShowExport(prev => !prev)} className="action-button">Export Options</button>
+                        <button onClick={() => handleDownload('floorplan.iaproj.json', serializeProject(prompt, generatedImage, planHistory), 'application/json')} className="action-button">Save Project</button>
+                        {localSaveFailed && <p className="save-warning">This project is too large to keep in the browser. Save it to a file to keep your work.</p>}
+                        <button onClick={() => handleDownload('floorplan.svg', getPlanSvgContent(planData), 'image/svg+xml')} className="action-button">Download SVG</button>
+                        <button
+                          onClick={() => handleDownloadPdf(planData)}
+                          className="action-button"
+                          disabled={!planData.scale}
+                          title={planData.scale ? `1:${exportOptions.scale} on ${exportOptions.paper}` : 'Calibrate the plan scale to export a scaled PDF'}
+                        >
+                          Download PDF
+                        </button>
+                        <button onClick={() => handleDownload('floorplan.dxf', planDxf(planData, layers), 'application/dxf')} className="action-button">Download DXF</button>
+                        <button onClick={() => handleDownload('floorplan-r12.dxf', planDxf(planData, layers, 'R12'), 'application/dxf')} className="action-button" title="For older CAD programs that only read AutoCAD R12 files">DXF (R12)</button>
+                        <button
+                          onClick={() => handleDownloadIfc(planData)}
+                          className="action-button"
+                          disabled={!planData.scale}
+                          title={planData.scale ? 'IFC4 model for BIM tools' : 'Calibrate the plan scale to export IFC'}
+                        >
+                          Download IFC
+                        </button>
+                    </>
+                )}
+                {mode === 'architectural' && (
+                    <>
+                        <button onClick={() => projectInputRef.current?.click()} className="action-button">Open Project</button>
+                        <input type="file" ref={projectInputRef} onChange={handleProjectUpload} accept="application/json,.json" style={{ display: 'none' }} />
+                        <button onClick={() => dxfInputRef.current?.click()} className="action-button">Import DXF</button>
+                        <input type="file" ref={dxfInputRef} onChange={handleDxfUpload} accept=".dxf" style={{ display: 'none' }} />
                     </>
                 )}
                 {mode === 'outline' && outlineData && (
@@ -1283,6 +1522,15 @@ Execute the conversion now. Provide only the raw JSON output.`;
       <div className="image-placeholder">
         <svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"></path><path d="m9.5 7.5 1 1"></path><path d="m14.5 7.5 1 1"></path><path d="M10 14a6 6 0 0 0 4 0"></path></svg>
         <p>Your generated content will appear here</p>
+        {renderDxfImport()}
+        {mode === 'architectural' && (
+            <>
+                <button onClick={() => projectInputRef.current?.click()} className="action-button">Open Project</button>
+                <input type="file" ref={projectInputRef} onChange={handleProjectUpload} accept="application/json,.json" style={{ display: 'none' }} />
+                <button onClick={() => dxfInputRef.current?.click()} className="action-button">Import DXF</button>
+                <input type="file" ref={dxfInputRef} onChange={handleDxfUpload} accept=".dxf" style={{ display: 'none' }} />
+            </>
+        )}
       </div>
     );
   };
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ArchitecturalPlan } from './plan';
+import { defaultLayerRoles, defaultWallThickness, DxfDrawing, DxfLayerRole, dxfLayerRoles, dxfToPlan, insunitsLabel } from './dxfImport';
+
+const roleLabels: Record<DxfLayerRole, string> = {
+    walls: 'Walls',
+    doors: 'Doors',
+    windows: 'Windows',
+    rooms: 'Rooms',
+    furniture: 'Furniture',
+    ignore: 'Ignore',
+};
+
+// What each DXF layer becomes in the plan (guessed from the layer names), and how thick
+// walls drawn as single lines are, before the drawing is imported.
+export function DxfImportPanel({
+    drawing,
+    fileName,
+    onImport,
+    onClose,
+}: {
+    drawing: DxfDrawing;
+    fileName: string;
+    onImport: (plan: ArchitecturalPlan) => void;
+    onClose: () => void;
+}) {
+    const [roles, setRoles] = useState(() => defaultLayerRoles(drawing));
+    const [thickness, setThickness] = useState(() => +defaultWallThickness(drawing).toPrecision(3));
+    const [error, setError] = useState<string | null>(null);
+    const unit = insunitsLabel(drawing.insunits) ?? 'drawing units';
+
+    const apply = () => {
+        try {
+            onImport(dxfToPlan(drawing, roles, thickness));
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <div className="import-panel">
+            <div className="wf-form">
+                <strong>Import {fileName}</strong>
+                <button className="wf-btn" onClick={apply} disabled={thickness <= 0}>Import</button>
+                <button className="wf-btn" onClick={onClose}>Cancel</button>
+            </div>
+            <ul className="import-list">
+                {drawing.layers.map(layer => (
+                    <li key={layer}>
+                        <span>{layer}</span>
+                        <span className="wf-val">{drawing.paths.filter(p => p.layer === layer && p.insert == null).length + drawing.inserts.filter(r => r.layer === layer).length} items</span>
+                        <select value={roles[layer]} onChange={e => setRoles({ ...roles, [layer]: e.target.value as DxfLayerRole })}>
+                            {dxfLayerRoles.map(r => <option key={r} value={r}>{roleLabels[r]}</option>)}
+                        </select>
+                    </li>
+                ))}
+            </ul>
+            <div className="wf-form">
+                <label className="wf-label" title="Open lines and arcs on wall layers are taken as wall centerlines of this thickness">
+                    Wall thickness
+                    <input type="number" className="wf-number" min={0} value={thickness} onChange={e => setThickness(parseFloat(e.target.value) || 0)} />
+                    {unit}
+                </label>
+            </div>
+            {error && <div className="wf-form"><span>{error}</span></div>}
+        </div>
+    );
+}
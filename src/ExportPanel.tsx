@@ -0,0 +1,92 @@
+import React from 'react';
+import { TitleBlock } from './planSvg';
+import { PaperSize, paperSizes, pdfScales } from './planPdf';
+
+// `paper`, `scale` and `underlay` only apply to the PDF sheet, which always has a title block;
+// the heights (metres) only to the IFC model.
+export type ExportOptions = {
+    title: TitleBlock;
+    showTitle: boolean;
+    print: boolean;
+    paper: PaperSize;
+    scale: number;
+    underlay: boolean;
+    storeyHeight: number;
+    wallHeight: number;
+};
+
+// Settings shared by the drawing exports: the title block, whether to draw in black on
+// white for printing or in the editor's layer colours, the PDF sheet and the IFC heights.
+export function ExportPanel({
+    options,
+    onChange,
+    onClose,
+}: {
+    options: ExportOptions;
+    onChange: (options: ExportOptions) => void;
+    onClose: () => void;
+}) {
+    const title = (patch: Partial<TitleBlock>) => onChange({ ...options, title: { ...options.title, ...patch } });
+    return (
+        <div className="export-panel">
+            <div className="wf-form">
+                <strong>Export</strong>
+                <label className="wf-label">
+                    <input type="checkbox" checked={options.print} onChange={e => onChange({ ...options, print: e.target.checked })} />
+                    Black on white
+                </label>
+                <label className="wf-label">
+                    <input type="checkbox" checked={options.showTitle} onChange={e => onChange({ ...options, showTitle: e.target.checked })} />
+                    Title block
+                </label>
+                <button className="wf-btn" onClick={onClose}>Close</button>
+            </div>
+            <div className="wf-form">
+                <strong>PDF</strong>
+                <label className="wf-label">
+                    Paper
+                    <select value={options.paper} onChange={e => onChange({ ...options, paper: e.target.value as PaperSize })}>
+                        {(Object.keys(paperSizes) as PaperSize[]).map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                </label>
+                <label className="wf-label">
+                    Scale
+                    <select value={options.scale} onChange={e => onChange({ ...options, scale: Number(e.target.value) })}>
+                        {pdfScales.map(n => <option key={n} value={n}>1:{n}</option>)}
+                    </select>
+                </label>
+                <label className="wf-label">
+                    <input type="checkbox" checked={options.underlay} onChange={e => onChange({ ...options, underlay: e.target.checked })} />
+                    Render underlay
+                </label>
+            </div>
+            <div className="wf-form">
+                <strong>IFC</strong>
+                <label className="wf-label">
+                    Storey height (m)
+                    <input type="number" min={0.1} step={0.05} value={options.storeyHeight} onChange={e => onChange({ ...options, storeyHeight: Number(e.target.value) })} />
+                </label>
+                <label className="wf-label">
+                    Wall height (m)
+                    <input type="number" min={0.1} step={0.05} value={options.wallHeight} onChange={e => onChange({ ...options, wallHeight: Number(e.target.value) })} />
+                </label>
+            </div>
+            {options.showTitle && (
+                <div className="wf-form">
+                    <label className="wf-label">
+                        Project
+                        <input type="text" value={options.title.project} onChange={e => title({ project: e.target.value })} />
+                    </label>
+                    <label className="wf-label">
+                        Date
+                        <input type="text" value={options.title.date} onChange={e => title({ date: e.target.value })} />
+                    </label>
+                    <label className="wf-label">
+                        Drawn by
+                        <input type="text" value={options.title.drawnBy} onChange={e => title({ drawnBy: e.target.value })} />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { HistoryEntry } from './useUndo';
+
+export const historyLimits = [50, 100, 200, 500];
+
+// Undo history, oldest first; clicking an entry jumps back (or forward) to it.
+// Entries after the current one are dimmed and are dropped by the next edit.
+export function HistoryPanel<T>({
+    entries,
+    index,
+    limit,
+    onJump,
+    onLimitChange,
+    onClose,
+}: {
+    entries: HistoryEntry<T>[];
+    index: number;
+    limit: number;
+    onJump: (index: number) => void;
+    onLimitChange: (limit: number) => void;
+    onClose: () => void;
+}) {
+    return (
+        <div className="history-panel">
+            <div className="wf-form">
+                <strong>History</strong>
+                <label className="wf-label">
+                    Keep
+                    <select value={limit} onChange={e => onLimitChange(parseInt(e.target.value, 10))}>
+                        {historyLimits.map(n => <option key={n} value={n}>{n} steps</option>)}
+                    </select>
+                </label>
+                <button className="wf-btn" onClick={onClose}>Close</button>
+            </div>
+            <ol className="history-list">
+                {entries.map((entry, i) => (
+                    <li key={i} className={i === index ? 'selected' : i > index ? 'undone' : ''} onClick={() => onJump(i)}>
+                        <span>{entry.label}</span>
+                        <span className="wf-val">{new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { dist, graphNode, moveGraphNode, polygonPerimeter, setGraphEdgeThickness, setGraphEdgeVector, WallEdge, WallGraph } from './geometry';
+import { ArchitecturalPlan, arcWall, PlanOpening, syncWallGraph } from './plan';
+import { PlanSelection, selectionSize } from './selection';
+import { formatLength, lengthField } from './units';
+
+// Number input that only applies its value on Enter or blur, so each edit is one step.
+function Field({ label, value, suffix, step = 1, min, onCommit }: {
+    label: string;
+    value: number;
+    suffix?: string;
+    step?: number;
+    min?: number;
+    onCommit: (v: number) => void;
+}) {
+    const [text, setText] = useState<string | null>(null); // typed text while editing
+    const apply = () => {
+        const v = text == null ? NaN : parseFloat(text);
+        setText(null);
+        if (Number.isFinite(v) && (min == null || v >= min) && v !== value) onCommit(v);
+    };
+    return (
+        <label className="wf-label">
+            {label}
+            <input
+                type="number"
+                className="wf-number"
+                step={step}
+                value={text ?? +(Math.round(value / step) * step).toFixed(4)}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={apply}
+                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            />
+            {suffix}
+        </label>
+    );
+}
+
+// Exact values for the selection: one wall's length, angle, thickness and end points;
+// a door's or window's width, offset and swing; or the shared thickness of several walls.
+// Graph edits go through the wall graph so connected walls and openings follow.
+export function InspectorPanel({ plan, selection, onChange }: {
+    plan: ArchitecturalPlan;
+    selection: PlanSelection;
+    onChange: (next: ArchitecturalPlan, label: string) => void;
+}) {
+    const graph: WallGraph | undefined = plan.graph;
+    const field = lengthField(plan.scale);
+    const len = (label: string, value: number, onCommit: (v: number) => void, min?: number) => (
+        <Field label={label} value={field.toField(value)} suffix={field.unit} step={field.step} min={min} onCommit={v => onCommit(field.fromField(v))} />
+    );
+    const applyGraph = (g: WallGraph, label: string) => onChange(syncWallGraph(plan, g), label);
+
+    const walls = selection.walls.map(i => plan.walls[i]).filter(Boolean);
+    const edges = graph ? walls.map(w => graph.edges.find(e => e.id === w.edge)).filter((e): e is WallEdge => e != null) : [];
+
+    // one wall
+    if (selectionSize(selection) === 1 && walls.length === 1) {
+        const wall = walls[0];
+        if (wall.arc) {
+            const arc = wall.arc;
+            return (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <span>Arc wall · radius {formatLength(arc.radius, plan.scale)} · length {formatLength(Math.abs(arc.sweep) * arc.radius, plan.scale)}</span>
+                        {len('Thickness', arc.thickness, t => onChange({
+                            ...plan,
+                            walls: plan.walls.map(w => (w === wall ? arcWall({ ...arc, thickness: t }) : w)),
+                        }, 'Set wall thickness'), 0.001)}
+                    </div>
+                </div>
+            );
+        }
+        const edge = edges[0];
+        const a = edge && graph && graphNode(graph, edge.a), b = edge && graph && graphNode(graph, edge.b);
+        if (!edge || !graph || !a || !b) {
+            return (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <span>Traced wall · perimeter {formatLength(polygonPerimeter(wall.boundary), plan.scale)}. Join it to edit it numerically.</span>
+                    </div>
+                </div>
+            );
+        }
+        const length = dist(a, b);
+        const angle = (Math.atan2(-(b.y - a.y), b.x - a.x) * 180) / Math.PI;
+        const move = (id: number, p: { x: number; y: number }) => applyGraph(moveGraphNode(graph, id, p), 'Move wall end');
+        return (
+            <div className="wf-panel">
+                <div className="wf-form">
+                    {len('Length', length, v => applyGraph(setGraphEdgeVector(graph, edge.id, v, angle), 'Set wall length'), 0.001)}
+                    <Field label="Angle" value={angle} suffix="°" step={0.1} onCommit={v => applyGraph(setGraphEdgeVector(graph, edge.id, length, v), 'Set wall angle')} />
+                    {len('Thickness', edge.thickness, v => applyGraph(setGraphEdgeThickness(graph, edge.id, v), 'Set wall thickness'), 0.001)}
+                </div>
+                <div className="wf-form">
+                    {len('Start x', a.x, v => move(edge.a, { x: v, y: a.y }))}
+                    {len('y', a.y, v => move(edge.a, { x: a.x, y: v }))}
+                    {len('End x', b.x, v => move(edge.b, { x: v, y: b.y }))}
+                    {len('y', b.y, v => move(edge.b, { x: b.x, y: v }))}
+                </div>
+            </div>
+        );
+    }
+
+    // several walls: re-thicken them together
+    if (walls.length > 1 && walls.length === selectionSize(selection) && edges.length && graph) {
+        return (
+            <div className="wf-panel">
+                <div className="wf-form">
+                    <span>{walls.length} walls</span>
+                    {len('Thickness', edges[0].thickness, v => applyGraph(edges.reduce((g, e) => setGraphEdgeThickness(g, e.id, v), graph), 'Set wall thickness'), 0.001)}
+                </div>
+            </div>
+        );
+    }
+
+    // one door or window
+    const kind = selection.doors.length === 1 ? 'doors' : selection.windows.length === 1 ? 'windows' : null;
+    if (selectionSize(selection) !== 1 || !kind) return null;
+    const index = selection[kind][0];
+    const opening = plan[kind][index];
+    if (!opening) return null;
+    const update = (patch: Partial<PlanOpening>) => {
+        const next = { ...plan, [kind]: plan[kind].map((o, i) => (i === index ? { ...o, ...patch } : o)) };
+        onChange(graph ? syncWallGraph(next, graph) : next, kind === 'doors' ? 'Edit door' : 'Edit window');
+    };
+    const host = opening.host;
+    return (
+        <div className="wf-panel">
+            <div className="wf-form">
+                <span>{kind === 'doors' ? 'Door' : 'Window'}</span>
+                {host ? (
+                    <>
+                        {len('Width', host.width, v => update({ host: { ...host, width: v } }), 0.001)}
+                        {len('Offset', host.offset, v => update({ host: { ...host, offset: v } }), 0)}
+                        {kind === 'doors' && (
+                            <>
+                                <button className={`wf-btn ${opening.hinge !== 'b' ? 'active' : ''}`} onClick={() => update({ hinge: 'a' })} title="Hinge on the jamb nearer the wall start">Start</button>
+                                <button className={`wf-btn ${opening.hinge === 'b' ? 'active' : ''}`} onClick={() => update({ hinge: 'b' })} title="Hinge on the jamb nearer the wall end">End</button>
+                                <button className={`wf-btn ${opening.swing !== 'right' ? 'active' : ''}`} onClick={() => update({ swing: 'left' })}>Left</button>
+                                <button className={`wf-btn ${opening.swing === 'right' ? 'active' : ''}`} onClick={() => update({ swing: 'right' })}>Right</button>
+                            </>
+                        )}
+                    </>
+                ) : (
+                    <span>traced · width {formatLength(polygonPerimeter(opening.boundary, false), plan.scale)}</span>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { issueKey, PlanIssue } from './validate';
+
+const fixLabels: Record<NonNullable<PlanIssue['fix']>, string> = {
+    remove: 'Remove',
+    untangle: 'Untangle',
+    clamp: 'Clamp',
+};
+
+// Lists validation issues; selecting one highlights it in the editor.
+export function IssuesPanel({
+    issues,
+    selected,
+    onSelect,
+    onFix,
+    onFixAll,
+    onClose,
+}: {
+    issues: PlanIssue[];
+    selected: string | null; // issueKey of the highlighted issue
+    onSelect: (issue: PlanIssue) => void;
+    onFix: (issue: PlanIssue) => void;
+    onFixAll: () => void;
+    onClose: () => void;
+}) {
+    const fixable = issues.filter(i => i.fix).length;
+    return (
+        <div className="issues-panel">
+            <div className="wf-form">
+                <strong>{issues.length ? `${issues.length} geometry issue${issues.length === 1 ? '' : 's'}` : 'No geometry issues'}</strong>
+                <button className="wf-btn" onClick={onFixAll} disabled={!fixable}>Fix all ({fixable})</button>
+                <button className="wf-btn" onClick={onClose}>Close</button>
+            </div>
+            {issues.length > 0 && (
+                <ul className="issues-list">
+                    {issues.map(issue => {
+                        const key = issueKey(issue);
+                        return (
+                            <li key={key} className={selected === key ? 'selected' : ''} onClick={() => onSelect(issue)}>
+                                <span>{issue.message}</span>
+                                {issue.fix && (
+                                    <button className="wf-btn" onClick={e => { e.stopPropagation(); onFix(issue); }}>
+                                        {fixLabels[issue.fix]}
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { layerIds, layerLabels, PlanLayers, updateLayer } from './layers';
+
+// Show/hide, lock and colour per layer; the render layer (background image) gets an
+// opacity slider instead of a colour.
+export function LayersPanel({
+    layers,
+    onChange,
+    onClose,
+}: {
+    layers: PlanLayers;
+    onChange: (layers: PlanLayers) => void;
+    onClose: () => void;
+}) {
+    return (
+        <div className="layers-panel">
+            <div className="wf-form">
+                <strong>Layers</strong>
+                <button className="wf-btn" onClick={onClose}>Close</button>
+            </div>
+            <ul className="layers-list">
+                {[...layerIds].reverse().map(id => {
+                    const layer = layers[id];
+                    return (
+                        <li key={id} className={layer.visible ? '' : 'hidden'}>
+                            <label className="wf-label">
+                                <input type="checkbox" checked={layer.visible} onChange={e => onChange(updateLayer(layers, id, { visible: e.target.checked }))} />
+                                {layerLabels[id]}
+                            </label>
+                            {id === 'render' ? (
+                                <label className="wf-label">
+                                    Opacity
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={1}
+                                        step={0.05}
+                                        value={layer.opacity ?? 1}
+                                        onChange={e => onChange(updateLayer(layers, id, { opacity: Number(e.target.value) }))}
+                                    />
+                                    <span className="wf-val">{Math.round((layer.opacity ?? 1) * 100)}%</span>
+                                </label>
+                            ) : (
+                                <>
+                                    <label className="wf-label">
+                                        <input type="checkbox" checked={layer.locked} onChange={e => onChange(updateLayer(layers, id, { locked: e.target.checked }))} />
+                                        Lock
+                                    </label>
+                                    <input
+                                        type="color"
+                                        value={layer.color}
+                                        onChange={e => onChange(updateLayer(layers, id, { color: e.target.value }))}
+                                        title={`${layerLabels[id]} colour`}
+                                    />
+                                </>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { CleanupOptions, defaultCleanupOptions, shapePathData } from './geometry';
+import { ArchitecturalPlan, cleanupPlanWalls, countVertices } from './plan';
+
+// Tolerance sliders: [key, label, max, step, unit suffix]
+const controls: Array<[keyof CleanupOptions, string, number, number, string]> = [
+    ['simplifyTol', 'Simplify', 10, 0.5, 'px'],
+    ['orthoAngle', 'Straighten', 15, 1, '°'],
+    ['collinearTol', 'Collinear', 5, 0.25, 'px'],
+];
+
+function PlanPreview({ plan, title }: { plan: ArchitecturalPlan; title: string }) {
+    const { width, height } = plan.dimensions;
+    return (
+        <figure className="cleanup-preview">
+            <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet">
+                {plan.walls.map((w, i) => (
+                    <path key={i} d={shapePathData(w)} fillRule="evenodd" className="cleanup-wall" vectorEffect="non-scaling-stroke" />
+                ))}
+                {plan.walls.flatMap((w, i) => w.boundary.map((p, j) => (
+                    <circle key={`${i}-${j}`} cx={p.x} cy={p.y} r={Math.max(width, height) / 300} className="cleanup-vertex" />
+                )))}
+            </svg>
+            <figcaption>{title} · {countVertices(plan)} pts</figcaption>
+        </figure>
+    );
+}
+
+// Before/after preview of the trace cleanup pipeline. `traced` is the raw AI trace;
+// applying re-runs cleanup on its walls in the plan with the chosen tolerances.
+export function TraceCleanupPanel({
+    traced,
+    initial = defaultCleanupOptions,
+    onApply,
+    onClose,
+}: {
+    traced: ArchitecturalPlan;
+    initial?: CleanupOptions;
+    onApply: (opts: CleanupOptions) => void;
+    onClose: () => void;
+}) {
+    const [opts, setOpts] = useState<CleanupOptions>(initial);
+    const cleaned = useMemo(() => cleanupPlanWalls(traced, opts), [traced, opts]);
+
+    return (
+        <div className="cleanup-panel">
+            <div className="cleanup-previews">
+                <PlanPreview plan={traced} title="Before" />
+                <PlanPreview plan={cleaned} title="After" />
+            </div>
+            <div className="wf-form">
+                {controls.map(([key, label, max, step, suffix]) => (
+                    <label key={key} className="wf-label">
+                        {label}
+                        <input
+                            type="range"
+                            min={0}
+                            max={max}
+                            step={step}
+                            value={opts[key]}
+                            onChange={e => setOpts(o => ({ ...o, [key]: Number(e.target.value) }))}
+                        />
+                        <span className="wf-val">{opts[key]}{suffix}</span>
+                    </label>
+                ))}
+                <button className="wf-btn" onClick={() => setOpts(defaultCleanupOptions)}>Defaults</button>
+                <button className="wf-btn active" onClick={() => onApply(opts)}>Apply</button>
+                <button className="wf-btn" onClick={onClose}>Close</button>
+            </div>
+        </div>
+    );
+}
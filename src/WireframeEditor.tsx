@@ -1,53 +1,389 @@
-import React, { useEffect, useRef, useState } from 'react';
-import * as pc from 'polygon-clipping';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
+    addGraphWall,
+    add,
+    angleBetweenSegments,
+    Arc,
+    arcPointAt,
+    arcThroughPoints,
+    arcWallPathData,
+    createSpatialIndex,
     createWallRectangle,
+    dist,
+    dist2,
     edgesOf,
+    emptyWallGraph,
+    graphNode,
+    labelPoint,
+    mergeGraphNodes,
+    moveGraphNode,
     nearestPointOnSegment,
-    pickVertex,
-    pickWall,
+    normalize,
+    pickArcWall,
+    pickGraphNode,
     Point,
+    pointInShape,
+    polygonArea,
+    polygonPerimeter,
     polygonTranslate,
-    snapToGrid
+    raySegmentHit,
+    rectPolygon,
+    Segment,
+    Shape,
+    shapeArea,
+    shapePathData,
+    snapPoint,
+    SnapResult,
+    snapToGrid,
+    SpatialIndex,
+    splitGraphEdge,
+    sub,
+    translateArc,
+    WallGraph,
+    wallGraphFromPolygons
 } from './geometry';
+import {
+    ArchitecturalPlan,
+    arcWall,
+    connectPlanWalls,
+    cutWallsWithRect,
+    doorSwing,
+    enclosedSpaceAt,
+    mergeWallsInRegion,
+    OpeningHost,
+    openingFrame,
+    PlanDimension,
+    PlanOpening,
+    PlanWall,
+    removeWallEdge,
+    roomColors,
+    syncWallGraph
+} from './plan';
+import { PlanIssue } from './validate';
+import { InspectorPanel } from './InspectorPanel';
+import { defaultLayers, isPickable, LayerId, PlanLayers } from './layers';
+import { pickSymbol, symbolDef, symbolLibrary, symbolSvgTransform, unitsPerMetre } from './symbols';
+import { autoDimension, dimensionDistance, dimensionGeometry, dimensionOffsetThrough } from './dimensions';
+import {
+    clampSelection,
+    copySelection,
+    deleteSelection,
+    emptySelection,
+    mergeSelections,
+    mirror,
+    parseFragment,
+    pasteFragment,
+    PlanFragment,
+    PlanSelection,
+    rotation,
+    selectInRect,
+    selectionCentre,
+    selectionSize,
+    SelectionKind,
+    toggleSelected,
+    transformSelection,
+    translation
+} from './selection';
+import { calibrateScale, formatArea, formatLength, parseLength, thicknessSlider, UnitSystem, unitLabels } from './units';
+
+type Tool = 'select' | 'draw' | 'arc' | 'door' | 'window' | 'room' | 'furniture' | 'dimension' | 'measure' | 'delete' | 'stretch' | 'move' | 'extend' | 'merge' | 'cut' | 'calibrate';
+
+type OpeningKind = 'doors' | 'windows';
 
-type ArchitecturalPlan = {
-    walls: Array<{ boundary: Array<Point> }>;
-    doors: Array<{ boundary: Array<Point> }>;
-    windows: Array<{ boundary: Array<Point> }>;
-    rooms: Array<{ name: string; type: string; boundary: Array<Point> }>;
-    dimensions: { width: number; height: number };
+// Measure tool modes: point-to-point distance, angle between two picked edges, area of a
+// clicked room/wall, or area of a drawn polygon region
+type MeasureMode = 'distance' | 'angle' | 'area' | 'region';
+
+const measureModes: Record<MeasureMode, string> = {
+    distance: 'Distance',
+    angle: 'Angle',
+    area: 'Area (click shape)',
+    region: 'Area (draw region)',
 };
 
-type Tool = 'select' | 'draw' | 'delete' | 'stretch' | 'move' | 'extend';
+// Text fields keep their own keyboard handling (typing, select-all, copy and paste)
+const isEditable = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+// Last copied fragment, used when the system clipboard is unavailable or denied
+let localClipboard: PlanFragment | null = null;
 
 export function WireframeEditor({
     plan,
     onChange,
     size, // overlay pixel size { width, height }
+    onUndo,
+    onRedo,
+    canUndo = false,
+    canRedo = false,
+    highlight = null,
+    roomTypes = [],
+    layers = defaultLayers,
 }: {
     plan: ArchitecturalPlan;
-    onChange: (p: ArchitecturalPlan) => void;
+    // transient changes are live drag updates; the owner should record one history step per gesture
+    onChange: (p: ArchitecturalPlan, opts?: { transient?: boolean; label?: string }) => void;
     size: { width: number; height: number };
+    onUndo?: () => void;
+    onRedo?: () => void;
+    canUndo?: boolean;
+    canRedo?: boolean;
+    highlight?: PlanIssue | null; // validation issue to point out
+    roomTypes?: string[];
+    layers?: PlanLayers;
 }) {
     const svgRef = useRef<SVGSVGElement | null>(null);
+    const rootRef = useRef<HTMLDivElement | null>(null);
 
     const [tool, setTool] = useState<Tool>('select');
     const [wallThickness, setWallThickness] = useState<number>(20);
     const [snap, setSnap] = useState<boolean>(true);
+    const [angleStep, setAngleStep] = useState<number>(45); // Shift-constrained drawing angle
+    const [snapHint, setSnapHint] = useState<SnapResult | null>(null);
 
-    const [hover, setHover] = useState<{ wall: number; vertex?: number } | null>(null);
-    const [selection, setSelection] = useState<{ wall: number; vertex?: number } | null>(null);
+    // `node` is set instead of `vertex` when the wall belongs to the wall graph
+    const [hover, setHover] = useState<{ wall: number; vertex?: number; node?: number } | null>(null);
+    const [selection, setSelection] = useState<{ wall: number; vertex?: number; node?: number } | null>(null);
+    // select tool: walls, doors and windows picked by click, shift-click or marquee
+    const [picked, setPicked] = useState<PlanSelection>(emptySelection);
+    const sel = clampSelection(picked, plan);
+    const [rotateBy, setRotateBy] = useState<number>(90);
+    const lastPointer = useRef<Point | null>(null);
+
+    // Hit-test tolerances are in screen pixels, converted to plan units at the current
+    // zoom (the overlay's CSS scale shows up in its screen CTM). Touch gets a bigger target.
+    const unitsPerPx = useRef(1);
+    const coarsePointer = useRef(false);
+    const hitTol = () => (coarsePointer.current ? 16 : 8) * unitsPerPx.current;
+    // touch points currently down; a second finger hands the gesture to pinch-zoom/pan
+    const touches = useRef(new Set<number>());
+    const dragOrigin = useRef<ArchitecturalPlan>(plan); // plan before the current drag
 
     const [drag, setDrag] = useState<{
-        kind: 'move-wall' | 'move-vertex' | 'draw';
+        kind: 'move-selection' | 'move-vertex' | 'move-node' | 'draw' | 'region';
         startPt: Point;
         currPt?: Point;            // live mouse point for draw preview
         startWall?: number;
         vertex?: number;
+        node?: number;
+        moved?: boolean;           // a transient change was emitted during this drag
     } | null>(null);
 
-    const [extendStart, setExtendStart] = useState<{ wall: number; vertex: number } | null>(null);
+    const [extendStart, setExtendStart] = useState<{ wall: number; vertex: number; node?: number } | null>(null);
+
+    // Three-point arc in progress: start, end, then a point the arc passes through
+    const [arcDraft, setArcDraft] = useState<{ pts: Point[]; cursor?: Point } | null>(null);
+
+    // Door/window placement settings (widths in plan units) and the hovered placement
+    const [openingOpts, setOpeningOpts] = useState<{ doorWidth: number; windowWidth: number; hinge: 'a' | 'b'; swing: 'left' | 'right' }>(() => ({
+        doorWidth: plan.scale ? 0.9 / plan.scale.metersPerUnit : 40,
+        windowWidth: plan.scale ? 1.2 / plan.scale.metersPerUnit : 50,
+        hinge: 'a',
+        swing: 'left',
+    }));
+    const [openingPreview, setOpeningPreview] = useState<{ a: Point; b: Point; thickness: number } | null>(null);
+
+    // Furniture placement: chosen library symbol, its rotation and the hovered insertion point
+    const [furnitureOpts, setFurnitureOpts] = useState<{ symbol: string; rotation: number }>({ symbol: symbolLibrary[0].id, rotation: 0 });
+    const [furniturePreview, setFurniturePreview] = useState<Point | null>(null);
+
+    // Dimension in progress: two measured points, then a click placing the dimension line
+    const [dimDraft, setDimDraft] = useState<{ a: Point; b?: Point; cursor?: Point } | null>(null);
+
+    // Measure tool state; never written to the plan
+    const [measure, setMeasure] = useState<{ mode: MeasureMode; pts: Point[]; cursor?: Point; edges: Segment[]; shape?: Shape; closed?: boolean }>(
+        { mode: 'distance', pts: [], edges: [] }
+    );
+    const resetMeasure = (mode: MeasureMode = measure.mode) => setMeasure({ mode, pts: [], edges: [] });
+
+    // Room being labelled with the room tool, and a hint when a click found no enclosed area
+    const [roomEdit, setRoomEdit] = useState<number | null>(null);
+    const [roomHint, setRoomHint] = useState<string | null>(null);
+    const renaming = useRef(false); // room name typed since the field gained focus
+
+    // Scale calibration: two picked points plus the real distance typed for them
+    const [calib, setCalib] = useState<{ a: Point; b?: Point; cursor?: Point; text: string; units: UnitSystem; error?: string } | null>(null);
+
+    const graph: WallGraph = plan.graph ?? emptyWallGraph();
+
+    // Grid index over wall edges for hit-testing; rebuilt only when the plan size changes
+    // and otherwise updated incrementally with whichever wall polygons changed. The update
+    // happens lazily in the event handlers that query it, never during render.
+    const spatialIndex = useMemo(
+        () => createSpatialIndex(Math.max(8, Math.max(plan.dimensions.width, plan.dimensions.height) / 100)),
+        [plan.dimensions.width, plan.dimensions.height]
+    );
+    const indexed = useRef<{ index: SpatialIndex; walls: PlanWall[] } | null>(null);
+    const wallGrid = () => {
+        if (indexed.current?.index !== spatialIndex || indexed.current.walls !== plan.walls) {
+            spatialIndex.update(plan.walls.map(w => w.boundary));
+            indexed.current = { index: spatialIndex, walls: plan.walls };
+        }
+        return spatialIndex;
+    };
+    const pickable = (id: LayerId) => isPickable(layers, id);
+    // hidden or locked layers drop out of a selection
+    const pickableOnly = (s: PlanSelection): PlanSelection => ({
+        walls: pickable('walls') ? s.walls : [],
+        doors: pickable('doors') ? s.doors : [],
+        windows: pickable('windows') ? s.windows : [],
+        symbols: pickable('furniture') ? s.symbols : [],
+    });
+    const symbols = plan.symbols ?? [];
+    const pickPlacedSymbol = (p: Point) => (pickable('furniture') ? pickSymbol(symbols, p, hitTol() / 2) : -1);
+
+    // arc walls are hit-tested against their true curve; the index only sees their facets
+    const pickWall = (p: Point, tol = hitTol()) => {
+        if (!pickable('walls')) return -1;
+        const arcHit = pickArcWall(plan.walls.map(w => w.arc), p, tol);
+        if (arcHit >= 0) return arcHit;
+        const wi = wallGrid().pickWall(p, tol);
+        return wi >= 0 && plan.walls[wi].arc ? -1 : wi;
+    };
+    const pickVertex = (wi: number, p: Point, tol = hitTol()) => wallGrid().pickVertex(wi, p, tol);
+
+    function updateHover(next: { wall: number; vertex?: number; node?: number } | null) {
+        // skip no-op updates so pointer moves don't re-render large plans
+        if (next?.wall === hover?.wall && next?.vertex === hover?.vertex && next?.node === hover?.node) return;
+        setHover(next);
+    }
+
+    // the graph node of wall `wi` nearest to p, or -1 for free-form walls / no node within tol
+    function pickWallNode(wi: number, p: Point, tol = hitTol()): number {
+        const edge = graph.edges.find(e => e.id === plan.walls[wi]?.edge);
+        if (!edge) return -1;
+        const own: WallGraph = { ...graph, nodes: graph.nodes.filter(n => n.id === edge.a || n.id === edge.b) };
+        return pickGraphNode(own, p, tol);
+    }
+
+    // Snap a pointer position to nearby wall geometry and graph centerlines (see snapPoint).
+    // `exclude` lists walls being edited, `excludeNode` a node being dragged, so neither
+    // snaps to itself.
+    function snapAt(p: Point, opts: { from?: Point; shift?: boolean; exclude?: Set<number>; excludeNode?: number } = {}): SnapResult {
+        if (!snap) return { point: p, kind: null, guides: [] };
+        const tol = hitTol(), reach = tol * 4;
+        const segments: Segment[] = wallGrid().nearbyEdges(p, reach)
+            .filter(h => !opts.exclude?.has(h.wall))
+            .map(h => [h.poly[h.edge], h.poly[(h.edge + 1) % h.poly.length]]);
+        for (const e of graph.edges) {
+            if (opts.excludeNode != null && (e.a === opts.excludeNode || e.b === opts.excludeNode)) continue;
+            const a = graphNode(graph, e.a)!, b = graphNode(graph, e.b)!;
+            if (dist2(nearestPointOnSegment(p, a, b).q, p) <= reach * reach) segments.push([a, b]);
+        }
+        const points = graph.nodes.filter(n => n.id !== opts.excludeNode).map(n => ({ x: n.x, y: n.y }));
+        plan.walls.forEach((w, i) => {
+            if (w.arc && !opts.exclude?.has(i)) points.push(arcPointAt(w.arc, 0), arcPointAt(w.arc, 1));
+        });
+        return snapPoint(p, { segments, points, from: opts.from, tol, angleStep: opts.shift ? angleStep : undefined, grid: 5 });
+    }
+
+    function updateSnapHint(next: SnapResult | null) {
+        const same = next?.kind === snapHint?.kind && next?.point.x === snapHint?.point.x && next?.point.y === snapHint?.point.y;
+        if (!same) setSnapHint(next && next.kind && next.kind !== 'grid' ? next : null);
+    }
+
+    // Where an extend/trim source lands on the target wall: along the source wall's own
+    // direction when that line crosses the target, else the nearest point on it. Graph
+    // walls aim for the target's centerline so they can join it.
+    function extendTarget(src: { wall: number; vertex: number; node?: number }, targetWall: number): SnapResult {
+        let srcPt: Point;
+        let dir: Point | null = null;
+        if (src.node != null) {
+            srcPt = graphNode(graph, src.node)!;
+            const edge = graph.edges.find(e => e.id === plan.walls[src.wall].edge);
+            const other = edge && graphNode(graph, edge.a === src.node ? edge.b : edge.a);
+            if (other) dir = normalize(sub(srcPt, other));
+        } else {
+            const poly = plan.walls[src.wall].boundary;
+            srcPt = poly[src.vertex];
+            const prev = poly[(src.vertex - 1 + poly.length) % poly.length];
+            const next = poly[(src.vertex + 1) % poly.length];
+            dir = normalize(sub(srcPt, dist2(prev, srcPt) > dist2(next, srcPt) ? prev : next));
+        }
+        const targetEdge = graph.edges.find(e => e.id === plan.walls[targetWall].edge);
+        const segments: Segment[] = src.node != null && targetEdge
+            ? [[graphNode(graph, targetEdge.a)!, graphNode(graph, targetEdge.b)!]]
+            : edgesOf(plan.walls[targetWall].boundary);
+        if (dir) {
+            let best: { q: Point; t: number } | null = null;
+            for (const [a, b] of segments) {
+                const hit = raySegmentHit(srcPt, dir, a, b);
+                if (hit && (!best || Math.abs(hit.t) < Math.abs(best.t))) best = hit;
+            }
+            if (best) return { point: best.q, kind: 'intersection', guides: [[srcPt, best.q]] };
+        }
+        let bestQ = srcPt, bestD2 = Infinity;
+        for (const [a, b] of segments) {
+            const { q } = nearestPointOnSegment(srcPt, a, b);
+            const d2 = dist2(q, srcPt);
+            if (d2 < bestD2) { bestD2 = d2; bestQ = q; }
+        }
+        return { point: bestQ, kind: 'perpendicular', guides: [[srcPt, bestQ]] };
+    }
+
+    // Host for a door/window dropped at p: the nearest graph wall centerline under the
+    // pointer. A straight free-form wall is converted to a graph wall first (`graph`
+    // then differs from the plan's and `convert` is the wall to replace).
+    function openingTarget(p: Point, width: number): { graph: WallGraph; host: OpeningHost; convert?: number } | null {
+        const wi = pickWall(p);
+        const wall = plan.walls[wi];
+        if (!wall || wall.arc) return null;
+        let g = graph;
+        let convert: number | undefined;
+        if (wall.edge == null) {
+            const res = wallGraphFromPolygons([wall.boundary], 8, graph);
+            if (!res.converted.length) return null;
+            g = res.graph;
+            convert = wi;
+        }
+        let best: OpeningHost | null = null, bestD = Infinity;
+        for (const e of g.edges) {
+            if (convert == null && e.id !== wall.edge) continue;
+            const a = graphNode(g, e.a)!, b = graphNode(g, e.b)!;
+            const { q } = nearestPointOnSegment(p, a, b);
+            const d = dist(q, p);
+            if (d <= e.thickness / 2 + 8 && d < bestD) {
+                bestD = d;
+                best = { edge: e.id, offset: dist(a, q), width };
+            }
+        }
+        return best && openingFrame(g, best) ? { graph: g, host: best, convert } : null;
+    }
+
+    function placeOpening(kind: OpeningKind, p: Point) {
+        const width = kind === 'doors' ? openingOpts.doorWidth : openingOpts.windowWidth;
+        const target = openingTarget(p, width);
+        if (!target) return;
+        const opening: PlanOpening = kind === 'doors'
+            ? { boundary: [], host: target.host, hinge: openingOpts.hinge, swing: openingOpts.swing }
+            : { boundary: [], host: target.host };
+        const walls = target.convert != null ? plan.walls.filter((_, i) => i !== target.convert) : plan.walls;
+        commit(syncWallGraph({ ...plan, walls, [kind]: [...plan[kind], opening] }, target.graph), kind === 'doors' ? 'Add door' : 'Add window');
+    }
+
+    // Nearest wall edge or graph centerline within tol of p, for angle measurement
+    function pickEdge(p: Point, tol = hitTol()): Segment | null {
+        const candidates: Segment[] = wallGrid().nearbyEdges(p, tol).map(h => [h.poly[h.edge], h.poly[(h.edge + 1) % h.poly.length]]);
+        for (const e of graph.edges) candidates.push([graphNode(graph, e.a)!, graphNode(graph, e.b)!]);
+        let best: Segment | null = null, bestD = tol;
+        for (const [a, b] of candidates) {
+            const d = dist(nearestPointOnSegment(p, a, b).q, p);
+            if (d <= bestD) { bestD = d; best = [a, b]; }
+        }
+        return best;
+    }
+
+    // Door or window whose line passes within tol of p
+    function pickOpening(p: Point, tol = hitTol()): { kind: OpeningKind; index: number } | null {
+        let best: { kind: OpeningKind; index: number } | null = null, bestD = tol;
+        (['doors', 'windows'] as const).filter(pickable).forEach(kind => plan[kind].forEach((o, index) => {
+            for (let i = 0; i + 1 < o.boundary.length; i++) {
+                const d = dist(nearestPointOnSegment(p, o.boundary[i], o.boundary[i + 1]).q, p);
+                if (d <= bestD) { bestD = d; best = { kind, index }; }
+            }
+        }));
+        return best;
+    }
 
     // ---- Screen -> SVG coordinate conversion (GUARDED) ----
     function clientToSvgPoint(evt: React.MouseEvent | MouseEvent): Point {
@@ -56,6 +392,7 @@ export function WireframeEditor({
 
         const ctm = svg.getScreenCTM();
         if (!ctm) return { x: 0, y: 0 }; // prevents occasional null CTM crash
+        unitsPerPx.current = 1 / (Math.hypot(ctm.a, ctm.b) || 1);
 
         const pt = svg.createSVGPoint();
         const e = evt as MouseEvent;
@@ -66,83 +403,214 @@ export function WireframeEditor({
         return { x: sp.x, y: sp.y };
     }
 
-    function commit(next: ArchitecturalPlan) {
-        onChange(next);
+    // Record an edit as one labelled undo step
+    function commit(next: ArchitecturalPlan, label: string) {
+        onChange(next, { label });
     }
 
-    function handleMouseMove(e: React.MouseEvent) {
+    // Show one step of a gesture without recording it; the gesture's final commit records it
+    function preview(next: ArchitecturalPlan) {
+        onChange(next, { transient: true });
+    }
+
+    // A second finger turns the gesture into pinch-zoom/pan (handled by the image
+    // wrapper), so drop whatever the first finger started, undoing any live changes.
+    function abortGesture() {
+        if (drag?.moved) preview(dragOrigin.current);
+        setDrag(null);
+        updateSnapHint(null);
+    }
+
+    function handlePointerMove(e: React.PointerEvent) {
+        if (tool === 'move' || touches.current.size > 1) return;
+        coarsePointer.current = e.pointerType !== 'mouse';
         const p = clientToSvgPoint(e);
+        lastPointer.current = p;
 
         // Keep live draw preview updated
         if (drag?.kind === 'draw') {
+            const s = snapAt(p, { from: drag.startPt, shift: e.shiftKey });
+            setDrag({ ...drag, currPt: s.point });
+            updateSnapHint(s);
+        } else if (drag?.kind === 'region') {
             setDrag({ ...drag, currPt: p });
         }
 
         // Dragging a wall or a vertex
         if (drag) {
-            if (drag.kind === 'move-wall' && selection?.wall != null) {
-                const d = { x: p.x - drag.startPt.x, y: p.y - drag.startPt.y };
-                const moved = plan.walls.map((w, i) => {
-                    if (i !== selection.wall) return w;
-                    return { boundary: polygonTranslate(w.boundary, snap ? snapToGrid(d, 1) : d) };
-                });
-                commit({ ...plan, walls: moved });
-                setDrag({ ...drag, startPt: p });
+            if (drag.kind === 'move-selection') {
+                const raw = { x: p.x - drag.startPt.x, y: p.y - drag.startPt.y };
+                const d = snap ? snapToGrid(raw, 1) : raw;
+                if (d.x === 0 && d.y === 0 && !drag.moved) return;
+                // graph walls move by their nodes, dragging connected walls along. Every step
+                // starts again from the plan before the drag, so walls squeezed on the way
+                // don't lose their doors and windows.
+                preview(transformSelection(dragOrigin.current, sel, translation(d)));
+                if (!drag.moved) setDrag({ ...drag, moved: true });
+            } else if (drag.kind === 'move-node' && drag.node != null) {
+                const node = drag.node;
+                const origin = dragOrigin.current;
+                const edge = graph.edges.find(e => e.id === plan.walls[drag.startWall ?? -1]?.edge);
+                const other = edge && graphNode(graph, edge.a === node ? edge.b : edge.a);
+                const attached = new Set(
+                    plan.walls
+                        .map((w, i) => (graph.edges.some(e => e.id === w.edge && (e.a === node || e.b === node)) ? i : -1))
+                        .filter(i => i >= 0)
+                );
+                const s = snapAt(p, { from: other ? { x: other.x, y: other.y } : undefined, shift: e.shiftKey, exclude: attached, excludeNode: node });
+                updateSnapHint(s);
+                const g = moveGraphNode(origin.graph ?? emptyWallGraph(), node, s.point);
+                preview(syncWallGraph(origin, g));
+                if (!drag.moved) setDrag({ ...drag, moved: true });
             } else if (drag.kind === 'move-vertex' && selection?.wall != null && drag.vertex != null) {
-                const d = { x: p.x, y: p.y };
+                // angle/parallel constraints are taken from the far end of the longer adjacent edge
+                const poly = plan.walls[selection.wall].boundary;
+                const prev = poly[(drag.vertex - 1 + poly.length) % poly.length];
+                const next = poly[(drag.vertex + 1) % poly.length];
+                const from = dist2(prev, poly[drag.vertex]) > dist2(next, poly[drag.vertex]) ? prev : next;
+                const s = snapAt(p, { from, shift: e.shiftKey, exclude: new Set([selection.wall]) });
+                updateSnapHint(s);
                 const walls = plan.walls.map((w, i) => {
                     if (i !== selection.wall) return w;
                     const nb = w.boundary.slice();
-                    nb[drag.vertex!] = snap ? snapToGrid(d) : d;
-                    return { boundary: nb };
+                    nb[drag.vertex!] = s.point;
+                    return { ...w, boundary: nb };
                 });
-                commit({ ...plan, walls });
+                preview({ ...plan, walls });
+                if (!drag.moved) setDrag({ ...drag, moved: true });
             }
             return;
         }
 
         // Hover logic (only when not dragging)
-        const wallIndex = pickWall(plan.walls.map(w => w.boundary), p, 8);
+        const wallIndex = pickWall(p);
+        if (tool === 'draw') {
+            updateSnapHint(snapAt(p));
+        } else if (tool === 'arc') {
+            const last = arcDraft?.pts.length === 1 ? arcDraft.pts[0] : undefined;
+            const s = snapAt(p, { from: last, shift: e.shiftKey });
+            updateSnapHint(s);
+            if (arcDraft) setArcDraft({ ...arcDraft, cursor: s.point });
+        } else if (tool === 'measure') {
+            if (measure.mode === 'distance' || measure.mode === 'region') {
+                const last = measure.closed ? undefined : measure.pts[measure.pts.length - 1];
+                const s = snapAt(p, { from: last, shift: e.shiftKey });
+                updateSnapHint(s);
+                if (measure.pts.length && !measure.closed && !(measure.mode === 'distance' && measure.pts.length === 2)) {
+                    setMeasure({ ...measure, cursor: s.point });
+                }
+            }
+        } else if (tool === 'dimension') {
+            // the dimension line is placed freely; only the measured points snap
+            const s = dimDraft?.b ? { point: p, kind: null, guides: [] } : snapAt(p, { from: dimDraft?.a, shift: e.shiftKey });
+            updateSnapHint(s);
+            if (dimDraft) setDimDraft({ ...dimDraft, cursor: s.point });
+        } else if (tool === 'furniture') {
+            const s = snapAt(p);
+            updateSnapHint(s);
+            setFurniturePreview(s.point);
+        } else if (tool === 'door' || tool === 'window') {
+            const target = openingTarget(p, tool === 'door' ? openingOpts.doorWidth : openingOpts.windowWidth);
+            const f = target && openingFrame(target.graph, target.host);
+            setOpeningPreview(f ? { a: f.a, b: f.b, thickness: f.thickness } : null);
+        } else if (tool === 'calibrate') {
+            const s = snapAt(p);
+            updateSnapHint(s);
+            if (calib && !calib.b) setCalib({ ...calib, cursor: s.point });
+        } else if (tool === 'extend' && extendStart && wallIndex >= 0 && wallIndex !== extendStart.wall) {
+            updateSnapHint(extendTarget(extendStart, wallIndex));
+        } else {
+            updateSnapHint(null);
+        }
         if (wallIndex >= 0) {
-            if (tool === 'stretch') {
-                const v = pickVertex(plan.walls[wallIndex].boundary, p, 8);
-                setHover({ wall: wallIndex, vertex: v >= 0 ? v : undefined });
+            if (tool === 'stretch' && plan.walls[wallIndex].edge != null) {
+                const n = pickWallNode(wallIndex, p);
+                updateHover({ wall: wallIndex, node: n >= 0 ? n : undefined });
+            } else if (tool === 'stretch' && !plan.walls[wallIndex].arc) {
+                const v = pickVertex(wallIndex, p);
+                updateHover({ wall: wallIndex, vertex: v >= 0 ? v : undefined });
             } else {
-                setHover({ wall: wallIndex });
+                updateHover({ wall: wallIndex });
             }
         } else {
-            setHover(null);
+            updateHover(null);
         }
     }
 
-    function handleMouseDown(e: React.MouseEvent) {
+    function handlePointerDown(e: React.PointerEvent) {
+        if (e.pointerType === 'touch') {
+            touches.current.add(e.pointerId);
+            if (touches.current.size > 1) return abortGesture();
+        }
+        // the pan tool leaves the pointer to the image wrapper
+        if (tool === 'move' || (e.pointerType === 'mouse' && e.button !== 0)) return;
+        coarsePointer.current = e.pointerType !== 'mouse';
+        // keep receiving moves when a drag leaves the overlay
+        svgRef.current?.setPointerCapture(e.pointerId);
+        dragOrigin.current = plan;
         const p = clientToSvgPoint(e);
 
         if (tool === 'select') {
-            const wi = pickWall(plan.walls.map(w => w.boundary), p, 8);
-            if (wi >= 0) {
-                setSelection({ wall: wi });
-                setDrag({ kind: 'move-wall', startPt: p, startWall: wi });
+            const opening = pickOpening(p);
+            const wi = opening ? -1 : pickWall(p);
+            const si = opening || wi >= 0 ? -1 : pickPlacedSymbol(p);
+            const hit: { kind: SelectionKind; index: number } | null =
+                opening ?? (wi >= 0 ? { kind: 'walls', index: wi } : si >= 0 ? { kind: 'symbols', index: si } : null);
+            if (!hit) {
+                // empty space starts a marquee
+                if (!e.shiftKey) setPicked(emptySelection);
+                setDrag({ kind: 'region', startPt: p, currPt: p });
+            } else if (e.shiftKey) {
+                setPicked(toggleSelected(sel, hit.kind, hit.index));
             } else {
-                setSelection(null);
+                if (!sel[hit.kind].includes(hit.index)) setPicked({ ...emptySelection, [hit.kind]: [hit.index] });
+                setDrag({ kind: 'move-selection', startPt: p });
             }
             return;
         }
 
         if (tool === 'delete') {
-            const wi = pickWall(plan.walls.map(w => w.boundary), p, 8);
+            const dims = plan.dimensionLines ?? [];
+            const di = pickable('dimensions') ? dims.findIndex(d => dimensionDistance(d, p) <= hitTol()) : -1;
+            if (di >= 0) {
+                commit({ ...plan, dimensionLines: dims.filter((_, i) => i !== di) }, 'Delete dimension');
+                return;
+            }
+            const hit = pickOpening(p);
+            if (hit) {
+                // removing a hosted opening closes the gap it cut in its wall
+                const rest = { ...plan, [hit.kind]: plan[hit.kind].filter((_, i) => i !== hit.index) };
+                commit(plan[hit.kind][hit.index].host ? syncWallGraph(rest, graph) : rest, hit.kind === 'doors' ? 'Delete door' : 'Delete window');
+                return;
+            }
+            const wi = pickWall(p);
             if (wi >= 0) {
-                const walls = plan.walls.slice();
-                walls.splice(wi, 1);
-                commit({ ...plan, walls });
+                const edge = plan.walls[wi].edge;
+                if (edge != null) {
+                    commit(removeWallEdge(plan, edge), 'Delete wall');
+                } else {
+                    const walls = plan.walls.slice();
+                    walls.splice(wi, 1);
+                    commit({ ...plan, walls }, 'Delete wall');
+                }
+                return;
             }
+            const si = pickPlacedSymbol(p);
+            if (si >= 0) commit({ ...plan, symbols: symbols.filter((_, i) => i !== si) }, 'Delete furniture');
             return;
         }
 
         if (tool === 'stretch') {
-            const wi = pickWall(plan.walls.map(w => w.boundary), p, 8);
-            if (wi >= 0) {
-                const vi = pickVertex(plan.walls[wi].boundary, p, 8);
+            const wi = pickWall(p);
+            if (wi >= 0 && plan.walls[wi].edge != null) {
+                // graph walls stretch by their nodes so every connected wall follows
+                const ni = pickWallNode(wi, p);
+                if (ni >= 0) {
+                    setSelection({ wall: wi, node: ni });
+                    setDrag({ kind: 'move-node', startPt: p, startWall: wi, node: ni });
+                }
+            } else if (wi >= 0 && !plan.walls[wi].arc) {
+                const vi = pickVertex(wi, p);
                 if (vi >= 0) {
                     setSelection({ wall: wi, vertex: vi });
                     setDrag({ kind: 'move-vertex', startPt: p, startWall: wi, vertex: vi });
@@ -152,99 +620,423 @@ export function WireframeEditor({
         }
 
         if (tool === 'draw') {
-            setDrag({ kind: 'draw', startPt: p, currPt: p });
+            const start = snapAt(p).point;
+            setDrag({ kind: 'draw', startPt: start, currPt: start });
+            return;
+        }
+
+        if (tool === 'door' || tool === 'window') {
+            placeOpening(tool === 'door' ? 'doors' : 'windows', p);
+            return;
+        }
+
+        if (tool === 'furniture') {
+            const at = snapAt(p).point;
+            commit({ ...plan, symbols: [...symbols, { symbol: furnitureOpts.symbol, at, rotation: furnitureOpts.rotation, scale: unitsPerMetre(plan) }] }, 'Add furniture');
+            return;
+        }
+
+        if (tool === 'measure') {
+            const m = measure;
+            if (m.mode === 'distance') {
+                const at = snapAt(p, { from: m.pts.length === 1 ? m.pts[0] : undefined, shift: e.shiftKey }).point;
+                setMeasure(m.pts.length === 1 ? { ...m, pts: [m.pts[0], at], cursor: undefined } : { ...m, pts: [at], cursor: at });
+            } else if (m.mode === 'angle') {
+                const edge = pickEdge(p);
+                if (edge) setMeasure({ ...m, edges: m.edges.length === 1 ? [m.edges[0], edge] : [edge] });
+            } else if (m.mode === 'area') {
+                // rooms first (topmost), then walls
+                const room = [...plan.rooms].reverse().find(r => pointInShape(p, r));
+                const wi = room ? -1 : pickWall(p);
+                const shape = room ?? (wi >= 0 ? plan.walls[wi] : undefined);
+                setMeasure({ ...m, shape: shape && { boundary: shape.boundary, holes: shape.holes } });
+            } else {
+                const at = snapAt(p, { from: m.closed ? undefined : m.pts[m.pts.length - 1], shift: e.shiftKey }).point;
+                if (m.closed) setMeasure({ ...m, pts: [at], cursor: at, closed: false });
+                else if (m.pts.length >= 3 && dist(at, m.pts[0]) <= hitTol()) setMeasure({ ...m, closed: true, cursor: undefined });
+                else setMeasure({ ...m, pts: [...m.pts, at], cursor: at });
+            }
+            return;
+        }
+
+        if (tool === 'dimension') {
+            if (!dimDraft || !dimDraft.a) {
+                setDimDraft({ a: snapAt(p).point });
+            } else if (!dimDraft.b) {
+                const b = snapAt(p, { from: dimDraft.a, shift: e.shiftKey }).point;
+                if (dist(dimDraft.a, b) > 1) setDimDraft({ a: dimDraft.a, b, cursor: p });
+            } else {
+                const dim: PlanDimension = { a: dimDraft.a, b: dimDraft.b, offset: dimensionOffsetThrough(dimDraft.a, dimDraft.b, p) };
+                commit({ ...plan, dimensionLines: [...(plan.dimensionLines ?? []), dim] }, 'Add dimension');
+                setDimDraft(null);
+            }
+            return;
+        }
+
+        if (tool === 'room') {
+            if (!pickable('rooms')) {
+                setRoomHint('The rooms layer is hidden or locked.');
+                return;
+            }
+            // topmost existing room wins; otherwise a new room fills the enclosed space
+            for (let i = plan.rooms.length - 1; i >= 0; i--) {
+                if (pointInShape(p, plan.rooms[i])) {
+                    setRoomEdit(i);
+                    setRoomHint(null);
+                    return;
+                }
+            }
+            const space = enclosedSpaceAt(plan, p);
+            if (!space) {
+                setRoomEdit(null);
+                setRoomHint('Click inside an area fully enclosed by walls, doors or windows.');
+                return;
+            }
+            const type = roomTypes[0] ?? '';
+            const room = { name: type, type, boundary: space.boundary, ...(space.holes?.length ? { holes: space.holes } : {}) };
+            commit({ ...plan, rooms: [...plan.rooms, room] }, 'Add room');
+            setRoomEdit(plan.rooms.length);
+            setRoomHint(null);
+            return;
+        }
+
+        if (tool === 'arc') {
+            const pts = arcDraft?.pts ?? [];
+            const at = snapAt(p, { from: pts.length === 1 ? pts[0] : undefined, shift: e.shiftKey }).point;
+            if (pts.length && dist(pts[pts.length - 1], at) < 1) return;
+            if (pts.length < 2) {
+                setArcDraft({ pts: [...pts, at], cursor: at });
+                return;
+            }
+            const arc = arcThroughPoints(pts[0], at, pts[1]);
+            if (arc) {
+                commit({ ...plan, walls: [...plan.walls, arcWall({ ...arc, thickness: wallThickness })] }, 'Draw arc wall');
+            } else {
+                // a straight "arc" is just a wall
+                const g = addGraphWall(graph, pts[0], pts[1], wallThickness, 8);
+                if (g !== graph) commit(syncWallGraph(plan, g), 'Draw wall');
+            }
+            setArcDraft(null);
+            return;
+        }
+
+        if (tool === 'merge' || tool === 'cut') {
+            setDrag({ kind: 'region', startPt: p, currPt: p });
+            return;
+        }
+
+        if (tool === 'calibrate') {
+            const at = snapAt(p).point;
+            if (!calib || calib.b) setCalib({ a: at, text: '', units: plan.scale?.units ?? 'mm' });
+            else if (dist(calib.a, at) > 1) setCalib({ ...calib, b: at, cursor: undefined });
             return;
         }
 
         if (tool === 'extend') {
             if (!extendStart) {
-                const wi = pickWall(plan.walls.map(w => w.boundary), p, 8);
-                if (wi >= 0) {
-                    const vi = pickVertex(plan.walls[wi].boundary, p, 8);
+                const wi = pickWall(p);
+                if (wi >= 0 && plan.walls[wi].edge != null) {
+                    const ni = pickWallNode(wi, p);
+                    if (ni >= 0) setExtendStart({ wall: wi, vertex: -1, node: ni });
+                } else if (wi >= 0 && !plan.walls[wi].arc) {
+                    const vi = pickVertex(wi, p);
                     if (vi >= 0) setExtendStart({ wall: wi, vertex: vi });
                 }
             } else {
                 // second click: target edge on another wall
-                const targetWall = pickWall(plan.walls.map(w => w.boundary), p, 8);
-                if (targetWall >= 0) {
-                    const src = extendStart;
-                    const srcPt = plan.walls[src.wall].boundary[src.vertex];
-
-                    // find closest edge on target wall
-                    const edges = edgesOf(plan.walls[targetWall].boundary);
-                    let bestEdgeIdx = 0,
-                        bestD = Infinity,
-                        bestQ: Point = p;
-                    for (let i = 0; i < edges.length; i++) {
-                        const [a, b] = edges[i];
-                        const { q } = nearestPointOnSegment(srcPt, a, b);
-                        const d2 = (q.x - srcPt.x) ** 2 + (q.y - srcPt.y) ** 2;
-                        if (d2 < bestD) {
-                            bestD = d2;
-                            bestEdgeIdx = i;
-                            bestQ = q;
+                const targetWall = pickWall(p);
+                const src = extendStart;
+                if (targetWall >= 0 && targetWall !== src.wall) {
+                    const target = extendTarget(src, targetWall).point;
+                    if (src.node != null) {
+                        let g = moveGraphNode(graph, src.node, target);
+                        const targetEdge = graph.edges.find(e => e.id === plan.walls[targetWall].edge);
+                        if (targetEdge && targetEdge.a !== src.node && targetEdge.b !== src.node) {
+                            // landing on another graph wall's centerline forms a T junction
+                            const end = [targetEdge.a, targetEdge.b].find(id => dist2(graphNode(g, id)!, target) < 1e-6);
+                            if (end != null) {
+                                g = mergeGraphNodes(g, end, src.node);
+                            } else {
+                                const split = splitGraphEdge(g, targetEdge.id, target);
+                                g = mergeGraphNodes(split.graph, split.node, src.node);
+                            }
                         }
+                        commit(syncWallGraph(plan, g), 'Extend wall');
+                    } else {
+                        const walls = plan.walls.map((w, wi) => {
+                            if (wi !== src.wall) return w;
+                            const nb = w.boundary.slice();
+                            nb[src.vertex] = target;
+                            return { ...w, boundary: nb };
+                        });
+                        commit({ ...plan, walls }, 'Extend wall');
                     }
-
-                    // project vertex to that edge point
-                    const walls = plan.walls.map((w, wi) => {
-                        if (wi !== src.wall) return w;
-                        const nb = w.boundary.slice();
-                        nb[src.vertex] = snap ? snapToGrid(bestQ) : bestQ;
-                        return { boundary: nb };
-                    });
-                    commit({ ...plan, walls });
                 }
                 setExtendStart(null);
             }
         }
     }
 
-    function handleMouseUp(e: React.MouseEvent) {
+    function handlePointerUp(e: React.PointerEvent) {
+        const pinching = touches.current.size > 1;
+        touches.current.delete(e.pointerId);
+        if (tool === 'move' || pinching) return;
         const p = clientToSvgPoint(e);
 
         if (drag?.kind === 'draw') {
+            // drawn walls join the wall graph, connecting to nearby nodes and crossed walls
+            const end = drag.currPt ?? p;
+            const g = addGraphWall(graph, drag.startPt, end, wallThickness, 8);
+            if (g !== graph) commit(syncWallGraph(plan, g), 'Draw wall');
+        } else if (drag?.kind === 'region' && tool === 'select') {
+            const found = pickableOnly(selectInRect(plan, drag.startPt, drag.currPt ?? p));
+            setPicked(e.shiftKey ? mergeSelections(sel, found) : found);
+        } else if (drag?.kind === 'region') {
             const end = drag.currPt ?? p;
-            const rect = createWallRectangle(drag.startPt, end, wallThickness);
-            const walls = plan.walls.concat([{ boundary: rect }]);
-            commit({ ...plan, walls });
+            if (Math.abs(end.x - drag.startPt.x) > 1 && Math.abs(end.y - drag.startPt.y) > 1) {
+                const next = tool === 'merge'
+                    ? mergeWallsInRegion(plan, drag.startPt, end)
+                    : cutWallsWithRect(plan, drag.startPt, end);
+                if (next !== plan) {
+                    setSelection(null);
+                    commit(next, tool === 'merge' ? 'Merge walls' : 'Cut walls');
+                }
+            }
+        } else if (drag?.moved) {
+            // close the gesture: the whole drag becomes a single history step
+            commit(plan, drag.kind === 'move-selection' ? 'Move selection' : drag.kind === 'move-node' ? 'Move wall end' : 'Move wall corner');
         }
 
         setDrag(null);
+        updateSnapHint(null);
+    }
+
+    function applyCalibration() {
+        if (!calib?.b) return;
+        const meters = parseLength(calib.text, calib.units);
+        const scale = meters != null ? calibrateScale(dist(calib.a, calib.b), meters, calib.units) : null;
+        if (!scale) {
+            setCalib({ ...calib, error: 'Enter a distance such as 3.5 m, 3500 mm or 12\' 6"' });
+            return;
+        }
+        commit({ ...plan, scale }, 'Calibrate scale');
+        setCalib(null);
+        setTool('select');
+    }
+
+    // ---- Group operations on the current selection; each is one undo step ----
+
+    function transformPicked(kind: 'rotate' | 'mirror-x' | 'mirror-y') {
+        if (!selectionSize(sel)) return;
+        const centre = selectionCentre(plan, sel);
+        const t = kind === 'rotate' ? rotation(centre, (rotateBy * Math.PI) / 180) : mirror(centre, kind === 'mirror-x' ? 'x' : 'y');
+        commit(transformSelection(plan, sel, t), kind === 'rotate' ? 'Rotate selection' : 'Mirror selection');
+    }
+
+    function pasteAt(fragment: PlanFragment, at: Point, label = 'Paste') {
+        const res = pasteFragment(plan, fragment, at);
+        commit(res.plan, label);
+        setTool('select');
+        setPicked(res.selection);
     }
 
-    // keyboard shortcuts
+    function copyPicked() {
+        if (!selectionSize(sel)) return;
+        const fragment = copySelection(plan, sel);
+        localClipboard = fragment;
+        navigator.clipboard?.writeText(JSON.stringify(fragment)).catch(() => { /* keep the local copy */ });
+    }
+
+    function pasteClipboard() {
+        const at = lastPointer.current ?? { x: plan.dimensions.width / 2, y: plan.dimensions.height / 2 };
+        const fallback = () => { if (localClipboard) pasteAt(localClipboard, at); };
+        if (!navigator.clipboard?.readText) return fallback();
+        navigator.clipboard.readText().then(
+            text => {
+                const fragment = parseFragment(text);
+                if (fragment) pasteAt(fragment, at);
+                else fallback();
+            },
+            fallback
+        );
+    }
+
+    function duplicatePicked() {
+        if (!selectionSize(sel)) return;
+        const offset = Math.max(plan.dimensions.width, plan.dimensions.height) / 50;
+        pasteAt(copySelection(plan, sel), add(selectionCentre(plan, sel), { x: offset, y: offset }), 'Duplicate');
+    }
+
+    function deletePicked() {
+        if (!selectionSize(sel)) return;
+        commit(deleteSelection(plan, sel), 'Delete selection');
+        setPicked(emptySelection);
+    }
+
+    // the keyboard handler is registered once, so it reaches current state through this ref
+    const groupActions = useRef({ copyPicked, pasteClipboard, duplicatePicked, deletePicked, selectAll: () => {}, hasSelection: false });
+    groupActions.current = {
+        copyPicked,
+        pasteClipboard,
+        duplicatePicked,
+        deletePicked,
+        selectAll: () => {
+            setTool('select');
+            setPicked(pickableOnly(selectInRect(plan, { x: -Infinity, y: -Infinity }, { x: Infinity, y: Infinity })));
+        },
+        hasSelection: tool === 'select' && selectionSize(sel) > 0,
+    };
+
     useEffect(() => {
+        if (tool !== 'select') setPicked(emptySelection);
+    }, [tool]);
+
+    function measureReadout(): string {
+        const m = measure;
+        if (m.mode === 'distance') {
+            const a = m.pts[0], b = m.pts[1] ?? m.cursor;
+            if (!a || !b) return 'Click two points.';
+            const angle = (Math.atan2(-(b.y - a.y), b.x - a.x) * 180) / Math.PI;
+            return `${formatLength(dist(a, b), plan.scale)}  (ΔX ${formatLength(Math.abs(b.x - a.x), plan.scale)}, ΔY ${formatLength(Math.abs(b.y - a.y), plan.scale)}, ${angle.toFixed(1)}°)`;
+        }
+        if (m.mode === 'angle') {
+            if (m.edges.length < 2) return m.edges.length ? 'Click the second edge.' : 'Click two wall edges.';
+            const theta = angleBetweenSegments(m.edges[0], m.edges[1]);
+            return `${theta.toFixed(1)}°  (${(180 - theta).toFixed(1)}°)`;
+        }
+        const shape: Shape | undefined = m.mode === 'area'
+            ? m.shape
+            : m.pts.length >= 3 || (m.pts.length >= 2 && m.cursor) ? { boundary: m.closed || !m.cursor ? m.pts : [...m.pts, m.cursor] } : undefined;
+        if (!shape) return m.mode === 'area' ? 'Click a room or wall.' : 'Click the corners; click the first point to close.';
+        const area = m.mode === 'area' ? shapeArea(shape) : polygonArea(shape.boundary);
+        const perimeter = [shape.boundary, ...(shape.holes ?? [])].reduce((t, r) => t + polygonPerimeter(r), 0);
+        return `Area ${formatArea(area, plan.scale)} · Perimeter ${formatLength(perimeter, plan.scale)}`;
+    }
+
+    const slider = plan.scale ? thicknessSlider(plan.scale) : null;
+
+    // Each layer is one <g>, so it survives as a group when the overlay is exported.
+    // `color` feeds currentColor in the layer's CSS.
+    const layerProps = (id: LayerId) => ({
+        className: 'wf-layer',
+        id: `layer-${id}`,
+        'data-layer': id,
+        color: layers[id].color,
+        display: layers[id].visible ? undefined : 'none',
+    });
+
+    // keyboard shortcuts, only while the editor has focus so select-all, copy and paste
+    // elsewhere on the page keep their usual meaning
+    useEffect(() => {
+        const root = rootRef.current;
+        if (!root) return;
         const onKey = (e: KeyboardEvent) => {
+            if (isEditable(e.target)) return;
+
+            const actions = groupActions.current;
+            if (e.ctrlKey || e.metaKey) {
+                const key = e.key.toLowerCase();
+                if (key === 'c') {
+                    actions.copyPicked();
+                } else if (key === 'v') {
+                    actions.pasteClipboard();
+                } else if (key === 'd') {
+                    e.preventDefault();
+                    actions.duplicatePicked();
+                } else if (key === 'a') {
+                    e.preventDefault();
+                    actions.selectAll();
+                } else if (key === 'z' && !e.shiftKey) {
+                    e.preventDefault();
+                    onUndo?.();
+                } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                    e.preventDefault();
+                    onRedo?.();
+                }
+                return;
+            }
+
+            if ((e.key === 'Delete' || e.key === 'Backspace') && actions.hasSelection) {
+                actions.deletePicked();
+                return;
+            }
+            if (e.key === 'Escape') {
+                setPicked(emptySelection);
+                setCalib(null);
+                setExtendStart(null);
+                setArcDraft(null);
+                setDimDraft(null);
+                setRoomEdit(null);
+                setMeasure(m => ({ mode: m.mode, pts: [], edges: [] }));
+            }
             if (e.key === 'v' || e.key === 'V') setTool('select');
             if (e.key === 'd' || e.key === 'D') setTool('draw');
+            if (e.key === 'a' || e.key === 'A') setTool('arc');
             if (e.key === 'x' || e.key === 'X' || e.key === 'Delete') setTool('delete');
             if (e.key === 's' || e.key === 'S') setTool('stretch');
-            if (e.key === 'm' || e.key === 'M') setTool('move');     // reserved if you add a pure move mode later
+            if (e.key === 'r' || e.key === 'R') setTool('room');
+            if (e.key === 'f' || e.key === 'F') setTool('furniture');
+            if (e.key === 'm' || e.key === 'M') setTool('move');     // pan the view
             if (e.key === 't' || e.key === 'T') setTool('extend');
         };
-        window.addEventListener('keydown', onKey);
-        return () => window.removeEventListener('keydown', onKey);
-    }, []);
+        root.addEventListener('keydown', onKey);
+        return () => root.removeEventListener('keydown', onKey);
+    }, [onUndo, onRedo]);
 
     return (
         <div
+            ref={rootRef}
             className="wf-editor"
+            tabIndex={-1}
             style={{
                 position: 'absolute',
                 width: `${size.width}px`,
                 height: `${size.height}px`,
                 pointerEvents: 'auto'
             }}
+            // keep the surrounding image pan from grabbing editor gestures, except on the
+            // plan itself with the pan tool
+            onPointerDown={(e) => {
+                if (!(tool === 'move' && svgRef.current?.contains(e.target as Node))) e.stopPropagation();
+                // clicking the plan or toolbar gives the editor keyboard focus
+                if (!isEditable(e.target)) rootRef.current?.focus({ preventScroll: true });
+            }}
         >
             {/* Toolbar */}
             <div className="wf-toolbar">
                 <button className={`wf-btn ${tool === 'select' ? 'active' : ''}`} onClick={() => setTool('select')} title="Select/Move (V)">
                     Select
                 </button>
+                <button className={`wf-btn ${tool === 'move' ? 'active' : ''}`} onClick={() => setTool('move')} title="Pan the view (M); two fingers pan and pinch-zoom in any tool">
+                    Pan
+                </button>
                 <button className={`wf-btn ${tool === 'draw' ? 'active' : ''}`} onClick={() => setTool('draw')} title="Draw Wall (D)">
                     Draw
                 </button>
+                <button className={`wf-btn ${tool === 'arc' ? 'active' : ''}`} onClick={() => { setTool('arc'); setArcDraft(null); }} title="Arc Wall: click start, end, then a point on the curve (A)">
+                    Arc
+                </button>
+                <button className={`wf-btn ${tool === 'door' ? 'active' : ''}`} onClick={() => setTool('door')} title="Place Door on a wall">
+                    Door
+                </button>
+                <button className={`wf-btn ${tool === 'window' ? 'active' : ''}`} onClick={() => setTool('window')} title="Place Window on a wall">
+                    Window
+                </button>
+                <button className={`wf-btn ${tool === 'room' ? 'active' : ''}`} onClick={() => { setTool('room'); setRoomEdit(null); setRoomHint(null); }} title="Room: click inside an area to add or edit a room (R)">
+                    Room
+                </button>
+                <button className={`wf-btn ${tool === 'furniture' ? 'active' : ''}`} onClick={() => setTool('furniture')} title="Furniture: place beds, sofas, tables and fixtures (F)">
+                    Furniture
+                </button>
+                <button className={`wf-btn ${tool === 'dimension' ? 'active' : ''}`} onClick={() => { setTool('dimension'); setDimDraft(null); }} title="Dimension: click two points, then where the dimension line goes">
+                    Dimension
+                </button>
+                <button className="wf-btn" onClick={() => commit(autoDimension(plan), 'Auto-dimension')} title="Add overall and wall-segment dimensions around the plan (replaces earlier auto dimensions)">
+                    Auto-dim
+                </button>
+                <button className={`wf-btn ${tool === 'measure' ? 'active' : ''}`} onClick={() => { setTool('measure'); resetMeasure(); }} title="Measure distances, angles and areas (does not change the plan)">
+                    Measure
+                </button>
                 <button className={`wf-btn ${tool === 'stretch' ? 'active' : ''}`} onClick={() => setTool('stretch')} title="Stretch Vertex (S)">
                     Stretch
                 </button>
@@ -254,23 +1046,273 @@ export function WireframeEditor({
                 <button className={`wf-btn ${tool === 'delete' ? 'active' : ''}`} onClick={() => setTool('delete')} title="Delete Wall (Del/X)">
                     Delete
                 </button>
+                <button className="wf-btn" onClick={() => commit(connectPlanWalls(plan), 'Join walls')} title="Convert straight walls to connected centerline walls">
+                    Join
+                </button>
+                <button className={`wf-btn ${tool === 'merge' ? 'active' : ''}`} onClick={() => setTool('merge')} title="Merge walls: drag a box over overlapping walls">
+                    Merge
+                </button>
+                <button className={`wf-btn ${tool === 'cut' ? 'active' : ''}`} onClick={() => setTool('cut')} title="Cut opening: drag a box to subtract from walls">
+                    Cut
+                </button>
+                <div className="wf-sep" />
+                <button className="wf-btn" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                    Undo
+                </button>
+                <button className="wf-btn" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                    Redo
+                </button>
                 <div className="wf-sep" />
                 <label className="wf-label">
                     Thickness
-                    <input
-                        type="range"
-                        min={4}
-                        max={100}
-                        value={wallThickness}
-                        onChange={(e) => setWallThickness(parseInt(e.target.value, 10))}
-                    />
-                    <span className="wf-val">{wallThickness}</span>
+                    {slider ? (
+                        <input
+                            type="range"
+                            min={slider.min}
+                            max={slider.max}
+                            step={slider.step}
+                            value={Math.round(slider.toSlider(wallThickness) / slider.step) * slider.step}
+                            onChange={(e) => setWallThickness(slider.fromSlider(parseFloat(e.target.value)))}
+                        />
+                    ) : (
+                        <input
+                            type="range"
+                            min={4}
+                            max={100}
+                            value={wallThickness}
+                            onChange={(e) => setWallThickness(parseInt(e.target.value, 10))}
+                        />
+                    )}
+                    <span className="wf-val">{formatLength(wallThickness, plan.scale)}</span>
                 </label>
                 <label className="wf-label">
                     <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} /> Snap
                 </label>
+                <div className="wf-sep" />
+                <button className={`wf-btn ${tool === 'calibrate' ? 'active' : ''}`} onClick={() => { setTool('calibrate'); setCalib(null); }} title="Calibrate scale: pick two points and enter their real distance">
+                    Calibrate
+                </button>
+                {plan.scale && (
+                    <select
+                        value={plan.scale.units}
+                        onChange={(e) => commit({ ...plan, scale: { ...plan.scale!, units: e.target.value as UnitSystem } }, 'Change units')}
+                        title="Display units"
+                    >
+                        {(Object.keys(unitLabels) as UnitSystem[]).map(u => <option key={u} value={u}>{unitLabels[u]}</option>)}
+                    </select>
+                )}
+                <label className="wf-label" title="Angle step while holding Shift">
+                    Shift
+                    <select value={angleStep} onChange={(e) => setAngleStep(parseInt(e.target.value, 10))}>
+                        <option value={15}>15°</option>
+                        <option value={45}>45°</option>
+                        <option value={90}>90°</option>
+                    </select>
+                </label>
             </div>
 
+            {/* Selection actions */}
+            {tool === 'select' && selectionSize(sel) > 0 && (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <span>{selectionSize(sel)} selected</span>
+                        <label className="wf-label">
+                            <input
+                                type="number"
+                                className="wf-number"
+                                value={rotateBy}
+                                step={15}
+                                onChange={(e) => setRotateBy(parseFloat(e.target.value) || 0)}
+                            />
+                            °
+                        </label>
+                        <button className="wf-btn" onClick={() => transformPicked('rotate')} title="Rotate clockwise about the selection centre">Rotate</button>
+                        <button className="wf-btn" onClick={() => transformPicked('mirror-x')} title="Mirror left/right">Mirror ↔</button>
+                        <button className="wf-btn" onClick={() => transformPicked('mirror-y')} title="Mirror up/down">Mirror ↕</button>
+                        {sel.symbols.length > 0 && symbols[sel.symbols[0]] && (
+                            <label className="wf-label" title="Furniture size, 100% is real size">
+                                Size
+                                <input
+                                    type="number"
+                                    className="wf-number"
+                                    value={Math.round((symbols[sel.symbols[0]].scale / unitsPerMetre(plan)) * 100)}
+                                    step={10}
+                                    min={10}
+                                    onChange={(e) => {
+                                        const scale = ((parseFloat(e.target.value) || 100) / 100) * unitsPerMetre(plan);
+                                        preview({ ...plan, symbols: symbols.map((sym, i) => (sel.symbols.includes(i) ? { ...sym, scale } : sym)) });
+                                    }}
+                                    onBlur={() => commit(plan, 'Resize furniture')}
+                                />
+                                %
+                            </label>
+                        )}
+                        <button className="wf-btn" onClick={duplicatePicked} title="Duplicate (Ctrl+D)">Duplicate</button>
+                        <button className="wf-btn" onClick={copyPicked} title="Copy (Ctrl+C); paste with Ctrl+V">Copy</button>
+                        <button className="wf-btn" onClick={deletePicked} title="Delete (Del)">Delete</button>
+                    </div>
+                </div>
+            )}
+            {tool === 'select' && selectionSize(sel) > 0 && (
+                <InspectorPanel plan={plan} selection={sel} onChange={commit} />
+            )}
+
+            {/* Measure mode and readout */}
+            {tool === 'measure' && (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <select value={measure.mode} onChange={(e) => resetMeasure(e.target.value as MeasureMode)}>
+                            {(Object.keys(measureModes) as MeasureMode[]).map(m => <option key={m} value={m}>{measureModes[m]}</option>)}
+                        </select>
+                        <span className="wf-readout">{measureReadout()}</span>
+                    </div>
+                </div>
+            )}
+
+            {/* Furniture options */}
+            {tool === 'furniture' && (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <select value={furnitureOpts.symbol} onChange={(e) => setFurnitureOpts({ ...furnitureOpts, symbol: e.target.value })}>
+                            {symbolLibrary.map(def => <option key={def.id} value={def.id}>{def.name}</option>)}
+                        </select>
+                        <label className="wf-label">
+                            <input
+                                type="number"
+                                className="wf-number"
+                                value={furnitureOpts.rotation}
+                                step={90}
+                                onChange={(e) => setFurnitureOpts({ ...furnitureOpts, rotation: parseFloat(e.target.value) || 0 })}
+                            />
+                            °
+                        </label>
+                        <button className="wf-btn" onClick={() => setFurnitureOpts({ ...furnitureOpts, rotation: (furnitureOpts.rotation + 90) % 360 })} title="Turn 90° clockwise">
+                            Turn
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Door/window options */}
+            {(tool === 'door' || tool === 'window') && (
+                <div className="wf-panel">
+                    <div className="wf-form">
+                        <label className="wf-label">
+                            Width
+                            <input
+                                type="range"
+                                min={plan.scale ? 0.4 / plan.scale.metersPerUnit : 10}
+                                max={plan.scale ? 3 / plan.scale.metersPerUnit : 200}
+                                step="any"
+                                value={tool === 'door' ? openingOpts.doorWidth : openingOpts.windowWidth}
+                                onChange={(e) => {
+                                    const v = parseFloat(e.target.value);
+                                    setOpeningOpts(o => (tool === 'door' ? { ...o, doorWidth: v } : { ...o, windowWidth: v }));
+                                }}
+                            />
+                            <span className="wf-val">{formatLength(tool === 'door' ? openingOpts.doorWidth : openingOpts.windowWidth, plan.scale)}</span>
+                        </label>
+                        {tool === 'door' && (
+                            <>
+                                <label className="wf-label">
+                                    Hinge
+                                    <select value={openingOpts.hinge} onChange={(e) => setOpeningOpts(o => ({ ...o, hinge: e.target.value as 'a' | 'b' }))}>
+                                        <option value="a">Start</option>
+                                        <option value="b">End</option>
+                                    </select>
+                                </label>
+                                <label className="wf-label">
+                                    Swing
+                                    <select value={openingOpts.swing} onChange={(e) => setOpeningOpts(o => ({ ...o, swing: e.target.value as 'left' | 'right' }))}>
+                                        <option value="left">Left</option>
+                                        <option value="right">Right</option>
+                                    </select>
+                                </label>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Room name/type editing */}
+            {tool === 'room' && (
+                <div className="wf-panel">
+                    {roomEdit != null && plan.rooms[roomEdit] ? (
+                        <div className="wf-form">
+                            <input
+                                autoFocus
+                                type="text"
+                                value={plan.rooms[roomEdit].name}
+                                placeholder="Room name"
+                                // typing is one gesture: live transient updates, recorded once on blur
+                                onChange={(e) => {
+                                    renaming.current = true;
+                                    preview({ ...plan, rooms: plan.rooms.map((r, i) => (i === roomEdit ? { ...r, name: e.target.value } : r)) });
+                                }}
+                                onBlur={() => {
+                                    if (renaming.current) commit(plan, 'Rename room');
+                                    renaming.current = false;
+                                }}
+                            />
+                            <select
+                                value={plan.rooms[roomEdit].type}
+                                onChange={(e) => {
+                                    const type = e.target.value;
+                                    // rooms still named after their old type follow the new one
+                                    commit({
+                                        ...plan,
+                                        rooms: plan.rooms.map((r, i) => (i === roomEdit ? { ...r, type, name: !r.name || r.name === r.type ? type : r.name } : r)),
+                                    }, 'Set room type');
+                                }}
+                            >
+                                {!roomTypes.includes(plan.rooms[roomEdit].type) && <option value={plan.rooms[roomEdit].type}>{plan.rooms[roomEdit].type || '—'}</option>}
+                                {roomTypes.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            <span>{formatArea(shapeArea(plan.rooms[roomEdit]), plan.scale)}</span>
+                            <button
+                                className="wf-btn"
+                                onClick={() => {
+                                    commit({ ...plan, rooms: plan.rooms.filter((_, i) => i !== roomEdit) }, 'Delete room');
+                                    setRoomEdit(null);
+                                }}
+                            >
+                                Delete
+                            </button>
+                        </div>
+                    ) : (
+                        <span>{roomHint ?? 'Click inside an enclosed area to add a room, or on a room to edit it.'}</span>
+                    )}
+                </div>
+            )}
+
+            {/* Calibration distance entry */}
+            {tool === 'calibrate' && (
+                <div className="wf-panel">
+                    {!calib ? (
+                        <span>Click the first point of a known distance.</span>
+                    ) : !calib.b ? (
+                        <span>Click the second point.</span>
+                    ) : (
+                        <form onSubmit={(e) => { e.preventDefault(); applyCalibration(); }} className="wf-form">
+                            <span>{formatLength(dist(calib.a, calib.b))} in the image is</span>
+                            <input
+                                autoFocus
+                                type="text"
+                                value={calib.text}
+                                placeholder={calib.units === 'ft-in' ? `12' 6"` : calib.units === 'mm' ? '3500' : '3.5'}
+                                onChange={(e) => setCalib({ ...calib, text: e.target.value, error: undefined })}
+                            />
+                            <select value={calib.units} onChange={(e) => setCalib({ ...calib, units: e.target.value as UnitSystem })}>
+                                {(Object.keys(unitLabels) as UnitSystem[]).map(u => <option key={u} value={u}>{unitLabels[u]}</option>)}
+                            </select>
+                            <button type="submit" className="wf-btn">Apply</button>
+                            <button type="button" className="wf-btn" onClick={() => setCalib(null)}>Cancel</button>
+                            {calib.error && <span className="wf-error">{calib.error}</span>}
+                        </form>
+                    )}
+                </div>
+            )}
+
             {/* SVG interactive layer */}
             <svg
                 ref={svgRef}
@@ -278,56 +1320,307 @@ export function WireframeEditor({
                 height="100%"
                 viewBox={`0 0 ${plan.dimensions.width} ${plan.dimensions.height}`}
                 preserveAspectRatio="none"
-                onMouseMove={handleMouseMove}
-                onMouseDown={handleMouseDown}
-                onMouseUp={handleMouseUp}
+                onPointerMove={handlePointerMove}
+                onPointerDown={handlePointerDown}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={(e) => { touches.current.delete(e.pointerId); abortGesture(); }}
                 style={{
                     touchAction: 'none',
-                    cursor: tool === 'draw' ? 'crosshair' : tool === 'delete' ? 'not-allowed' : 'default'
+                    cursor: tool === 'move' ? 'grab' : tool === 'draw' || tool === 'arc' || tool === 'room' || tool === 'dimension' || tool === 'measure' || tool === 'door' || tool === 'window' || tool === 'furniture' || tool === 'merge' || tool === 'cut' || tool === 'calibrate' ? 'crosshair' : tool === 'delete' ? 'not-allowed' : 'default'
                 }}
             >
-                {/* Walls */}
-                {plan.walls.map((w, i) => (
-                    <g
-                        key={i}
-                        className={`wf-wall ${hover?.wall === i ? 'hover' : ''} ${selection?.wall === i ? 'selected' : ''}`}
-                    >
-                        <polygon
-                            points={w.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
-                            className="wall-shape"
-                            vectorEffect="non-scaling-stroke"
+                {/* Rooms (detected from wall negative space) */}
+                <g {...layerProps('rooms')}>
+                    {plan.rooms.map((r, i) => (
+                        <g
+                            key={`room-${i}`}
+                            className={`wf-room ${tool === 'room' && roomEdit === i ? 'selected' : ''}`}
+                            data-room-type={r.type}
+                            style={{ pointerEvents: 'none' }}
+                        >
+                            <title>{`${r.name} (${formatArea(shapeArea(r), plan.scale)})`}</title>
+                            <path
+                                d={shapePathData(r)}
+                                fillRule="evenodd"
+                                className="room-shape"
+                                style={{ fill: roomColors[r.type] ?? '#e5e7eb' }}
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        </g>
+                    ))}
+                </g>
+
+                {/* Furniture: library symbols defined once, placed with <use> */}
+                <defs>
+                    {symbolLibrary.map(def => (
+                        <symbol key={def.id} id={`sym-${def.id}`} overflow="visible">
+                            {def.shapes.map((sh, k) => sh.kind === 'circle' ? (
+                                <circle key={k} cx={sh.center.x} cy={sh.center.y} r={sh.radius} className="symbol-line" vectorEffect="non-scaling-stroke" />
+                            ) : sh.closed ? (
+                                <polygon key={k} points={sh.points.map(p => `${p.x},${p.y}`).join(' ')} className="symbol-line" vectorEffect="non-scaling-stroke" />
+                            ) : (
+                                <polyline key={k} points={sh.points.map(p => `${p.x},${p.y}`).join(' ')} className="symbol-line" vectorEffect="non-scaling-stroke" />
+                            ))}
+                        </symbol>
+                    ))}
+                </defs>
+                <g {...layerProps('furniture')}>
+                    {symbols.map((sym, i) => symbolDef(sym.symbol) && (
+                        <use
+                            key={`sym-${i}`}
+                            href={`#sym-${sym.symbol}`}
+                            transform={symbolSvgTransform(sym)}
+                            className={`wf-symbol ${sel.symbols.includes(i) ? 'selected' : ''}`}
                         />
-                        {/* Vertex handles (stretch tool) */}
-                        {tool === 'stretch' &&
-                            w.boundary.map((p, vi) => (
-                                <circle
-                                    key={vi}
-                                    cx={p.x}
-                                    cy={p.y}
-                                    r={6}
-                                    className={`wf-handle ${hover?.wall === i && hover?.vertex === vi ? 'hover' : ''}`}
+                    ))}
+                </g>
+
+                {/* Walls */}
+                <g {...layerProps('walls')}>
+                    {plan.walls.map((w, i) => (
+                        <g
+                            key={i}
+                            className={`wf-wall ${hover?.wall === i ? 'hover' : ''} ${selection?.wall === i || sel.walls.includes(i) ? 'selected' : ''} ${highlight?.collection === 'walls' && highlight.index === i ? 'issue' : ''}`}
+                        >
+                            {w.arc ? (
+                                <path d={arcWallPathData(w.arc)} className="wall-shape" vectorEffect="non-scaling-stroke" />
+                            ) : w.holes?.length ? (
+                                <path d={shapePathData(w)} fillRule="evenodd" className="wall-shape" vectorEffect="non-scaling-stroke" />
+                            ) : (
+                                <polygon
+                                    points={w.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
+                                    className="wall-shape"
+                                    vectorEffect="non-scaling-stroke"
                                 />
-                            ))}
-                    </g>
-                ))}
+                            )}
+                            {/* Node handles for graph walls (stretch tool) */}
+                            {tool === 'stretch' && w.edge != null &&
+                                graph.edges.filter(e => e.id === w.edge).flatMap(e => [e.a, e.b]).map(id => {
+                                    const n = graphNode(graph, id);
+                                    return n && (
+                                        <circle
+                                            key={`n-${id}`}
+                                            cx={n.x}
+                                            cy={n.y}
+                                            r={6}
+                                            className={`wf-handle node ${hover?.wall === i && hover?.node === id ? 'hover' : ''}`}
+                                        />
+                                    );
+                                })}
+                            {/* Vertex handles (stretch tool), only on the active wall so dense traces stay fast */}
+                            {tool === 'stretch' && w.edge == null && !w.arc && (hover?.wall === i || selection?.wall === i) &&
+                                w.boundary.map((p, vi) => (
+                                    <circle
+                                        key={vi}
+                                        cx={p.x}
+                                        cy={p.y}
+                                        r={6}
+                                        className={`wf-handle ${hover?.wall === i && hover?.vertex === vi ? 'hover' : ''}`}
+                                    />
+                                ))}
+                        </g>
+                    ))}
+                </g>
+
+                {/* Windows/Doors: placed ones are drawn from their host wall, traced ones as plain lines */}
+                <g {...layerProps('windows')}>
+                    {plan.windows.map((wd, i) => {
+                        const f = wd.host && openingFrame(graph, wd.host);
+                        return f ? (
+                            <g key={`win-${i}`} className={`wf-opening ${sel.windows.includes(i) ? 'selected' : ''}`}>
+                                <polygon
+                                    points={createWallRectangle(f.a, f.b, f.thickness).map((p) => `${p.x},${p.y}`).join(' ')}
+                                    className="window-frame"
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                                <line x1={f.a.x} y1={f.a.y} x2={f.b.x} y2={f.b.y} className="window-glass" vectorEffect="non-scaling-stroke" />
+                            </g>
+                        ) : (
+                            <polyline
+                                key={`win-${i}`}
+                                points={wd.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
+                                className={`window-shape ${sel.windows.includes(i) ? 'selected' : ''}`}
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        );
+                    })}
+                </g>
+                <g {...layerProps('doors')}>
+                    {plan.doors.map((dr, i) => {
+                        const swing = doorSwing(graph, dr);
+                        if (!swing) {
+                            return (
+                                <polyline
+                                    key={`door-${i}`}
+                                    points={dr.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
+                                    className={`door-shape ${sel.doors.includes(i) ? 'selected' : ''}`}
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            );
+                        }
+                        const { hinge, open, arc } = swing;
+                        const latch = arcPointAt(arc, 1);
+                        return (
+                            <g key={`door-${i}`} className={`wf-opening ${sel.doors.includes(i) ? 'selected' : ''}`}>
+                                <line x1={hinge.x} y1={hinge.y} x2={open.x} y2={open.y} className="door-leaf" vectorEffect="non-scaling-stroke" />
+                                <path
+                                    d={`M${open.x},${open.y}A${arc.radius},${arc.radius} 0 0 ${arc.sweep > 0 ? 1 : 0} ${latch.x},${latch.y}`}
+                                    className="door-swing"
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            </g>
+                        );
+                    })}
+                </g>
 
-                {/* Windows/Doors (read-only in this version) */}
-                {plan.windows.map((wd, i) => (
-                    <polyline
-                        key={`win-${i}`}
-                        points={wd.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
-                        className="window-shape"
+                {/* Dimensions */}
+                <g {...layerProps('dimensions')}>
+                    {(plan.dimensionLines ?? []).map((d, i) => (
+                        <React.Fragment key={`dim-${i}`}>
+                            <DimensionMark dim={d} plan={plan} />
+                        </React.Fragment>
+                    ))}
+                </g>
+
+                {/* Annotations: room names and areas */}
+                <g {...layerProps('annotations')}>
+                    {plan.rooms.map((r, i) => {
+                        const at = labelPoint(r);
+                        const fontSize = Math.max(plan.dimensions.width, plan.dimensions.height) / 60;
+                        return (
+                            <text key={`label-${i}`} x={at.x} y={at.y} fontSize={fontSize} className="room-label" textAnchor="middle">
+                                <tspan x={at.x} dy="-0.1em">{r.name}</tspan>
+                                <tspan x={at.x} dy="1.2em" className="room-area">{formatArea(shapeArea(r), plan.scale)}</tspan>
+                            </text>
+                        );
+                    })}
+                </g>
+
+                {/* Measure overlay */}
+                {tool === 'measure' && measure.mode === 'distance' && measure.pts[0] && (measure.pts[1] ?? measure.cursor) && (
+                    <line
+                        x1={measure.pts[0].x}
+                        y1={measure.pts[0].y}
+                        x2={(measure.pts[1] ?? measure.cursor)!.x}
+                        y2={(measure.pts[1] ?? measure.cursor)!.y}
+                        className="wf-measure"
                         vectorEffect="non-scaling-stroke"
                     />
+                )}
+                {tool === 'measure' && measure.mode === 'angle' && measure.edges.map(([a, b], k) => (
+                    <line key={`me-${k}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="wf-measure-edge" vectorEffect="non-scaling-stroke" />
                 ))}
-                {plan.doors.map((dr, i) => (
-                    <polyline
-                        key={`door-${i}`}
-                        points={dr.boundary.map((p) => `${p.x},${p.y}`).join(' ')}
-                        className="door-shape"
+                {tool === 'measure' && measure.mode === 'area' && measure.shape && (
+                    <path d={shapePathData(measure.shape)} fillRule="evenodd" className="wf-preview" vectorEffect="non-scaling-stroke" />
+                )}
+                {tool === 'measure' && measure.mode === 'region' && measure.pts.length > 0 && (
+                    <polygon
+                        points={(measure.closed || !measure.cursor ? measure.pts : [...measure.pts, measure.cursor]).map(p => `${p.x},${p.y}`).join(' ')}
+                        className="wf-preview"
                         vectorEffect="non-scaling-stroke"
                     />
-                ))}
+                )}
+
+                {/* Dimension in progress */}
+                {tool === 'dimension' && dimDraft?.cursor && (
+                    dimDraft.b ? (
+                        <DimensionMark dim={{ a: dimDraft.a, b: dimDraft.b, offset: dimensionOffsetThrough(dimDraft.a, dimDraft.b, dimDraft.cursor) }} plan={plan} />
+                    ) : (
+                        <line x1={dimDraft.a.x} y1={dimDraft.a.y} x2={dimDraft.cursor.x} y2={dimDraft.cursor.y} className="wf-measure" vectorEffect="non-scaling-stroke" />
+                    )
+                )}
+
+                {/* Furniture placement preview */}
+                {tool === 'furniture' && furniturePreview && (
+                    <use
+                        href={`#sym-${furnitureOpts.symbol}`}
+                        transform={symbolSvgTransform({ ...furnitureOpts, at: furniturePreview, scale: unitsPerMetre(plan) })}
+                        className="wf-symbol preview"
+                    />
+                )}
+
+                {/* Door/window placement preview */}
+                {(tool === 'door' || tool === 'window') && openingPreview && (
+                    <polygon
+                        className="wf-preview"
+                        points={createWallRectangle(openingPreview.a, openingPreview.b, openingPreview.thickness + 2)
+                            .map((p) => `${p.x},${p.y}`)
+                            .join(' ')}
+                    />
+                )}
+
+                {/* Arc wall preview */}
+                {tool === 'arc' && arcDraft?.cursor && (
+                    arcDraft.pts.length === 1 ? (
+                        <line
+                            x1={arcDraft.pts[0].x}
+                            y1={arcDraft.pts[0].y}
+                            x2={arcDraft.cursor.x}
+                            y2={arcDraft.cursor.y}
+                            className="wf-measure"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ) : (
+                        <ArcPreview arc={arcThroughPoints(arcDraft.pts[0], arcDraft.cursor, arcDraft.pts[1])} a={arcDraft.pts[0]} b={arcDraft.pts[1]} thickness={wallThickness} />
+                    )
+                )}
+
+                {/* Validation issue marker */}
+                {highlight && (
+                    <circle
+                        cx={highlight.location.x}
+                        cy={highlight.location.y}
+                        r={Math.max(plan.dimensions.width, plan.dimensions.height) / 60}
+                        className="wf-issue"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                )}
+
+                {/* Merge / cut region preview */}
+                {drag?.kind === 'region' && (
+                    <polygon
+                        className={`wf-preview ${tool === 'cut' ? 'cut' : tool === 'select' ? 'marquee' : ''}`}
+                        points={rectPolygon(drag.startPt, drag.currPt ?? drag.startPt)
+                            .map((p) => `${p.x},${p.y}`)
+                            .join(' ')}
+                    />
+                )}
+
+                {/* Snap guides and glyph */}
+                {snapHint && (
+                    <g className="wf-snap">
+                        {snapHint.guides.map(([a, b], gi) => (
+                            <line key={gi} x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="wf-guide" vectorEffect="non-scaling-stroke" />
+                        ))}
+                        <SnapGlyph hint={snapHint} size={Math.max(plan.dimensions.width, plan.dimensions.height) / 120} />
+                    </g>
+                )}
+
+                {/* Calibration line */}
+                {calib && (calib.b ?? calib.cursor) && (
+                    <line
+                        x1={calib.a.x}
+                        y1={calib.a.y}
+                        x2={(calib.b ?? calib.cursor)!.x}
+                        y2={(calib.b ?? calib.cursor)!.y}
+                        className="wf-measure"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                )}
+
+                {/* Live length of the wall being drawn */}
+                {drag?.kind === 'draw' && drag.currPt && (
+                    <text
+                        x={(drag.startPt.x + drag.currPt.x) / 2}
+                        y={(drag.startPt.y + drag.currPt.y) / 2}
+                        fontSize={Math.max(plan.dimensions.width, plan.dimensions.height) / 60}
+                        className="wf-length"
+                        textAnchor="middle"
+                        dy="-0.8em"
+                    >
+                        {formatLength(dist(drag.startPt, drag.currPt), plan.scale)}
+                    </text>
+                )}
 
                 {/* Draw preview */}
                 {drag?.kind === 'draw' && (
@@ -345,4 +1638,62 @@ export function WireframeEditor({
             </svg>
         </div>
     );
-}
\ No newline at end of file
+}
+
+// Linear dimension: extension lines, dimension line with arrowheads and a length label.
+function DimensionMark({ dim, plan }: { dim: PlanDimension; plan: ArchitecturalPlan }) {
+    const size = Math.max(plan.dimensions.width, plan.dimensions.height);
+    const g = dimensionGeometry(dim, size / 100);
+    const [pa, pb] = g.line;
+    return (
+        <g className="wf-dimension">
+            {g.extensions.map(([a, b], k) => (
+                <line key={k} x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="dim-line" vectorEffect="non-scaling-stroke" />
+            ))}
+            <line x1={pa.x} y1={pa.y} x2={pb.x} y2={pb.y} className="dim-line" vectorEffect="non-scaling-stroke" />
+            {g.arrows.map((tri, k) => (
+                <polygon key={k} points={tri.map(p => `${p.x},${p.y}`).join(' ')} className="dim-arrow" />
+            ))}
+            <text
+                x={g.label.x}
+                y={g.label.y}
+                fontSize={size / 70}
+                className="dim-label"
+                textAnchor="middle"
+                dy="-0.35em"
+                transform={`rotate(${g.angle} ${g.label.x} ${g.label.y})`}
+            >
+                {formatLength(g.length, plan.scale)}
+            </text>
+        </g>
+    );
+}
+
+// Draft of a three-point arc wall; falls back to a straight segment when the points are collinear.
+function ArcPreview({ arc, a, b, thickness }: { arc: Arc | null; a: Point; b: Point; thickness: number }) {
+    if (!arc) return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="wf-measure" vectorEffect="non-scaling-stroke" />;
+    return <path d={arcWallPathData({ ...arc, thickness })} className="wf-preview" vectorEffect="non-scaling-stroke" />;
+}
+
+// Marker for the active snap target: square = endpoint, triangle = midpoint,
+// cross = intersection, right angle = perpendicular, slashes = parallel, circle = angle.
+function SnapGlyph({ hint, size }: { hint: SnapResult; size: number }) {
+    const { x, y } = hint.point;
+    const s = size;
+    switch (hint.kind) {
+        case 'endpoint':
+            return <rect x={x - s} y={y - s} width={2 * s} height={2 * s} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        case 'midpoint':
+            return <polygon points={`${x},${y - s} ${x + s},${y + s} ${x - s},${y + s}`} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        case 'intersection':
+            return <path d={`M${x - s},${y - s}L${x + s},${y + s}M${x - s},${y + s}L${x + s},${y - s}`} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        case 'perpendicular':
+            return <path d={`M${x - s},${y - s}V${y + s}H${x + s}M${x - s},${y}H${x}V${y + s}`} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        case 'parallel':
+            return <path d={`M${x - s},${y + s}L${x},${y - s}M${x},${y + s}L${x + s},${y - s}`} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        case 'angle':
+            return <circle cx={x} cy={y} r={s} className="wf-glyph" vectorEffect="non-scaling-stroke" />;
+        default:
+            return null;
+    }
+}
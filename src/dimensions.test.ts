@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from './geometry';
+import { autoDimension } from './dimensions';
+
+describe('autoDimension', () => {
+    it('dimensions plans with more wall points than fit in an argument list', () => {
+        // a 1000 x 500 wall outline traced as 200k points along its top and bottom
+        const n = 100000;
+        const top: Point[] = Array.from({ length: n }, (_, i) => ({ x: (i / (n - 1)) * 1000, y: 0 }));
+        const bottom = top.map(p => ({ x: 1000 - p.x, y: 500 }));
+        const plan = autoDimension({
+            walls: [{ boundary: [...top, ...bottom] }], doors: [], windows: [], rooms: [],
+            dimensions: { width: 1000, height: 500 },
+        });
+        const lengths = plan.dimensionLines!.map(d => Math.hypot(d.b.x - d.a.x, d.b.y - d.a.y));
+        expect(lengths).toContain(1000);
+        expect(lengths).toContain(500);
+    });
+});
@@ -0,0 +1,93 @@
+// dimensions.ts - linear dimension annotations and auto-dimensioning
+import { add, dist, mul, normalize, perp, Point, pointsBounds, sub } from './geometry';
+import { ArchitecturalPlan, PlanDimension } from './plan';
+
+// Drawn parts of a dimension: extension lines from the measured points out to the
+// dimension line, the dimension line itself, arrowheads and the label anchor. `angle`
+// (degrees) keeps the label upright.
+export function dimensionGeometry(d: PlanDimension, arrowSize: number) {
+    const dir = normalize(sub(d.b, d.a));
+    const n = perp(dir);
+    const side = d.offset < 0 ? -1 : 1;
+    const gap = Math.min(arrowSize * 0.5, Math.abs(d.offset));
+    const pa = add(d.a, mul(n, d.offset)), pb = add(d.b, mul(n, d.offset));
+    const overshoot = mul(n, side * arrowSize * 0.6);
+    const arrow = (tip: Point, back: Point): Point[] => {
+        const base = add(tip, mul(back, arrowSize));
+        const w = mul(n, arrowSize * 0.3);
+        return [tip, add(base, w), sub(base, w)];
+    };
+    let angle = (Math.atan2(dir.y, dir.x) * 180) / Math.PI;
+    if (angle > 90) angle -= 180;
+    if (angle <= -90) angle += 180;
+    return {
+        extensions: [
+            [add(d.a, mul(n, side * gap)), add(pa, overshoot)],
+            [add(d.b, mul(n, side * gap)), add(pb, overshoot)],
+        ] as Array<[Point, Point]>,
+        line: [pa, pb] as [Point, Point],
+        arrows: [arrow(pa, dir), arrow(pb, mul(dir, -1))],
+        label: mul(add(pa, pb), 0.5),
+        angle,
+        length: dist(d.a, d.b),
+    };
+}
+
+// Distance from p to a dimension's line, for picking.
+export function dimensionDistance(d: PlanDimension, p: Point): number {
+    const n = perp(normalize(sub(d.b, d.a)));
+    const pa = add(d.a, mul(n, d.offset)), pb = add(d.b, mul(n, d.offset));
+    const ab = sub(pb, pa);
+    const t = Math.max(0, Math.min(1, ((p.x - pa.x) * ab.x + (p.y - pa.y) * ab.y) / ((ab.x * ab.x + ab.y * ab.y) || 1e-12)));
+    return dist(p, add(pa, mul(ab, t)));
+}
+
+// Signed offset that places a dimension from a to b through the point `through`.
+export function dimensionOffsetThrough(a: Point, b: Point, through: Point): number {
+    const n = perp(normalize(sub(b, a)));
+    return (through.x - a.x) * n.x + (through.y - a.y) * n.y;
+}
+
+// Collapse sorted coordinates closer than tol.
+function distinct(values: number[], tol: number): number[] {
+    const out: number[] = [];
+    for (const v of [...values].sort((x, y) => x - y)) {
+        if (!out.length || v - out[out.length - 1] > tol) out.push(v);
+    }
+    return out;
+}
+
+// Replace earlier auto dimensions with an overall width/height and a chain of wall
+// segments along the top and left of the plan. Chains break at wall junctions and ends
+// (graph nodes) or, for traced walls, at polygon corners, and end at the outer faces.
+export function autoDimension(plan: ArchitecturalPlan): ArchitecturalPlan {
+    const kept = (plan.dimensionLines ?? []).filter(d => !d.auto);
+    const pts = plan.walls.flatMap(w => w.boundary);
+    const bounds = pointsBounds(pts);
+    if (!bounds) return { ...plan, dimensionLines: kept };
+    const { x0: minX, x1: maxX, y0: minY, y1: maxY } = bounds;
+    const step = Math.max(plan.dimensions.width, plan.dimensions.height) / 30;
+    const tol = Math.max(maxX - minX, maxY - minY) / 100;
+
+    // graph nodes sit on wall centerlines, so breaks within a wall thickness of the outer
+    // faces belong to the end walls and are dropped
+    const breaks = plan.graph?.nodes.length ? plan.graph.nodes : pts;
+    const nearEnd = (plan.graph?.edges ?? []).reduce((m, e) => Math.max(m, e.thickness), tol);
+    const inner = (v: number, lo: number, hi: number) => v - lo > nearEnd && hi - v > nearEnd;
+    const chainX = distinct([minX, maxX, ...breaks.map(p => p.x).filter(x => inner(x, minX, maxX))], tol);
+    const chainY = distinct([minY, maxY, ...breaks.map(p => p.y).filter(y => inner(y, minY, maxY))], tol);
+
+    // dimension lines sit above the plan (negative y) and left of it; perp() of a
+    // left-to-right line points down and of a top-to-bottom line points left
+    const dims: PlanDimension[] = [];
+    const top = (x0: number, x1: number, level: number) =>
+        dims.push({ a: { x: x0, y: minY }, b: { x: x1, y: minY }, offset: -level * step, auto: true });
+    const left = (y0: number, y1: number, level: number) =>
+        dims.push({ a: { x: minX, y: y0 }, b: { x: minX, y: y1 }, offset: level * step, auto: true });
+
+    if (chainX.length > 2) chainX.slice(1).forEach((x, i) => top(chainX[i], x, 1));
+    if (chainY.length > 2) chainY.slice(1).forEach((y, i) => left(chainY[i], y, 1));
+    top(minX, maxX, 2);
+    left(minY, maxY, 2);
+    return { ...plan, dimensionLines: [...kept, ...dims] };
+}
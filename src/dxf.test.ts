@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DxfDocument, DxfVersion, writeDxf } from './dxf';
+import { parseDxf } from './dxfImport';
+
+const doc = (version: DxfVersion): DxfDocument => ({
+    version,
+    units: { insunits: 4, measurement: 1 },
+    layers: [
+        { name: 'WALLS', color: 1 },
+        { name: 'DOORS', color: 2, off: true },
+        { name: 'NOTES', color: 7, locked: true },
+    ],
+    blocks: [{ name: 'SYM_CHAIR', entities: [{ type: 'polyline', layer: '0', points: [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }], closed: true }] }],
+    entities: [
+        { type: 'line', layer: 'WALLS', a: { x: 0, y: 0 }, b: { x: 100, y: 0 } },
+        { type: 'polyline', layer: 'WALLS', points: [{ x: 0, y: 10 }, { x: 50, y: 10 }, { x: 50, y: 60 }], closed: false, bulges: [0.5, 0, 0] },
+        { type: 'arc', layer: 'DOORS', center: { x: 10, y: 20 }, radius: 5, startAngle: 0, endAngle: 90 },
+        { type: 'text', layer: 'NOTES', at: { x: 3, y: 4 }, text: 'Living 20 m²', height: 2.5, centered: true },
+        { type: 'insert', layer: 'NOTES', block: 'SYM_CHAIR', at: { x: 200, y: 100 }, scaleX: 2, scaleY: 2, rotation: 90 },
+    ],
+});
+
+// Group code/value pairs of a DXF file, for checks parseDxf doesn't expose
+function pairs(text: string): Array<[number, string]> {
+    const lines = text.trimEnd().split('\n');
+    const out: Array<[number, string]> = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) out.push([parseInt(lines[i], 10), lines[i + 1]]);
+    return out;
+}
+
+// The pairs of every entity of `type` (from its 0 group to the next one)
+function entitiesOf(all: Array<[number, string]>, type: string): Array<Array<[number, string]>> {
+    const found: Array<Array<[number, string]>> = [];
+    all.forEach(([code, value], i) => {
+        if (code !== 0 || value !== type) return;
+        const end = all.findIndex(([c], j) => j > i && c === 0);
+        found.push(all.slice(i + 1, end));
+    });
+    return found;
+}
+
+const group = (entity: Array<[number, string]>, code: number) => entity.find(([c]) => c === code)?.[1];
+
+describe.each(['R12', 'R2000'] as const)('writeDxf %s', version => {
+    const text = writeDxf(doc(version));
+    const all = pairs(text);
+    const drawing = parseDxf(text);
+
+    it('parses back with its units and layers', () => {
+        expect(drawing.insunits).toBe(4);
+        expect(drawing.layers).toEqual(['WALLS', 'DOORS', 'NOTES']);
+    });
+
+    it('writes a layer table whose count matches its entries', () => {
+        const table = all.findIndex(([c, v], i) => c === 2 && v === 'LAYER' && all[i - 1][1] === 'TABLE');
+        const count = Number(all.slice(table).find(([c]) => c === 70)![1]);
+        const layers = entitiesOf(all, 'LAYER');
+        expect(count).toBe(layers.length);
+        expect(layers.map(l => group(l, 2))).toEqual(['0', 'WALLS', 'DOORS', 'NOTES']);
+        // off layers have a negative colour, locked ones flag 4
+        expect(Number(group(layers[2], 62))).toBe(-2);
+        expect(Number(group(layers[3], 70))).toBe(4);
+    });
+
+    it('round-trips lines, arcs and bulged polylines', () => {
+        const walls = drawing.paths.filter(p => p.layer === 'WALLS');
+        expect(walls[0].points).toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+        expect(walls[1].points).toEqual([{ x: 0, y: 10 }, { x: 50, y: 10 }, { x: 50, y: 60 }]);
+        expect(walls[1].bulges).toEqual([0.5, 0, 0]);
+        expect(walls[1].closed).toBe(false);
+
+        const [arc] = drawing.paths.filter(p => p.layer === 'DOORS');
+        expect(arc.points[0].x).toBeCloseTo(15);
+        expect(arc.points[0].y).toBeCloseTo(20);
+        expect(arc.points[1].x).toBeCloseTo(10);
+        expect(arc.points[1].y).toBeCloseTo(25);
+        expect(arc.bulges[0]).toBeCloseTo(Math.tan(Math.PI / 8));
+    });
+
+    it('writes TEXT with escaped characters and alignment', () => {
+        const [t] = entitiesOf(all, 'TEXT');
+        expect(group(t, 8)).toBe('NOTES');
+        expect(group(t, 1)).toBe('Living 20 m\\U+00B2');
+        expect(Number(group(t, 40))).toBe(2.5);
+        expect(group(t, 72)).toBe('1');
+    });
+
+    it('expands INSERTs through their BLOCK onto the insert layer', () => {
+        expect(drawing.inserts).toEqual([{ layer: 'NOTES', block: 'SYM_CHAIR', at: { x: 200, y: 100 }, scaleX: 2, scaleY: 2, rotation: 90 }]);
+        const chair = drawing.paths.find(p => p.insert === 0)!;
+        expect(chair.layer).toBe('NOTES');
+        expect(chair.closed).toBe(true);
+        // (-1, -1) scaled by 2 and turned 90° about the insertion point
+        expect(chair.points[0].x).toBeCloseTo(202);
+        expect(chair.points[0].y).toBeCloseTo(98);
+    });
+
+    it(version === 'R12' ? 'uses POLYLINE entities and no handles' : 'gives every object a unique handle below $HANDSEED', () => {
+        const handles = all.filter(([c], i) => (c === 5 || c === 105) && all[i - 1]?.[1] !== '$HANDSEED').map(([, v]) => parseInt(v, 16));
+        if (version === 'R12') {
+            expect(handles).toEqual([]);
+            expect(entitiesOf(all, 'LWPOLYLINE')).toEqual([]);
+            expect(entitiesOf(all, 'POLYLINE')).toHaveLength(2);
+            expect(all.some(([c]) => c === 100)).toBe(false);
+            return;
+        }
+        const seed = parseInt(all[all.findIndex(([c, v]) => c === 9 && v === '$HANDSEED') + 1][1], 16);
+        expect(new Set(handles).size).toBe(handles.length);
+        expect(Math.max(...handles)).toBeLessThan(seed);
+        // owners (330) and dictionary entries (350) point at handles that exist
+        const known = new Set(handles);
+        all.filter(([c, v]) => (c === 330 || c === 350) && v !== '0').forEach(([, v]) => expect(known.has(parseInt(v, 16))).toBe(true));
+        expect(entitiesOf(all, 'LWPOLYLINE')).toHaveLength(2);
+    });
+});
@@ -0,0 +1,317 @@
+// dxf.ts - DXF writer for R12 (AC1009) and R2000 (AC1015) drawings
+//
+// Coordinates are DXF coordinates (y up) in drawing units; callers flip the plan's
+// y-down coordinates. R12 output uses POLYLINE/VERTEX/SEQEND and no handles or subclass
+// markers; R2000 output uses LWPOLYLINE and gives every object a handle and an owner.
+import { Point } from './geometry';
+
+export type DxfVersion = 'R12' | 'R2000';
+
+// `color` is an AutoCAD colour index; layers that are off get it written negative.
+export type DxfLayer = { name: string; color: number; off?: boolean; locked?: boolean };
+
+// Angles are degrees counter-clockwise from +x. `bulges` curve the segment after each
+// vertex (tan of a quarter of its sweep, positive counter-clockwise).
+export type DxfEntity =
+    | { type: 'line'; layer: string; a: Point; b: Point }
+    | { type: 'polyline'; layer: string; points: Point[]; closed: boolean; bulges?: number[] }
+    | { type: 'circle'; layer: string; center: Point; radius: number }
+    | { type: 'arc'; layer: string; center: Point; radius: number; startAngle: number; endAngle: number }
+    | { type: 'text'; layer: string; at: Point; text: string; height: number; rotation?: number; centered?: boolean }
+    | { type: 'insert'; layer: string; block: string; at: Point; scaleX: number; scaleY: number; rotation: number };
+
+// Block entities are drawn relative to the block's base point (the origin).
+export type DxfBlock = { name: string; entities: DxfEntity[] };
+
+export type DxfDocument = {
+    version: DxfVersion;
+    // $INSUNITS/$MEASUREMENT codes (see exportUnits)
+    units?: { insunits: number; measurement: number };
+    layers: DxfLayer[];
+    blocks?: DxfBlock[];
+    entities: DxfEntity[];
+};
+
+// Numbers are rounded to 1e-6 so float noise doesn't bloat the file ("-0" becomes "0").
+const num = (v: number) => String(Math.round(v * 1e6) / 1e6);
+
+// DXF text isn't UTF-8; characters outside printable ASCII use \U+ escapes
+const escapeText = (text: string) =>
+    text.replace(/[^\x20-\x7e]/g, c => `\\U+${c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`);
+
+// Builds the group code/value pair lines of one file, handing out handles for R2000.
+function dxfOutput(version: DxfVersion) {
+    const lines: string[] = [];
+    let nextHandle = 1;
+    return {
+        lines,
+        modern: version === 'R2000',
+        pair(code: number, value: string | number) {
+            lines.push(String(code), typeof value === 'number' ? num(value) : value);
+        },
+        // Allocate a handle (R2000 only); written as group 5 unless `code` says otherwise
+        handle(code = 5): string {
+            const h = (nextHandle++).toString(16).toUpperCase();
+            if (version === 'R2000') lines.push(String(code), h);
+            return h;
+        },
+        get handleSeed() {
+            return nextHandle.toString(16).toUpperCase();
+        },
+    };
+}
+
+type Output = ReturnType<typeof dxfOutput>;
+
+function writePoint(out: Output, p: Point, code = 10) {
+    out.pair(code, p.x);
+    out.pair(code + 10, p.y);
+    out.pair(code + 20, 0);
+}
+
+// Entity header: type, handle, owner and layer (plus R2000 subclass markers)
+function entityStart(out: Output, type: string, layer: string, owner: string, subclass?: string) {
+    out.pair(0, type);
+    out.handle();
+    if (out.modern) {
+        out.pair(330, owner);
+        out.pair(100, 'AcDbEntity');
+    }
+    out.pair(8, layer);
+    if (out.modern && subclass) out.pair(100, subclass);
+}
+
+function writeEntity(out: Output, e: DxfEntity, owner: string) {
+    switch (e.type) {
+        case 'line':
+            entityStart(out, 'LINE', e.layer, owner, 'AcDbLine');
+            writePoint(out, e.a, 10);
+            writePoint(out, e.b, 11);
+            return;
+        case 'circle':
+            entityStart(out, 'CIRCLE', e.layer, owner, 'AcDbCircle');
+            writePoint(out, e.center);
+            out.pair(40, e.radius);
+            return;
+        case 'arc':
+            entityStart(out, 'ARC', e.layer, owner, 'AcDbCircle');
+            writePoint(out, e.center);
+            out.pair(40, e.radius);
+            if (out.modern) out.pair(100, 'AcDbArc');
+            out.pair(50, e.startAngle);
+            out.pair(51, e.endAngle);
+            return;
+        case 'text':
+            entityStart(out, 'TEXT', e.layer, owner, 'AcDbText');
+            writePoint(out, e.at);
+            out.pair(40, e.height);
+            out.pair(1, escapeText(e.text));
+            if (e.rotation) out.pair(50, e.rotation);
+            if (e.centered) {
+                // centred text is placed by its alignment point (11); 10 is kept for readers that ignore it
+                out.pair(72, 1);
+                writePoint(out, e.at, 11);
+            }
+            if (out.modern) out.pair(100, 'AcDbText');
+            return;
+        case 'insert':
+            entityStart(out, 'INSERT', e.layer, owner, 'AcDbBlockReference');
+            out.pair(2, e.block);
+            writePoint(out, e.at);
+            out.pair(41, e.scaleX);
+            out.pair(42, e.scaleY);
+            out.pair(43, 1);
+            if (e.rotation) out.pair(50, e.rotation);
+            return;
+        case 'polyline':
+            if (out.modern) {
+                entityStart(out, 'LWPOLYLINE', e.layer, owner, 'AcDbPolyline');
+                out.pair(90, e.points.length);
+                out.pair(70, e.closed ? 1 : 0);
+                e.points.forEach((p, i) => {
+                    out.pair(10, p.x);
+                    out.pair(20, p.y);
+                    if (e.bulges?.[i]) out.pair(42, e.bulges[i]);
+                });
+                return;
+            }
+            // R12: a POLYLINE header, one VERTEX per point and a closing SEQEND
+            entityStart(out, 'POLYLINE', e.layer, owner);
+            out.pair(66, 1);
+            writePoint(out, { x: 0, y: 0 });
+            out.pair(70, e.closed ? 1 : 0);
+            e.points.forEach((p, i) => {
+                entityStart(out, 'VERTEX', e.layer, owner);
+                writePoint(out, p);
+                if (e.bulges?.[i]) out.pair(42, e.bulges[i]);
+            });
+            entityStart(out, 'SEQEND', e.layer, owner);
+            return;
+    }
+}
+
+// A symbol table whose entries are written by `entries`. The count (group 70) is taken
+// from what was actually written, so it always matches.
+function writeTable(out: Output, name: string, entries: (owner: string) => void) {
+    out.pair(0, 'TABLE');
+    out.pair(2, name);
+    const owner = out.handle();
+    if (out.modern) {
+        out.pair(330, '0');
+        out.pair(100, 'AcDbSymbolTable');
+    }
+    const countAt = out.lines.length;
+    out.pair(70, 0);
+    const start = out.lines.length;
+    entries(owner);
+    // each entry starts with a "0" group; count them and patch the header
+    let count = 0;
+    for (let i = start; i < out.lines.length; i += 2) if (out.lines[i] === '0') count++;
+    out.lines[countAt + 1] = String(count);
+    out.pair(0, 'ENDTAB');
+}
+
+function tableEntry(out: Output, type: string, owner: string, subclass: string, name: string, flags = 0) {
+    out.pair(0, type);
+    out.handle(type === 'DIMSTYLE' ? 105 : 5);
+    if (out.modern) {
+        out.pair(330, owner);
+        out.pair(100, 'AcDbSymbolTableRecord');
+        out.pair(100, subclass);
+    }
+    out.pair(2, name);
+    out.pair(70, flags);
+}
+
+export function writeDxf(doc: DxfDocument): string {
+    const out = dxfOutput(doc.version);
+    const blocks = doc.blocks ?? [];
+    const layers = doc.layers.some(l => l.name === '0') ? doc.layers : [{ name: '0', color: 7 }, ...doc.layers];
+
+    // Sections after HEADER are written first so $HANDSEED can follow the last handle
+    out.pair(0, 'SECTION');
+    out.pair(2, 'TABLES');
+    const blockRecords = new Map<string, string>();
+    if (out.modern) {
+        writeTable(out, 'VPORT', owner => {
+            tableEntry(out, 'VPORT', owner, 'AcDbViewportTableRecord', '*ACTIVE');
+        });
+    }
+    writeTable(out, 'LTYPE', owner => {
+        const linetypes = out.modern ? ['ByBlock', 'ByLayer', 'Continuous'] : ['CONTINUOUS'];
+        linetypes.forEach(name => {
+            tableEntry(out, 'LTYPE', owner, 'AcDbLinetypeTableRecord', name);
+            out.pair(3, name === 'Continuous' || name === 'CONTINUOUS' ? 'Solid line' : '');
+            out.pair(72, 65);
+            out.pair(73, 0);
+            out.pair(40, 0);
+        });
+    });
+    writeTable(out, 'LAYER', owner => {
+        layers.forEach(layer => {
+            tableEntry(out, 'LAYER', owner, 'AcDbLayerTableRecord', layer.name, layer.locked ? 4 : 0);
+            out.pair(62, layer.color * (layer.off ? -1 : 1));
+            out.pair(6, out.modern ? 'Continuous' : 'CONTINUOUS');
+        });
+    });
+    writeTable(out, 'STYLE', owner => {
+        tableEntry(out, 'STYLE', owner, 'AcDbTextStyleTableRecord', out.modern ? 'Standard' : 'STANDARD');
+        out.pair(40, 0);
+        out.pair(41, 1);
+        out.pair(50, 0);
+        out.pair(71, 0);
+        out.pair(42, 2.5);
+        out.pair(3, 'txt');
+    });
+    if (out.modern) {
+        writeTable(out, 'VIEW', () => {});
+        writeTable(out, 'UCS', () => {});
+        writeTable(out, 'APPID', owner => {
+            tableEntry(out, 'APPID', owner, 'AcDbRegAppTableRecord', 'ACAD');
+        });
+        writeTable(out, 'DIMSTYLE', owner => {
+            tableEntry(out, 'DIMSTYLE', owner, 'AcDbDimStyleTableRecord', 'Standard');
+        });
+        // every block, including model and paper space, has a record that owns its entities
+        writeTable(out, 'BLOCK_RECORD', owner => {
+            ['*Model_Space', '*Paper_Space', ...blocks.map(b => b.name)].forEach(name => {
+                out.pair(0, 'BLOCK_RECORD');
+                blockRecords.set(name, out.handle());
+                out.pair(330, owner);
+                out.pair(100, 'AcDbSymbolTableRecord');
+                out.pair(100, 'AcDbBlockTableRecord');
+                out.pair(2, name);
+            });
+        });
+    }
+    out.pair(0, 'ENDSEC');
+
+    out.pair(0, 'SECTION');
+    out.pair(2, 'BLOCKS');
+    const writeBlock = (name: string, entities: DxfEntity[]) => {
+        const owner = blockRecords.get(name) ?? '0';
+        entityStart(out, 'BLOCK', '0', owner, 'AcDbBlockBegin');
+        out.pair(2, name);
+        out.pair(70, 0);
+        writePoint(out, { x: 0, y: 0 });
+        out.pair(3, name);
+        if (out.modern) out.pair(1, '');
+        entities.forEach(e => writeEntity(out, e, owner));
+        entityStart(out, 'ENDBLK', '0', owner, 'AcDbBlockEnd');
+    };
+    if (out.modern) {
+        writeBlock('*Model_Space', []);
+        writeBlock('*Paper_Space', []);
+    }
+    blocks.forEach(b => writeBlock(b.name, b.entities));
+    out.pair(0, 'ENDSEC');
+
+    out.pair(0, 'SECTION');
+    out.pair(2, 'ENTITIES');
+    doc.entities.forEach(e => writeEntity(out, e, blockRecords.get('*Model_Space') ?? '0'));
+    out.pair(0, 'ENDSEC');
+
+    if (out.modern) {
+        // the root dictionary every R2000 drawing needs, with the (empty) group dictionary
+        out.pair(0, 'SECTION');
+        out.pair(2, 'OBJECTS');
+        out.pair(0, 'DICTIONARY');
+        const root = out.handle();
+        out.pair(330, '0');
+        out.pair(100, 'AcDbDictionary');
+        out.pair(3, 'ACAD_GROUP');
+        const groupAt = out.lines.length;
+        out.pair(350, '');
+        out.pair(0, 'DICTIONARY');
+        out.lines[groupAt + 1] = out.handle();
+        out.pair(330, root);
+        out.pair(100, 'AcDbDictionary');
+        out.pair(0, 'ENDSEC');
+    }
+    out.pair(0, 'EOF');
+
+    const head = dxfOutput(doc.version);
+    head.pair(999, 'DXF generated by Intelligent Architect');
+    head.pair(0, 'SECTION');
+    head.pair(2, 'HEADER');
+    head.pair(9, '$ACADVER');
+    head.pair(1, out.modern ? 'AC1015' : 'AC1009');
+    if (out.modern) {
+        head.pair(9, '$HANDSEED');
+        head.pair(5, out.handleSeed);
+    }
+    // R12 predates these variables; its readers skip them and later readers honour them
+    if (doc.units) {
+        head.pair(9, '$INSUNITS');
+        head.pair(70, doc.units.insunits);
+        head.pair(9, '$MEASUREMENT');
+        head.pair(70, doc.units.measurement);
+    }
+    head.pair(0, 'ENDSEC');
+    if (out.modern) {
+        head.pair(0, 'SECTION');
+        head.pair(2, 'CLASSES');
+        head.pair(0, 'ENDSEC');
+    }
+    return [...head.lines, ...out.lines].join('\n') + '\n';
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DxfDrawing, defaultWallThickness, dxfToPlan } from './dxfImport';
+
+// A survey-sized drawing: one closed outline with more points than fit in a call's arguments
+function bigDrawing(n: number): DxfDrawing {
+    const points = Array.from({ length: n }, (_, i) => {
+        const a = (i / n) * 2 * Math.PI;
+        return { x: 5000 + 4000 * Math.cos(a), y: 3000 + 2000 * Math.sin(a) };
+    });
+    return { insunits: 0, layers: ['A-AREA'], paths: [{ layer: 'A-AREA', points, closed: true, bulges: points.map(() => 0) }], inserts: [] };
+}
+
+describe('large drawings', () => {
+    const drawing = bigDrawing(200_000);
+
+    it('guesses a wall thickness from the extents', () => {
+        expect(defaultWallThickness(drawing)).toBeCloseTo(80);
+    });
+
+    it('scales the drawing into the plan', () => {
+        const plan = dxfToPlan(drawing, { 'A-AREA': 'rooms' }, 80);
+        expect(plan.rooms).toHaveLength(1);
+        expect(plan.dimensions.width).toBeCloseTo(1320);
+    });
+});
@@ -0,0 +1,365 @@
+// dxfImport.ts - reading DXF drawings (surveys, earlier exports) into an editable plan
+//
+// parseDxf flattens a drawing into paths on named layers: LINE, LWPOLYLINE, POLYLINE,
+// ARC and CIRCLE entities, with INSERTs expanded through their blocks. dxfToPlan then
+// turns the paths on each layer into walls, doors, windows or rooms as the user chose.
+import { add, addGraphWall, Arc, arcPointAt, emptyWallGraph, mul, perp, Point, pointsBounds, sub } from './geometry';
+import { ArchitecturalPlan, arcWall, normalizePlan, PlanOpening, PlanSymbol, syncWallGraph } from './plan';
+import { symbolLibrary } from './symbols';
+import { PlanScale } from './units';
+import { dxfBlockName } from './planDxf';
+
+// Drawing coordinates (y up). `bulges` curve the segment after each vertex as in DXF.
+// Paths expanded from the same top-level INSERT share its `insert` index.
+export type DxfPath = { layer: string; points: Point[]; closed: boolean; bulges: number[]; insert?: number };
+
+export type DxfInsert = { layer: string; block: string; at: Point; scaleX: number; scaleY: number; rotation: number };
+
+export type DxfDrawing = {
+    insunits: number; // $INSUNITS, 0 when the drawing doesn't say
+    layers: string[]; // layers that carry geometry, in first-use order
+    paths: DxfPath[];
+    inserts: DxfInsert[]; // top-level block references
+};
+
+export type DxfLayerRole = 'walls' | 'doors' | 'windows' | 'rooms' | 'furniture' | 'ignore';
+
+export const dxfLayerRoles: DxfLayerRole[] = ['walls', 'doors', 'windows', 'rooms', 'furniture', 'ignore'];
+
+type Pair = [number, string];
+type Entity = { type: string; pairs: Pair[] };
+type Block = { base: Point; entities: Entity[] };
+
+// Metres per drawing unit for the $INSUNITS codes a plan is likely to use
+const insunitsMetres: Record<number, number> = { 1: 0.0254, 2: 0.3048, 4: 0.001, 5: 0.01, 6: 1 };
+
+export const insunitsLabel = (code: number): string | null =>
+    ({ 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm' } as Record<number, string>)[code] ?? null;
+
+function readPairs(text: string): Pair[] {
+    const lines = text.split(/\r?\n/);
+    const pairs: Pair[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (!Number.isFinite(code)) throw new Error(`Not a DXF file (bad group code on line ${i + 1}).`);
+        pairs.push([code, lines[i + 1].trim()]);
+    }
+    return pairs;
+}
+
+const value = (e: Entity, code: number, fallback = 0) => {
+    const p = e.pairs.find(([c]) => c === code);
+    return p ? parseFloat(p[1]) : fallback;
+};
+const text = (e: Entity, code: number) => e.pairs.find(([c]) => c === code)?.[1] ?? '';
+
+// Arc of `sweep` radians from a to b, the inverse of a bulge (positive sweeps turn
+// counter-clockwise in the x/y frame the points are in).
+export function bulgeArc(a: Point, b: Point, bulge: number): Arc {
+    const sweep = 4 * Math.atan(bulge);
+    const d = sub(b, a);
+    const c = Math.hypot(d.x, d.y);
+    const center = add(mul(add(a, b), 0.5), mul(perp(d), 0.5 / Math.tan(sweep / 2)));
+    return { center, radius: Math.hypot(a.x - center.x, a.y - center.y), start: Math.atan2(a.y - center.y, a.x - center.x), sweep: c > 0 ? sweep : 0 };
+}
+
+// Points along a path with its bulged segments faceted; closed paths don't repeat the start.
+export function flattenPath(path: { points: Point[]; closed: boolean; bulges: number[] }): Point[] {
+    const out: Point[] = [];
+    const n = path.points.length;
+    path.points.forEach((p, i) => {
+        out.push(p);
+        const next = path.points[(i + 1) % n];
+        if ((i === n - 1 && !path.closed) || !path.bulges[i]) return;
+        const arc = bulgeArc(p, next, path.bulges[i]);
+        const steps = Math.max(2, Math.ceil(Math.abs(arc.sweep) / (Math.PI / 16)));
+        for (let k = 1; k < steps; k++) out.push(arcPointAt(arc, k / steps));
+    });
+    return out;
+}
+
+// Entities whose extrusion is (0, 0, -1) are drawn mirrored in x (AutoCAD does this for
+// mirrored 2D objects), which also reverses their arcs.
+const mirroredOcs = (e: Entity) => value(e, 230, 1) < 0;
+
+// One entity's paths in its own (block or world) coordinates; a POLYLINE's points come
+// from the VERTEX entities that follow it.
+function entityPaths(e: Entity, vertices: Entity[]): Omit<DxfPath, 'insert'>[] {
+    const layer = text(e, 8) || '0';
+    const fx = mirroredOcs(e) ? -1 : 1;
+    const at = (x: number, y: number): Point => ({ x: x * fx, y });
+    switch (e.type) {
+        case 'LINE':
+            return [{ layer, points: [at(value(e, 10), value(e, 20)), at(value(e, 11), value(e, 21))], closed: false, bulges: [0, 0] }];
+        case 'ARC':
+        case 'CIRCLE': {
+            const c = { x: value(e, 10), y: value(e, 20) }, r = value(e, 40);
+            if (e.type === 'CIRCLE') {
+                return [{ layer, points: [at(c.x + r, c.y), at(c.x - r, c.y)], closed: true, bulges: [fx, fx] }];
+            }
+            const a0 = (value(e, 50) * Math.PI) / 180, a1 = (value(e, 51) * Math.PI) / 180;
+            let sweep = a1 - a0;
+            while (sweep <= 0) sweep += 2 * Math.PI;
+            // a bulge can't describe a full turn, so long arcs are split in two
+            const parts = sweep > Math.PI ? 2 : 1;
+            const points = Array.from({ length: parts + 1 }, (_, i) => {
+                const a = a0 + (sweep * i) / parts;
+                return at(c.x + r * Math.cos(a), c.y + r * Math.sin(a));
+            });
+            return [{ layer, points, closed: false, bulges: [...Array(parts).fill(Math.tan(sweep / parts / 4) * fx), 0] }];
+        }
+        case 'LWPOLYLINE': {
+            const points: Point[] = [], bulges: number[] = [];
+            e.pairs.forEach(([c, v]) => {
+                if (c === 10) {
+                    points.push({ x: parseFloat(v), y: 0 });
+                    bulges.push(0);
+                } else if (c === 20 && points.length) {
+                    points[points.length - 1].y = parseFloat(v);
+                } else if (c === 42 && points.length) {
+                    bulges[bulges.length - 1] = parseFloat(v);
+                }
+            });
+            return [{ layer, points: points.map(p => at(p.x, p.y)), closed: (value(e, 70) & 1) === 1, bulges: bulges.map(b => b * fx) }];
+        }
+        case 'POLYLINE': {
+            const flags = value(e, 70);
+            if (flags & (16 | 64)) return []; // polygon and polyface meshes aren't plan geometry
+            // spline frame points (flag 16) are skipped; the fitted vertices are kept
+            const kept = vertices.filter(v => !(value(v, 70) & 16));
+            return [{
+                layer,
+                points: kept.map(v => at(value(v, 10), value(v, 20))),
+                closed: (flags & 1) === 1,
+                bulges: kept.map(v => value(v, 42) * fx),
+            }];
+        }
+    }
+    return [];
+}
+
+function readEntities(pairs: Pair[], from: number, until: (p: Pair) => boolean): { entities: Entity[]; end: number } {
+    const entities: Entity[] = [];
+    let i = from;
+    while (i < pairs.length && !until(pairs[i])) {
+        if (pairs[i][0] === 0) entities.push({ type: pairs[i][1], pairs: [] });
+        else entities[entities.length - 1]?.pairs.push(pairs[i]);
+        i++;
+    }
+    return { entities, end: i };
+}
+
+// Parse DXF text. Throws if the text isn't a DXF drawing.
+export function parseDxf(source: string): DxfDrawing {
+    const pairs = readPairs(source);
+    if (!pairs.some(([c, v]) => c === 0 && v === 'SECTION')) throw new Error('Not a DXF file (no sections).');
+
+    let insunits = 0;
+    const blocks = new Map<string, Block>();
+    let entities: Entity[] = [];
+    for (let i = 0; i < pairs.length; i++) {
+        if (pairs[i][0] !== 2 || pairs[i - 1]?.[1] !== 'SECTION') continue;
+        const section = pairs[i][1];
+        const isEnd = (p: Pair) => p[0] === 0 && p[1] === 'ENDSEC';
+        if (section === 'HEADER') {
+            const at = pairs.findIndex((p, j) => j > i && p[0] === 9 && p[1] === '$INSUNITS');
+            if (at > 0) insunits = parseInt(pairs[at + 1][1], 10) || 0;
+        } else if (section === 'BLOCKS') {
+            const read = readEntities(pairs, i + 1, isEnd);
+            let current: { name: string; block: Block } | null = null;
+            read.entities.forEach(e => {
+                if (e.type === 'BLOCK') {
+                    current = { name: text(e, 2), block: { base: { x: value(e, 10), y: value(e, 20) }, entities: [] } };
+                } else if (e.type === 'ENDBLK') {
+                    if (current) blocks.set(current.name, current.block);
+                    current = null;
+                } else {
+                    current?.block.entities.push(e);
+                }
+            });
+            i = read.end;
+        } else if (section === 'ENTITIES') {
+            const read = readEntities(pairs, i + 1, isEnd);
+            entities = read.entities;
+            i = read.end;
+        }
+    }
+
+    const paths: DxfPath[] = [];
+    const inserts: DxfInsert[] = [];
+    // Paths of a list of entities under a transform; entities on layer 0 inside a block
+    // take the layer of the INSERT that places them.
+    const expand = (list: Entity[], map: (p: Point) => Point, flip: boolean, layerOf: (l: string) => string, insert: number | undefined, depth: number) => {
+        for (let i = 0; i < list.length; i++) {
+            const e = list[i];
+            if (e.type === 'INSERT') {
+                const name = text(e, 2);
+                const ref: DxfInsert = {
+                    layer: layerOf(text(e, 8) || '0'),
+                    block: name,
+                    at: { x: value(e, 10), y: value(e, 20) },
+                    scaleX: value(e, 41, 1),
+                    scaleY: value(e, 42, 1),
+                    rotation: value(e, 50),
+                };
+                if (mirroredOcs(e)) ref.at.x = -ref.at.x;
+                let index = insert;
+                if (depth === 0) {
+                    index = inserts.length;
+                    inserts.push(ref);
+                }
+                const block = blocks.get(name);
+                if (!block || depth > 8) continue;
+                const rad = (ref.rotation * Math.PI) / 180, c = Math.cos(rad), s = Math.sin(rad);
+                const local = (p: Point): Point => {
+                    const x = (p.x - block.base.x) * ref.scaleX, y = (p.y - block.base.y) * ref.scaleY;
+                    return map({ x: ref.at.x + x * c - y * s, y: ref.at.y + x * s + y * c });
+                };
+                const inner = (l: string) => (l === '0' ? ref.layer : layerOf(l));
+                expand(block.entities, local, flip !== (ref.scaleX * ref.scaleY < 0), inner, index, depth + 1);
+                continue;
+            }
+            let vertices: Entity[] = [];
+            if (e.type === 'POLYLINE') {
+                let j = i + 1;
+                while (j < list.length && list[j].type === 'VERTEX') j++;
+                vertices = list.slice(i + 1, j);
+                i = list[j]?.type === 'SEQEND' ? j : j - 1;
+            }
+            entityPaths(e, vertices).forEach(p => {
+                if (p.points.length < 2) return;
+                paths.push({
+                    layer: layerOf(p.layer),
+                    points: p.points.map(map),
+                    closed: p.closed,
+                    bulges: flip ? p.bulges.map(b => -b) : p.bulges,
+                    insert,
+                });
+            });
+        }
+    };
+    expand(entities, p => p, false, l => l, undefined, 0);
+
+    const layers = Array.from(new Set([...paths.map(p => p.layer), ...inserts.map(r => r.layer)]));
+    return { insunits, layers, paths, inserts };
+}
+
+// Role for a layer from its name: our own export layers, common CAD layer standards
+// (A-WALL, A-DOOR, A-GLAZ, A-AREA) and a few non-English names.
+export function guessLayerRole(name: string): DxfLayerRole | null {
+    if (/wall|mur|wand|muro/i.test(name)) return 'walls';
+    if (/door|porte|tuer|tür|puerta/i.test(name)) return 'doors';
+    if (/window|wind|glaz|fenster|fenetre|fenêtre|ventana/i.test(name)) return 'windows';
+    if (/room|space|area|raum|piece|pièce/i.test(name)) return 'rooms';
+    if (/furn|fixt|equip|symbol|mobel|möbel|mobilier/i.test(name)) return 'furniture';
+    return null;
+}
+
+// Initial roles: guessed from the names, and if no layer looks like walls the
+// unrecognised layers are taken as walls so a drawing on layer 0 still imports.
+export function defaultLayerRoles(drawing: DxfDrawing): Record<string, DxfLayerRole> {
+    const guesses = drawing.layers.map(l => guessLayerRole(l));
+    const fallback: DxfLayerRole = guesses.includes('walls') ? 'ignore' : 'walls';
+    return Object.fromEntries(drawing.layers.map((l, i) => [l, guesses[i] ?? fallback]));
+}
+
+// Default wall thickness for open wall lines, in drawing units: 150 mm when the drawing
+// has units, otherwise a hundredth of its size.
+export function defaultWallThickness(drawing: DxfDrawing): number {
+    const metres = insunitsMetres[drawing.insunits];
+    if (metres) return 0.15 / metres;
+    const b = pointsBounds(drawing.paths.flatMap(p => p.points));
+    return b ? Math.max(b.x1 - b.x0, b.y1 - b.y0) / 100 : 1;
+}
+
+// Longest side of an imported plan in plan units, like a traced image of that size
+const IMPORT_SIZE = 1200;
+
+// Build a plan from the paths on the layers given a role:
+// - walls: closed outlines become wall polygons; open lines and arcs are centerlines
+//   that join the wall graph (`wallThickness` drawing units thick)
+// - doors/windows: each block reference is one opening (its outline); loose paths are one each
+// - rooms: closed outlines become unnamed rooms
+// - furniture: references to our own symbol blocks (see planDxf) become placed symbols
+// The drawing is scaled to about IMPORT_SIZE plan units, flipped to y-down, and calibrated
+// from $INSUNITS when it has one.
+export function dxfToPlan(drawing: DxfDrawing, roles: Record<string, DxfLayerRole>, wallThickness: number): ArchitecturalPlan {
+    const roleOf = (layer: string) => roles[layer] ?? 'ignore';
+    const paths = drawing.paths.filter(p => roleOf(p.layer) !== 'ignore' && roleOf(p.layer) !== 'furniture');
+    const symbolBlocks = new Map(symbolLibrary.map(s => [dxfBlockName(s.id), s.id]));
+    const symbolRefs = drawing.inserts.filter(r => symbolBlocks.has(r.block) && roleOf(r.layer) === 'furniture');
+
+    const extent = pointsBounds([...paths.flatMap(flattenPath), ...symbolRefs.map(r => r.at)]);
+    if (!extent) throw new Error('The chosen layers have no geometry to import.');
+    const { x0: minX, x1: maxX, y0: minY, y1: maxY } = extent;
+    const k = IMPORT_SIZE / Math.max(maxX - minX, maxY - minY, 1e-9);
+    const margin = IMPORT_SIZE * 0.05;
+    const toPlan = (p: Point): Point => ({ x: (p.x - minX) * k + margin, y: (maxY - p.y) * k + margin });
+    // flipping y reverses every bulge
+    const planPath = (p: DxfPath) => ({ points: p.points.map(toPlan), closed: p.closed, bulges: p.bulges.map(b => -b) });
+
+    const thickness = wallThickness * k;
+    let graph = emptyWallGraph();
+    const walls: ArchitecturalPlan['walls'] = [];
+    const rooms: ArchitecturalPlan['rooms'] = [];
+    paths.forEach(p => {
+        const path = planPath(p);
+        const role = roleOf(p.layer);
+        if (role === 'rooms' && path.closed) {
+            rooms.push({ name: '', type: '', boundary: flattenPath(path) });
+        } else if (role === 'walls' && path.closed) {
+            walls.push({ boundary: flattenPath(path) });
+        } else if (role === 'walls') {
+            path.points.slice(0, -1).forEach((a, i) => {
+                const b = path.points[i + 1];
+                if (!path.bulges[i]) graph = addGraphWall(graph, a, b, thickness, thickness / 2);
+                else walls.push(arcWall({ ...bulgeArc(a, b, path.bulges[i]), thickness }));
+            });
+        }
+    });
+
+    // openings: one per block reference, outlined by its rectangle in the block's own frame
+    const openings = (role: 'doors' | 'windows'): PlanOpening[] => {
+        const own = paths.filter(p => roleOf(p.layer) === role);
+        const loose = own.filter(p => p.insert == null).map(p => {
+            const pts = flattenPath(planPath(p));
+            return { boundary: p.closed ? [...pts, pts[0]] : pts };
+        });
+        const byInsert = new Map<number, Point[]>();
+        own.filter(p => p.insert != null).forEach(p => byInsert.set(p.insert!, [...(byInsert.get(p.insert!) ?? []), ...flattenPath(p)]));
+        const grouped = Array.from(byInsert, ([index, pts]) => {
+            const ref = drawing.inserts[index];
+            const rad = (ref.rotation * Math.PI) / 180, c = Math.cos(rad), s = Math.sin(rad);
+            const local = pts.map(q => ({ x: (q.x - ref.at.x) * c + (q.y - ref.at.y) * s, y: -(q.x - ref.at.x) * s + (q.y - ref.at.y) * c }));
+            const { x0, y0, x1, y1 } = pointsBounds(local)!;
+            const corners = [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }, { x: x0, y: y0 }];
+            return { boundary: corners.map(q => toPlan({ x: ref.at.x + q.x * c - q.y * s, y: ref.at.y + q.x * s + q.y * c })) };
+        });
+        return [...loose, ...grouped];
+    };
+
+    // our symbol blocks are 1 unit per metre, so the insert scale is drawing units per metre
+    const symbols: PlanSymbol[] = symbolRefs.map(r => ({
+        symbol: symbolBlocks.get(r.block)!,
+        at: toPlan(r.at),
+        rotation: -r.rotation,
+        scale: Math.abs(r.scaleX) * k,
+        ...(r.scaleX * r.scaleY < 0 ? { mirrored: true } : {}),
+    }));
+
+    const metres = insunitsMetres[drawing.insunits];
+    const scale: PlanScale | undefined = metres
+        ? { metersPerUnit: metres / k, units: drawing.insunits === 4 || drawing.insunits === 5 ? 'mm' : drawing.insunits === 6 ? 'm' : 'ft-in' }
+        : undefined;
+
+    const plan = normalizePlan({
+        walls,
+        doors: openings('doors'),
+        windows: openings('windows'),
+        rooms,
+        dimensions: { width: Math.ceil((maxX - minX) * k + 2 * margin), height: Math.ceil((maxY - minY) * k + 2 * margin) },
+        ...(symbols.length ? { symbols } : {}),
+        ...(scale ? { scale } : {}),
+    });
+    return syncWallGraph(plan, graph);
+}
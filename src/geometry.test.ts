@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, arcPointAt, arcThroughPoints, arcWallOutline, arcWallPolygon, createSpatialIndex, distanceToArc, emptyWallGraph, graphNode, labelPoint, Point, pickArcWall, pointInShape, polygonArea, rectPolygon, segmentCells, shapeArea, unionShapes, WallGraph, wallGraphToPolygons } from './geometry';
+
+const cellsOf = (a: Point, b: Point, size: number) => {
+    const out: string[] = [];
+    segmentCells(a, b, size, (cx, cy) => out.push(`${cx},${cy}`));
+    return out;
+};
+
+describe('segmentCells', () => {
+    it('visits only the cells a diagonal crosses', () => {
+        const cells = cellsOf({ x: 5, y: 5 }, { x: 995, y: 505 }, 10);
+        // a walk from cell (0,0) to (99,50) takes one step per cell boundary
+        expect(cells).toHaveLength(99 + 50 + 1);
+        expect(new Set(cells).size).toBe(cells.length);
+        expect(cells[0]).toBe('0,0');
+        expect(cells[cells.length - 1]).toBe('99,50');
+    });
+
+    it('turns at a cell corner the diagonal passes exactly through', () => {
+        expect(cellsOf({ x: 5, y: 5 }, { x: 25, y: 25 }, 10)).toEqual(['0,0', '0,1', '1,1', '1,2', '2,2']);
+        expect(cellsOf({ x: 25, y: 5 }, { x: 5, y: 25 }, 10)).toEqual(['2,0', '2,1', '1,1', '1,2', '0,2']);
+    });
+
+    it('puts a segment along a cell boundary in the cells after it', () => {
+        expect(cellsOf({ x: 0, y: 10 }, { x: 25, y: 10 }, 10)).toEqual(['0,1', '1,1', '2,1']);
+        expect(cellsOf({ x: 10, y: 25 }, { x: 10, y: 0 }, 10)).toEqual(['1,2', '1,1', '1,0']);
+    });
+
+    it('covers every cell along a small seeded sample of segments', () => {
+        let seed = 7;
+        const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 400 - 200;
+        const missed: string[] = [];
+        for (let n = 0; n < 20; n++) {
+            const a = { x: rand(), y: rand() }, b = { x: rand(), y: rand() };
+            const cells = new Set(cellsOf(a, b, 16));
+            for (let k = 0; k <= 100; k++) {
+                const p = { x: a.x + ((b.x - a.x) * k) / 100, y: a.y + ((b.y - a.y) * k) / 100 };
+                const cell = `${Math.floor(p.x / 16)},${Math.floor(p.y / 16)}`;
+                if (!cells.has(cell)) missed.push(cell);
+            }
+        }
+        expect(missed).toEqual([]);
+    });
+
+    it('handles axis-aligned and degenerate segments', () => {
+        expect(cellsOf({ x: 0, y: 5 }, { x: 35, y: 5 }, 10)).toEqual(['0,0', '1,0', '2,0', '3,0']);
+        expect(cellsOf({ x: 5, y: 35 }, { x: 5, y: 0 }, 10)).toEqual(['0,3', '0,2', '0,1', '0,0']);
+        expect(cellsOf({ x: 5, y: 5 }, { x: 5, y: 5 }, 10)).toEqual(['0,0']);
+    });
+});
+
+describe('createSpatialIndex', () => {
+    it('finds a long diagonal wall only near its line', () => {
+        const index = createSpatialIndex(10);
+        const wall = [{ x: 0, y: 0 }, { x: 1000, y: 1000 }, { x: 1000, y: 1010 }, { x: 0, y: 10 }];
+        index.update([wall]);
+        expect(index.nearbyEdges({ x: 500, y: 500 }, 2).map(h => h.edge)).toContain(0);
+        expect(index.nearbyEdges({ x: 800, y: 200 }, 2)).toEqual([]);
+        expect(index.pickWall({ x: 500, y: 505 }, 2)).toBe(0);
+    });
+});
+
+const walls = (lines: Array<[Point, Point]>, thickness = 10) =>
+    lines.reduce((g, [a, b]) => addGraphWall(g, a, b, thickness), emptyWallGraph());
+
+// Summed area of the wall polygons and the area of their union; equal when no two overlap.
+const areas = (g: WallGraph) => {
+    const polys = wallGraphToPolygons(g).map(w => w.boundary);
+    const union = unionShapes(polys.map(boundary => ({ boundary })));
+    return { sum: polys.reduce((t, p) => t + polygonArea(p), 0), union: union.reduce((t, s) => t + shapeArea(s), 0), pieces: union.length };
+};
+
+describe('addGraphWall', () => {
+    it('joins an end that lands on a wall with a T junction', () => {
+        const g = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 50, y: 4 }, { x: 50, y: 100 }]]);
+        expect(g.edges).toHaveLength(3);
+        const hub = g.nodes.find(n => g.edges.filter(e => e.a === n.id || e.b === n.id).length === 3)!;
+        expect(hub).toMatchObject({ x: 50, y: 0 });
+    });
+
+    it('splits both walls where they cross', () => {
+        const g = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 50, y: -50 }, { x: 50, y: 50 }]]);
+        expect(g.nodes).toHaveLength(5);
+        expect(g.edges).toHaveLength(4);
+        expect(g.edges.every(e => [e.a, e.b].some(id => graphNode(g, id)!.x === 50 && graphNode(g, id)!.y === 0))).toBe(true);
+    });
+
+    it('reuses an existing end instead of adding a node next to it', () => {
+        const g = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 103, y: 2 }, { x: 100, y: 100 }]]);
+        expect(g.nodes).toHaveLength(3);
+    });
+});
+
+describe('wallGraphToPolygons', () => {
+    it('miters an L corner without a gap or an overlap', () => {
+        const g = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 100, y: 0 }, { x: 100, y: 100 }]]);
+        const { sum, union, pieces } = areas(g);
+        expect(pieces).toBe(1);
+        expect(union).toBeCloseTo(sum, 6);
+        expect(sum).toBeCloseTo(200 * 10, 6);
+        const [first] = wallGraphToPolygons(g);
+        expect(first.boundary).toContainEqual({ x: 105, y: -5 });
+        expect(first.boundary).toContainEqual({ x: 95, y: 5 });
+    });
+
+    it('meets at T and X junctions without overlapping', () => {
+        const t = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 50, y: 0 }, { x: 50, y: 100 }]]);
+        const x = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }], [{ x: 50, y: -50 }, { x: 50, y: 50 }]]);
+        for (const g of [t, x]) {
+            const { sum, union, pieces } = areas(g);
+            expect(pieces).toBe(1);
+            expect(union).toBeCloseTo(sum, 6);
+        }
+        expect(areas(t).sum).toBeCloseTo(100 * 10 + 95 * 10, 6);
+        expect(areas(x).sum).toBeCloseTo(100 * 10 + 90 * 10, 6);
+    });
+
+    it('uses the wall thickness on each side of the centreline', () => {
+        const g = walls([[{ x: 0, y: 0 }, { x: 100, y: 0 }]], 20);
+        const [w] = wallGraphToPolygons(g);
+        expect(polygonArea(w.boundary)).toBeCloseTo(100 * 20, 6);
+        expect(Math.min(...w.boundary.map(p => p.y))).toBeCloseTo(-10, 6);
+        expect(Math.max(...w.boundary.map(p => p.y))).toBeCloseTo(10, 6);
+    });
+});
+
+describe('arcThroughPoints', () => {
+    it('finds the circle through three points and sweeps through the middle one', () => {
+        const arc = arcThroughPoints({ x: 100, y: 0 }, { x: 0, y: 100 }, { x: -100, y: 0 })!;
+        expect(arc.center.x).toBeCloseTo(0, 9);
+        expect(arc.center.y).toBeCloseTo(0, 9);
+        expect(arc.radius).toBeCloseTo(100, 9);
+        expect(arc.sweep).toBeCloseTo(Math.PI, 9);
+        const mid = arcPointAt(arc, 0.5);
+        expect(mid.x).toBeCloseTo(0, 9);
+        expect(mid.y).toBeCloseTo(100, 9);
+
+        // the same ends through the other side turn the other way
+        const other = arcThroughPoints({ x: 100, y: 0 }, { x: 0, y: -100 }, { x: -100, y: 0 })!;
+        expect(other.sweep).toBeCloseTo(-Math.PI, 9);
+    });
+
+    it('returns null for collinear points', () => {
+        expect(arcThroughPoints({ x: 0, y: 0 }, { x: 50, y: 50 }, { x: 100, y: 100 })).toBeNull();
+    });
+});
+
+describe('arc walls', () => {
+    const wall = { center: { x: 0, y: 0 }, radius: 100, start: 0, sweep: Math.PI / 2, thickness: 10 };
+
+    it('facets the wall within a quarter unit of the true arc', () => {
+        const poly = arcWallPolygon(wall);
+        expect(polygonArea(poly)).toBeCloseTo((Math.PI / 4) * (105 ** 2 - 95 ** 2), -1);
+        for (const p of poly) {
+            const r = Math.hypot(p.x, p.y);
+            expect(Math.min(Math.abs(r - 105), Math.abs(r - 95))).toBeLessThan(1e-9);
+        }
+    });
+
+    it('describes the outline as four corners with DXF bulges', () => {
+        const { points, bulges } = arcWallOutline(wall);
+        expect(points.map(p => [Math.round(p.x), Math.round(p.y)])).toEqual([[105, 0], [0, 105], [0, 95], [95, 0]]);
+        expect(bulges).toEqual([Math.tan(Math.PI / 8), 0, -Math.tan(Math.PI / 8), 0]);
+    });
+
+    it('measures distance to the arc, not the whole circle', () => {
+        expect(distanceToArc({ x: 0, y: 120 }, wall)).toBeCloseTo(20, 9);
+        expect(distanceToArc({ x: -100, y: 0 }, wall)).toBeCloseTo(Math.hypot(100, 100), 9);
+    });
+
+    it('picks the arc wall under the pointer', () => {
+        const other = { ...wall, radius: 200 };
+        expect(pickArcWall([undefined, wall, other], { x: 70.7, y: 70.7 })).toBe(1);
+        expect(pickArcWall([undefined, wall, other], { x: 0, y: 196 })).toBe(2);
+        expect(pickArcWall([undefined, wall, other], { x: -100, y: 0 })).toBe(-1);
+    });
+});
+
+describe('labelPoint', () => {
+    it('uses the centroid of a plain room', () => {
+        expect(labelPoint({ boundary: rectPolygon({ x: 0, y: 0 }, { x: 400, y: 200 }) })).toEqual({ x: 200, y: 100 });
+    });
+
+    it('stays inside rooms whose centroid is not', () => {
+        // a U whose centroid falls in the notch, and a ring whose centroid falls in its hole
+        const u = { boundary: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 300 }, { x: 300, y: 300 }, { x: 300, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 400 }, { x: 0, y: 400 }] };
+        const ring = { boundary: rectPolygon({ x: 0, y: 0 }, { x: 400, y: 400 }), holes: [rectPolygon({ x: 50, y: 50 }, { x: 350, y: 350 })] };
+        for (const room of [u, ring]) {
+            expect(pointInShape(labelPoint(room), room)).toBe(true);
+        }
+    });
+});
@@ -1,5 +1,6 @@
 
 // geometry.ts - lightweight geometry helpers for wall editing
+import pc from 'polygon-clipping';
 
 export type Point = { x: number; y: number };
 export type Polygon = Point[];
@@ -114,3 +115,871 @@ export function pickVertex(poly: Polygon, pt: Point, tol = 8): number {
   }
   return bestD2 <= tol*tol ? best : -1;
 }
+
+// ---- Centerline wall graph ----
+// Walls are edges between shared nodes; polygons are derived with mitered junctions,
+// so connected walls never overlap or leave gaps at L, T and X corners.
+
+export type WallNode = { id: number; x: number; y: number };
+export type WallEdge = { id: number; a: number; b: number; thickness: number };
+export type WallGraph = { nodes: WallNode[]; edges: WallEdge[]; nextId: number };
+
+export const emptyWallGraph = (): WallGraph => ({ nodes: [], edges: [], nextId: 1 });
+
+export const len = (v: Point) => Math.sqrt(dot(v, v));
+export const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+export function normalize(v: Point): Point {
+  const l = len(v) || 1e-12;
+  return { x: v.x / l, y: v.y / l };
+}
+
+// Intersection of two infinite lines p + s*u and q + t*v; null when parallel.
+export function lineIntersection(p: Point, u: Point, q: Point, v: Point): Point | null {
+  const d = cross(u, v);
+  if (Math.abs(d) < 1e-9) return null;
+  const s = cross(sub(q, p), v) / d;
+  return add(p, mul(u, s));
+}
+
+export function graphNode(g: WallGraph, id: number): WallNode | undefined {
+  return g.nodes.find(n => n.id === id);
+}
+
+export function pickGraphNode(g: WallGraph, pt: Point, tol = 8): number {
+  let best = -1, bestD2 = tol * tol;
+  for (const n of g.nodes) {
+    const d2 = dist2(n, pt);
+    if (d2 <= bestD2) { bestD2 = d2; best = n.id; }
+  }
+  return best;
+}
+
+function addNode(g: WallGraph, p: Point): { graph: WallGraph; id: number } {
+  const id = g.nextId;
+  return { graph: { ...g, nodes: g.nodes.concat([{ id, x: p.x, y: p.y }]), nextId: id + 1 }, id };
+}
+
+function addEdge(g: WallGraph, a: number, b: number, thickness: number): WallGraph {
+  if (a === b) return g;
+  if (g.edges.some(e => (e.a === a && e.b === b) || (e.a === b && e.b === a))) return g;
+  const id = g.nextId;
+  return { ...g, edges: g.edges.concat([{ id, a, b, thickness }]), nextId: id + 1 };
+}
+
+// Insert a node at p on an edge, replacing it with two edges of the same thickness.
+export function splitGraphEdge(g: WallGraph, edgeId: number, p: Point): { graph: WallGraph; node: number } {
+  const edge = g.edges.find(e => e.id === edgeId);
+  if (!edge) return { graph: g, node: -1 };
+  const { graph: withNode, id } = addNode(g, p);
+  let next: WallGraph = { ...withNode, edges: withNode.edges.filter(e => e.id !== edgeId) };
+  next = addEdge(next, edge.a, id, edge.thickness);
+  next = addEdge(next, id, edge.b, edge.thickness);
+  return { graph: next, node: id };
+}
+
+// Reuse a node within tol, else split an edge passing within tol (T junction), else create a node.
+function resolveNode(g: WallGraph, p: Point, tol: number): { graph: WallGraph; id: number } {
+  const existing = pickGraphNode(g, p, tol);
+  if (existing >= 0) return { graph: g, id: existing };
+  let bestEdge = -1, bestD2 = tol * tol, bestQ = p;
+  for (const e of g.edges) {
+    const a = graphNode(g, e.a)!, b = graphNode(g, e.b)!;
+    const { q, t } = nearestPointOnSegment(p, a, b);
+    if (t <= 0 || t >= 1) continue;
+    const d2 = dist2(p, q);
+    if (d2 <= bestD2) { bestD2 = d2; bestEdge = e.id; bestQ = q; }
+  }
+  if (bestEdge >= 0) {
+    const { graph, node } = splitGraphEdge(g, bestEdge, bestQ);
+    return { graph, id: node };
+  }
+  return addNode(g, p);
+}
+
+// Add a wall between p1 and p2. Endpoints snap to nearby nodes or edges, and existing
+// walls crossed along the way are split so every junction shares a node.
+export function addGraphWall(g: WallGraph, p1: Point, p2: Point, thickness: number, tol = 8): WallGraph {
+  if (dist(p1, p2) <= tol) return g;
+  let { graph, id: a } = resolveNode(g, p1, tol);
+  const r = resolveNode(graph, p2, tol);
+  graph = r.graph;
+  const b = r.id;
+  if (a === b) return graph;
+
+  const pa = graphNode(graph, a)!, pb = graphNode(graph, b)!;
+  const crossings: Array<{ t: number; edge: number; p: Point }> = [];
+  for (const e of graph.edges) {
+    if (e.a === a || e.b === a || e.a === b || e.b === b) continue;
+    const ea = graphNode(graph, e.a)!, eb = graphNode(graph, e.b)!;
+    const hit = segmentIntersection(pa, pb, ea, eb);
+    if (hit.hit && hit.p && hit.ta! > 1e-6 && hit.ta! < 1 - 1e-6) {
+      crossings.push({ t: hit.ta!, edge: e.id, p: hit.p });
+    }
+  }
+  crossings.sort((m, n) => m.t - n.t);
+
+  const chain = [a];
+  for (const c of crossings) {
+    const near = pickGraphNode(graph, c.p, 1e-6);
+    if (near >= 0) { chain.push(near); continue; }
+    const split = splitGraphEdge(graph, c.edge, c.p);
+    graph = split.graph;
+    chain.push(split.node);
+  }
+  chain.push(b);
+  for (let i = 0; i + 1 < chain.length; i++) {
+    graph = addEdge(graph, chain[i], chain[i + 1], thickness);
+  }
+  return graph;
+}
+
+// Add walls as a separate piece of the graph: their ends join each other within tol, but
+// never snap to or split existing walls (pasted copies stay apart from the originals).
+// Returns the ids of the new edges, in the order of `lines`.
+export function addGraphPiece(g: WallGraph, lines: Array<{ a: Point; b: Point; thickness: number }>, tol = 0.5): { graph: WallGraph; edges: number[] } {
+  let graph = g;
+  const own: WallNode[] = [];
+  const node = (p: Point) => {
+    const near = own.find(n => dist2(n, p) <= tol * tol);
+    if (near) return near.id;
+    const added = addNode(graph, p);
+    graph = added.graph;
+    own.push(graphNode(graph, added.id)!);
+    return added.id;
+  };
+  const edges: number[] = [];
+  for (const l of lines) {
+    if (dist(l.a, l.b) <= tol) continue;
+    const a = node(l.a), b = node(l.b);
+    const before = graph.nextId;
+    graph = addEdge(graph, a, b, l.thickness);
+    if (graph.nextId !== before) edges.push(before);
+  }
+  return { graph, edges };
+}
+
+// Fold node `drop` into `keep`, rewiring its walls; walls that would collapse are removed.
+export function mergeGraphNodes(g: WallGraph, keep: number, drop: number): WallGraph {
+  if (keep === drop) return g;
+  const edges = g.edges.filter(e => e.a !== drop && e.b !== drop);
+  for (const e of g.edges) {
+    if (e.a !== drop && e.b !== drop) continue;
+    const a = e.a === drop ? keep : e.a, b = e.b === drop ? keep : e.b;
+    if (a === b || edges.some(x => (x.a === a && x.b === b) || (x.a === b && x.b === a))) continue;
+    edges.push({ ...e, a, b });
+  }
+  return { ...g, nodes: g.nodes.filter(n => n.id !== drop), edges };
+}
+
+export function moveGraphNode(g: WallGraph, id: number, p: Point): WallGraph {
+  return { ...g, nodes: g.nodes.map(n => (n.id === id ? { id, x: p.x, y: p.y } : n)) };
+}
+
+export function setGraphEdgeThickness(g: WallGraph, edgeId: number, thickness: number): WallGraph {
+  return { ...g, edges: g.edges.map(e => (e.id === edgeId ? { ...e, thickness } : e)) };
+}
+
+// Give an edge a new length and direction by moving its b node; `angle` is in degrees,
+// counter-clockwise on screen (plan y points down). Walls meeting at b follow it.
+export function setGraphEdgeVector(g: WallGraph, edgeId: number, length: number, angle: number): WallGraph {
+  const edge = g.edges.find(e => e.id === edgeId);
+  const a = edge && graphNode(g, edge.a);
+  if (!edge || !a) return g;
+  const rad = (angle * Math.PI) / 180;
+  return moveGraphNode(g, edge.b, { x: a.x + length * Math.cos(rad), y: a.y - length * Math.sin(rad) });
+}
+
+// Remove a wall and any nodes it leaves unconnected.
+export function removeGraphEdge(g: WallGraph, edgeId: number): WallGraph {
+  const edges = g.edges.filter(e => e.id !== edgeId);
+  const used = new Set<number>();
+  edges.forEach(e => { used.add(e.a); used.add(e.b); });
+  return { ...g, edges, nodes: g.nodes.filter(n => used.has(n.id)) };
+}
+
+// Miter corners of every edge end, keyed by `${edgeId}:${nodeId}`. "left" is on the
+// perp() side of the edge direction pointing away from the node.
+function junctionCorners(g: WallGraph, miterLimit: number) {
+  const corners = new Map<string, { left: Point; right: Point; hub: boolean }>();
+  for (const n of g.nodes) {
+    const incident = g.edges
+      .filter(e => e.a === n.id || e.b === n.id)
+      .map(e => {
+        const other = graphNode(g, e.a === n.id ? e.b : e.a)!;
+        const u = normalize(sub(other, n));
+        return { e, u, h: e.thickness / 2, angle: Math.atan2(u.y, u.x) };
+      })
+      .sort((m, k) => m.angle - k.angle);
+    const k = incident.length;
+    if (!k) continue;
+    const left: Point[] = [];
+    for (let i = 0; i < k; i++) {
+      const cur = incident[i], nxt = incident[(i + 1) % k];
+      const fallback = add(n, mul(perp(cur.u), cur.h));
+      if (k === 1) { left.push(fallback); continue; }
+      const c = lineIntersection(
+        add(n, mul(perp(cur.u), cur.h)), cur.u,
+        sub(n, mul(perp(nxt.u), nxt.h)), nxt.u,
+      );
+      const limit = miterLimit * Math.max(cur.h, nxt.h);
+      left.push(c && dist(c, n) <= limit ? c : fallback);
+    }
+    for (let i = 0; i < k; i++) {
+      const cur = incident[i];
+      const right = k === 1 ? sub(n, mul(perp(cur.u), cur.h)) : left[(i - 1 + k) % k];
+      corners.set(`${cur.e.id}:${n.id}`, { left: left[i], right, hub: k >= 3 });
+    }
+  }
+  return corners;
+}
+
+// Derive one wall polygon per edge, with mitered L/T/X junctions.
+export function wallGraphToPolygons(g: WallGraph, miterLimit = 4): Array<{ edge: number; boundary: Polygon }> {
+  const corners = junctionCorners(g, miterLimit);
+  const out: Array<{ edge: number; boundary: Polygon }> = [];
+  for (const e of g.edges) {
+    const a = graphNode(g, e.a), b = graphNode(g, e.b);
+    const ca = corners.get(`${e.id}:${e.a}`), cb = corners.get(`${e.id}:${e.b}`);
+    if (!a || !b || !ca || !cb) continue;
+    const boundary: Polygon = [ca.right];
+    if (ca.hub) boundary.push({ x: a.x, y: a.y });
+    boundary.push(ca.left, cb.right);
+    if (cb.hub) boundary.push({ x: b.x, y: b.y });
+    boundary.push(cb.left);
+    out.push({ edge: e.id, boundary });
+  }
+  return out;
+}
+
+// Recover a centerline from a wall-like quad (two parallel sides). Returns null for
+// shapes that are not a single straight wall.
+export function wallCenterline(poly: Polygon, angleTol = 0.1): { p1: Point; p2: Point; thickness: number } | null {
+  const pts = poly.length > 1 && dist2(poly[0], poly[poly.length - 1]) < 1e-9 ? poly.slice(0, -1) : poly;
+  if (pts.length !== 4) return null;
+  let best: { p1: Point; p2: Point; thickness: number } | null = null;
+  for (const o of [0, 1]) {
+    const s1a = pts[o], s1b = pts[o + 1], s2a = pts[o + 2], s2b = pts[(o + 3) % 4];
+    const u1 = normalize(sub(s1b, s1a)), u2 = normalize(sub(s2a, s2b));
+    if (Math.abs(cross(u1, u2)) > Math.sin(angleTol) || dot(u1, u2) < 0) continue;
+    const p1 = mul(add(s2b, s1a), 0.5);
+    const p2 = mul(add(s1b, s2a), 0.5);
+    const thickness = Math.abs(cross(u1, sub(s2a, s1a)));
+    if (thickness < 1e-6) continue;
+    if (!best || dist(p1, p2) > dist(best.p1, best.p2)) best = { p1, p2, thickness };
+  }
+  return best;
+}
+
+// Build a graph from wall polygons. Wall-like quads become centerline edges joined at
+// shared nodes; `converted` lists which input polygons were absorbed.
+export function wallGraphFromPolygons(polys: Polygon[], tol = 8, base: WallGraph = emptyWallGraph()): { graph: WallGraph; converted: number[] } {
+  let graph = base;
+  const converted: number[] = [];
+  const lines = polys.map(wallCenterline);
+  lines.forEach((c, i) => {
+    if (!c) return;
+    const next = addGraphWall(graph, c.p1, c.p2, c.thickness, Math.max(tol, c.thickness));
+    if (next !== graph) converted.push(i);
+    graph = next;
+  });
+  return { graph: pruneGraphStubs(graph), converted };
+}
+
+// Drop dangling stubs no longer than their own thickness, left over from butt-jointed traces.
+export function pruneGraphStubs(g: WallGraph): WallGraph {
+  let graph = g;
+  for (;;) {
+    const degree = new Map<number, number>();
+    graph.edges.forEach(e => {
+      degree.set(e.a, (degree.get(e.a) ?? 0) + 1);
+      degree.set(e.b, (degree.get(e.b) ?? 0) + 1);
+    });
+    const stub = graph.edges.find(e => {
+      const da = degree.get(e.a)!, db = degree.get(e.b)!;
+      if (!((da === 1) !== (db === 1))) return false;
+      return dist(graphNode(graph, e.a)!, graphNode(graph, e.b)!) <= e.thickness;
+    });
+    if (!stub) return graph;
+    graph = removeGraphEdge(graph, stub.id);
+  }
+}
+
+// ---- Boolean operations (polygon-clipping) ----
+// A shape is an outer boundary plus optional holes, matching `walls[]` entries.
+
+export type Shape = { boundary: Polygon; holes?: Polygon[] };
+
+const toRing = (poly: Polygon): pc.Ring => poly.map(p => [p.x, p.y] as pc.Pair);
+const toGeom = (s: Shape): pc.Polygon => [toRing(s.boundary), ...(s.holes ?? []).map(toRing)];
+
+// polygon-clipping returns closed rings (first == last); the plan stores them open
+function fromRing(ring: pc.Ring): Polygon {
+  const pts = ring.map(([x, y]) => ({ x, y }));
+  if (pts.length > 1 && dist2(pts[0], pts[pts.length - 1]) < 1e-12) pts.pop();
+  return pts;
+}
+
+function fromMulti(mp: pc.MultiPolygon): Shape[] {
+  const out: Shape[] = [];
+  for (const [outer, ...inner] of mp) {
+    const boundary = fromRing(outer);
+    if (boundary.length < 3) continue;
+    const holes = inner.map(fromRing).filter(h => h.length >= 3);
+    out.push(holes.length ? { boundary, holes } : { boundary });
+  }
+  return out;
+}
+
+// Bounding box of any number of points (a loop, so huge drawings don't overflow the
+// stack the way Math.min(...points) does); null when there are none.
+export function pointsBounds(points: Iterable<Point>): { x0: number; y0: number; x1: number; y1: number } | null {
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (const p of points) {
+    if (p.x < x0) x0 = p.x;
+    if (p.x > x1) x1 = p.x;
+    if (p.y < y0) y0 = p.y;
+    if (p.y > y1) y1 = p.y;
+  }
+  return x0 <= x1 ? { x0, y0, x1, y1 } : null;
+}
+
+export function rectPolygon(a: Point, b: Point): Polygon {
+  const x0 = Math.min(a.x, b.x), x1 = Math.max(a.x, b.x);
+  const y0 = Math.min(a.y, b.y), y1 = Math.max(a.y, b.y);
+  return [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+}
+
+export function pointInShape(pt: Point, s: Shape): boolean {
+  return pointInPolygon(pt, s.boundary) && !(s.holes ?? []).some(h => pointInPolygon(pt, h));
+}
+
+export function shapesOverlap(a: Shape, b: Shape): boolean {
+  return pc.intersection(toGeom(a), toGeom(b)).length > 0;
+}
+
+// Union of all shapes; disjoint pieces come back as separate shapes.
+export function unionShapes(shapes: Shape[]): Shape[] {
+  if (!shapes.length) return [];
+  const [first, ...rest] = shapes.map(toGeom);
+  return fromMulti(pc.union(first, ...rest));
+}
+
+// Subtract `cut` from a shape; may split it into several shapes or open a hole.
+export function subtractShape(s: Shape, cut: Shape): Shape[] {
+  return fromMulti(pc.difference(toGeom(s), toGeom(cut)));
+}
+
+// SVG path data for a shape, to be drawn with fill-rule="evenodd" so holes stay open.
+export function shapePathData(s: Shape): string {
+  const ring = (poly: Polygon) => `M${poly.map(p => `${p.x},${p.y}`).join('L')}Z`;
+  return [s.boundary, ...(s.holes ?? [])].map(ring).join(' ');
+}
+
+// ---- Measurement ----
+
+export function polygonSignedArea(poly: Polygon): number {
+  let a = 0;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    a += poly[j].x * poly[i].y - poly[i].x * poly[j].y;
+  }
+  return a / 2;
+}
+
+export const polygonArea = (poly: Polygon) => Math.abs(polygonSignedArea(poly));
+
+export function polygonPerimeter(poly: Polygon, closed = true): number {
+  let total = 0;
+  const n = closed ? poly.length : poly.length - 1;
+  for (let i = 0; i < n; i++) total += dist(poly[i], poly[(i + 1) % poly.length]);
+  return total;
+}
+
+export const shapeArea = (s: Shape) => polygonArea(s.boundary) - (s.holes ?? []).reduce((t, h) => t + polygonArea(h), 0);
+
+// A point guaranteed to lie inside the shape, for labels. Uses the centroid when it is
+// inside, else the widest horizontal span through the middle rows.
+export function labelPoint(s: Shape): Point {
+  const poly = s.boundary;
+  const a = polygonSignedArea(poly);
+  if (Math.abs(a) > 1e-9) {
+    let cx = 0, cy = 0;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+      const f = poly[j].x * poly[i].y - poly[i].x * poly[j].y;
+      cx += (poly[j].x + poly[i].x) * f;
+      cy += (poly[j].y + poly[i].y) * f;
+    }
+    const c = { x: cx / (6 * a), y: cy / (6 * a) };
+    if (pointInShape(c, s)) return c;
+  }
+  const { y0, y1 } = pointsBounds(poly) ?? { y0: 0, y1: 0 };
+  let best: Point = poly[0], bestW = -1;
+  for (let k = 1; k < 8; k++) {
+    const y = y0 + ((y1 - y0) * k) / 8;
+    const xs: number[] = [];
+    for (const ring of [poly, ...(s.holes ?? [])]) {
+      for (const [p, q] of edgesOf(ring)) {
+        if ((p.y > y) !== (q.y > y)) xs.push(p.x + ((y - p.y) * (q.x - p.x)) / (q.y - p.y));
+      }
+    }
+    xs.sort((m, n) => m - n);
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      if (xs[i + 1] - xs[i] > bestW) { bestW = xs[i + 1] - xs[i]; best = { x: (xs[i] + xs[i + 1]) / 2, y }; }
+    }
+  }
+  return best;
+}
+
+// ---- Room detection ----
+
+export type EnclosedSpace = Shape & { area: number; perimeter: number };
+
+// Find the regions fully enclosed by obstacles (walls) inside the plan bounds. The
+// region connected to the plan border is the exterior and is dropped.
+export function findEnclosedSpaces(obstacles: Shape[], bounds: { width: number; height: number }, minArea = 0): EnclosedSpace[] {
+  if (!obstacles.length) return [];
+  const pad = 1;
+  const frame = rectPolygon({ x: -pad, y: -pad }, { x: bounds.width + pad, y: bounds.height + pad });
+  const onFrame = (p: Point) =>
+    Math.abs(p.x + pad) < 1e-6 || Math.abs(p.y + pad) < 1e-6 ||
+    Math.abs(p.x - bounds.width - pad) < 1e-6 || Math.abs(p.y - bounds.height - pad) < 1e-6;
+  const free = fromMulti(pc.difference(toGeom({ boundary: frame }), ...obstacles.map(toGeom)));
+  return free
+    .filter(s => !s.boundary.some(onFrame))
+    .map(s => ({ ...s, area: shapeArea(s), perimeter: polygonPerimeter(s.boundary) }))
+    .filter(s => s.area >= minArea);
+}
+
+// ---- Spatial index ----
+// Uniform grid over wall edges so hover/selection only test edges near the pointer.
+// Entries are keyed by polygon identity: plan edits are immutable, so `update` only
+// re-indexes the polygons that actually changed.
+
+type IndexEntry = { poly: Polygon; minX: number; minY: number; maxX: number; maxY: number; cells: number[] };
+
+// Grid cells the segment a-b passes through, walked cell to cell (Amanatides & Woo), so a
+// long diagonal edge only lands in the cells it crosses, not its whole bounding box.
+export function segmentCells(a: Point, b: Point, size: number, visit: (cx: number, cy: number) => void) {
+  let cx = Math.floor(a.x / size), cy = Math.floor(a.y / size);
+  const ex = Math.floor(b.x / size), ey = Math.floor(b.y / size);
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const sx = Math.sign(dx), sy = Math.sign(dy);
+  // distance along a-b (0..1) to the next cell boundary in x and y, and across one cell
+  let tx = sx ? ((sx > 0 ? cx + 1 : cx) * size - a.x) / dx : Infinity;
+  let ty = sy ? ((sy > 0 ? cy + 1 : cy) * size - a.y) / dy : Infinity;
+  const stepX = sx ? size / Math.abs(dx) : Infinity, stepY = sy ? size / Math.abs(dy) : Infinity;
+  visit(cx, cy);
+  for (let n = Math.abs(ex - cx) + Math.abs(ey - cy); n > 0; n--) {
+    if (tx < ty) { cx += sx; tx += stepX; } else { cy += sy; ty += stepY; }
+    visit(cx, cy);
+  }
+  // rounding at cell corners can leave the walk one cell short of b
+  if (cx !== ex || cy !== ey) visit(ex, ey);
+}
+
+export function createSpatialIndex(cellSize = 32) {
+  const cells = new Map<number, Array<{ entry: IndexEntry; edge: number }>>();
+  const entries = new Map<Polygon, IndexEntry>();
+  let order = new Map<Polygon, number>();
+
+  const cellKey = (cx: number, cy: number) => cx * 73856093 ^ cy * 19349663;
+  const cellOf = (v: number) => Math.floor(v / cellSize);
+
+  function insert(poly: Polygon) {
+    const entry: IndexEntry = { poly, minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity, cells: [] };
+    const touched = new Set<number>();
+    for (let i = 0; i < poly.length; i++) {
+      const a = poly[i], b = poly[(i + 1) % poly.length];
+      entry.minX = Math.min(entry.minX, a.x); entry.maxX = Math.max(entry.maxX, a.x);
+      entry.minY = Math.min(entry.minY, a.y); entry.maxY = Math.max(entry.maxY, a.y);
+      segmentCells(a, b, cellSize, (cx, cy) => {
+        const k = cellKey(cx, cy);
+        let bucket = cells.get(k);
+        if (!bucket) cells.set(k, (bucket = []));
+        bucket.push({ entry, edge: i });
+        touched.add(k);
+      });
+    }
+    entry.cells = Array.from(touched);
+    entries.set(poly, entry);
+  }
+
+  function remove(entry: IndexEntry) {
+    for (const k of entry.cells) {
+      const bucket = cells.get(k);
+      if (!bucket) continue;
+      const kept = bucket.filter(item => item.entry !== entry);
+      if (kept.length) cells.set(k, kept); else cells.delete(k);
+    }
+    entries.delete(entry.poly);
+  }
+
+  // Sync the index with the current polygon list.
+  function update(polys: Polygon[]) {
+    order = new Map(polys.map((p, i) => [p, i]));
+    for (const entry of Array.from(entries.values())) {
+      if (!order.has(entry.poly)) remove(entry);
+    }
+    for (const p of polys) {
+      if (!entries.has(p)) insert(p);
+    }
+  }
+
+  // Edges (polygon index, edge index) with a cell within `tol` of pt.
+  function nearbyEdges(pt: Point, tol: number) {
+    const out: Array<{ wall: number; poly: Polygon; edge: number }> = [];
+    const seen = new Set<string>();
+    for (let cx = cellOf(pt.x - tol); cx <= cellOf(pt.x + tol); cx++) {
+      for (let cy = cellOf(pt.y - tol); cy <= cellOf(pt.y + tol); cy++) {
+        for (const { entry, edge } of cells.get(cellKey(cx, cy)) ?? []) {
+          const wall = order.get(entry.poly);
+          if (wall == null) continue;
+          const id = `${wall}:${edge}`;
+          if (seen.has(id)) continue;
+          seen.add(id);
+          out.push({ wall, poly: entry.poly, edge });
+        }
+      }
+    }
+    return out;
+  }
+
+  // Same contract as pickWall(): inside wins (lowest index), else nearest edge within tol.
+  function pickWallIndexed(pt: Point, tol = 8): number {
+    let inside = -1;
+    entries.forEach(e => {
+      if (pt.x < e.minX || pt.x > e.maxX || pt.y < e.minY || pt.y > e.maxY) return;
+      const wall = order.get(e.poly)!;
+      if ((inside < 0 || wall < inside) && pointInPolygon(pt, e.poly)) inside = wall;
+    });
+    if (inside >= 0) return inside;
+    let best = -1, bestD2 = tol * tol;
+    for (const { wall, poly, edge } of nearbyEdges(pt, tol)) {
+      const { q } = nearestPointOnSegment(pt, poly[edge], poly[(edge + 1) % poly.length]);
+      const d2 = dist2(pt, q);
+      if (d2 < bestD2 || (d2 === bestD2 && wall < best)) { bestD2 = d2; best = wall; }
+    }
+    return best;
+  }
+
+  // Same contract as pickVertex(), restricted to one indexed polygon.
+  function pickVertexIndexed(wall: number, pt: Point, tol = 8): number {
+    let best = -1, bestD2 = tol * tol;
+    for (const { wall: w, poly, edge } of nearbyEdges(pt, tol)) {
+      if (w !== wall) continue;
+      for (const vi of [edge, (edge + 1) % poly.length]) {
+        const d2 = dist2(poly[vi], pt);
+        if (d2 <= bestD2) { bestD2 = d2; best = vi; }
+      }
+    }
+    return best;
+  }
+
+  return { update, pickWall: pickWallIndexed, pickVertex: pickVertexIndexed, nearbyEdges };
+}
+
+export type SpatialIndex = ReturnType<typeof createSpatialIndex>;
+
+// ---- Object snapping ----
+
+export type Segment = [Point, Point];
+export type SnapKind = 'endpoint' | 'midpoint' | 'intersection' | 'perpendicular' | 'parallel' | 'angle' | 'grid';
+export type SnapResult = { point: Point; kind: SnapKind | null; guides: Segment[] };
+
+// Angle between two segments' lines in degrees, 0..90 (the supplement is 180 minus it).
+export function angleBetweenSegments([a1, a2]: Segment, [b1, b2]: Segment): number {
+  const u = normalize(sub(a2, a1)), v = normalize(sub(b2, b1));
+  return (Math.acos(Math.min(1, Math.abs(dot(u, v)))) * 180) / Math.PI;
+}
+
+export type SnapOptions = {
+  segments: Segment[];   // candidate geometry near the pointer
+  points?: Point[];      // extra endpoint candidates (e.g. wall graph nodes)
+  from?: Point;          // anchor of the segment being drawn; enables perpendicular/parallel/angle
+  tol: number;
+  angleStep?: number;    // degrees; when set (Shift held) the direction from `from` is constrained
+  grid?: number;         // grid fallback when no object snap applies
+};
+
+// Point on segment [a,b] where the infinite line p + t*u crosses it, with t.
+export function raySegmentHit(p: Point, u: Point, a: Point, b: Point): { q: Point; t: number } | null {
+  const q = lineIntersection(p, u, a, sub(b, a));
+  if (!q) return null;
+  const { t: s } = nearestPointOnSegment(q, a, b);
+  if (dist2(q, add(a, mul(sub(b, a), s))) > 1e-6) return null;
+  return { q, t: dot(sub(q, p), u) };
+}
+
+// Resolve the snapped position for pt. Priority: endpoint, intersection, midpoint,
+// perpendicular, parallel, grid. With `angleStep` the result stays on the constrained
+// ray from `from`, snapping only to where that ray crosses nearby geometry.
+export function snapPoint(pt: Point, o: SnapOptions): SnapResult {
+  const tol2 = o.tol * o.tol;
+  const segs = o.segments;
+
+  if (o.from && o.angleStep) {
+    const step = (o.angleStep * Math.PI) / 180;
+    const v = sub(pt, o.from);
+    const ang = Math.round(Math.atan2(v.y, v.x) / step) * step;
+    const u = { x: Math.cos(ang), y: Math.sin(ang) };
+    const q = add(o.from, mul(u, Math.max(0, dot(v, u))));
+    let best: Point | null = null, bestD2 = tol2;
+    for (const [a, b] of segs) {
+      const hit = raySegmentHit(o.from, u, a, b);
+      if (!hit || hit.t <= 1e-6) continue;
+      const d2 = dist2(hit.q, q);
+      if (d2 <= bestD2) { bestD2 = d2; best = hit.q; }
+    }
+    if (best) return { point: best, kind: 'intersection', guides: [[o.from, best]] };
+    return { point: q, kind: 'angle', guides: [[o.from, q]] };
+  }
+
+  const nearest = (cands: Point[]) => {
+    let best: Point | null = null, bestD2 = tol2;
+    for (const c of cands) {
+      const d2 = dist2(c, pt);
+      if (d2 <= bestD2) { bestD2 = d2; best = c; }
+    }
+    return best;
+  };
+
+  const end = nearest([...(o.points ?? []), ...segs.flatMap(([a, b]) => [a, b])]);
+  if (end) return { point: end, kind: 'endpoint', guides: [] };
+
+  const crossings: Point[] = [];
+  const pairs = segs.slice(0, 64);
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = i + 1; j < pairs.length; j++) {
+      const hit = segmentIntersection(pairs[i][0], pairs[i][1], pairs[j][0], pairs[j][1]);
+      if (hit.hit && hit.p) crossings.push(hit.p);
+    }
+  }
+  const ix = nearest(crossings);
+  if (ix) return { point: ix, kind: 'intersection', guides: [] };
+
+  const mid = nearest(segs.map(([a, b]) => mul(add(a, b), 0.5)));
+  if (mid) return { point: mid, kind: 'midpoint', guides: [] };
+
+  if (o.from) {
+    const from = o.from;
+    let foot: { q: Point; seg: Segment } | null = null, bestD2 = tol2;
+    for (const seg of segs) {
+      const [a, b] = seg;
+      const ab = sub(b, a);
+      const t = dot(sub(from, a), ab) / (dot(ab, ab) || 1e-12);
+      if (t < 0 || t > 1) continue;
+      const q = add(a, mul(ab, t));
+      const d2 = dist2(q, pt);
+      if (d2 <= bestD2 && dist2(q, from) > 1e-6) { bestD2 = d2; foot = { q, seg }; }
+    }
+    if (foot) return { point: foot.q, kind: 'perpendicular', guides: [[from, foot.q], foot.seg] };
+
+    const v = sub(pt, from);
+    const maxSin = Math.sin((2 * Math.PI) / 180);
+    for (const seg of segs) {
+      const u = normalize(sub(seg[1], seg[0]));
+      const along = dot(v, u);
+      if (Math.abs(cross(normalize(v), u)) > maxSin || Math.abs(along) < o.tol) continue;
+      const q = add(from, mul(u, along));
+      if (dist2(q, pt) <= tol2) return { point: q, kind: 'parallel', guides: [[from, q], seg] };
+    }
+  }
+
+  if (o.grid) return { point: snapToGrid(pt, o.grid), kind: 'grid', guides: [] };
+  return { point: pt, kind: null, guides: [] };
+}
+
+// ---- Trace cleanup ----
+// AI wall traces are jagged, near-orthogonal rings with redundant vertices and a repeated
+// closing vertex; these passes turn them into clean polygons.
+
+export type CleanupOptions = {
+  simplifyTol: number;   // Douglas–Peucker tolerance (plan units)
+  orthoAngle: number;    // edges within this many degrees of horizontal/vertical are straightened
+  collinearTol: number;  // vertices closer than this to the line through their neighbours are dropped
+};
+
+export const defaultCleanupOptions: CleanupOptions = { simplifyTol: 2, orthoAngle: 5, collinearTol: 1 };
+
+// Drop the closing vertex (first == last) and any repeated consecutive vertices.
+export function removeDuplicateVertices(poly: Polygon, eps = 1e-6): Polygon {
+  const out: Polygon = [];
+  for (const p of poly) {
+    if (!out.length || dist2(out[out.length - 1], p) > eps * eps) out.push(p);
+  }
+  while (out.length > 1 && dist2(out[0], out[out.length - 1]) <= eps * eps) out.pop();
+  return out;
+}
+
+function pointLineDistance(p: Point, a: Point, b: Point): number {
+  const ab = sub(b, a);
+  const l = len(ab);
+  return l < 1e-12 ? dist(p, a) : Math.abs(cross(ab, sub(p, a))) / l;
+}
+
+function simplifyChain(pts: Polygon, tol: number): Polygon {
+  if (pts.length < 3) return pts;
+  let maxD = -1, idx = 0;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const d = pointLineDistance(pts[i], pts[0], pts[pts.length - 1]);
+    if (d > maxD) { maxD = d; idx = i; }
+  }
+  if (maxD <= tol) return [pts[0], pts[pts.length - 1]];
+  const left = simplifyChain(pts.slice(0, idx + 1), tol);
+  return left.slice(0, -1).concat(simplifyChain(pts.slice(idx), tol));
+}
+
+// Douglas–Peucker on a closed ring: split at vertex 0 and the vertex farthest from it.
+export function simplifyPolygon(poly: Polygon, tol: number): Polygon {
+  if (poly.length < 4 || tol <= 0) return poly;
+  let far = 0, farD = -1;
+  for (let i = 1; i < poly.length; i++) {
+    const d = dist2(poly[0], poly[i]);
+    if (d > farD) { farD = d; far = i; }
+  }
+  const a = simplifyChain(poly.slice(0, far + 1), tol);
+  const b = simplifyChain(poly.slice(far).concat([poly[0]]), tol);
+  return a.slice(0, -1).concat(b.slice(0, -1));
+}
+
+// Straighten edges within `angleTol` degrees of horizontal/vertical. Each such edge is
+// moved onto its mean axis-aligned line and vertices are re-solved from their two edges.
+export function rectifyOrthogonal(poly: Polygon, angleTol: number): Polygon {
+  const n = poly.length;
+  if (n < 3 || angleTol <= 0) return poly;
+  const tan = Math.tan((angleTol * Math.PI) / 180);
+  const kind = poly.map((a, i) => {
+    const b = poly[(i + 1) % n];
+    const dx = Math.abs(b.x - a.x), dy = Math.abs(b.y - a.y);
+    if (dy <= dx * tan) return { axis: 'h' as const, at: (a.y + b.y) / 2 };
+    if (dx <= dy * tan) return { axis: 'v' as const, at: (a.x + b.x) / 2 };
+    return null;
+  });
+  return poly.map((p, i) => {
+    const before = kind[(i - 1 + n) % n], after = kind[i];
+    let { x, y } = p;
+    const hs = [before, after].filter(k => k?.axis === 'h').map(k => k!.at);
+    const vs = [before, after].filter(k => k?.axis === 'v').map(k => k!.at);
+    if (hs.length) y = hs.reduce((t, v) => t + v, 0) / hs.length;
+    if (vs.length) x = vs.reduce((t, v) => t + v, 0) / vs.length;
+    return { x, y };
+  });
+}
+
+// Remove vertices lying (within tol) on the line through their neighbours.
+export function mergeCollinear(poly: Polygon, tol: number): Polygon {
+  let pts = poly;
+  let changed = true;
+  while (changed && pts.length > 3) {
+    changed = false;
+    for (let i = 0; i < pts.length && pts.length > 3; i++) {
+      const prev = pts[(i - 1 + pts.length) % pts.length], next = pts[(i + 1) % pts.length];
+      if (pointLineDistance(pts[i], prev, next) <= tol && dot(sub(pts[i], prev), sub(next, pts[i])) >= 0) {
+        pts = pts.slice(0, i).concat(pts.slice(i + 1));
+        changed = true;
+        i--;
+      }
+    }
+  }
+  return pts;
+}
+
+// Full pipeline; returns null when nothing polygonal is left.
+export function cleanupPolygon(poly: Polygon, o: CleanupOptions = defaultCleanupOptions): Polygon | null {
+  let pts = removeDuplicateVertices(poly);
+  pts = simplifyPolygon(pts, o.simplifyTol);
+  pts = rectifyOrthogonal(pts, o.orthoAngle);
+  pts = removeDuplicateVertices(pts);
+  pts = mergeCollinear(pts, o.collinearTol);
+  return pts.length >= 3 && polygonArea(pts) > 1e-6 ? pts : null;
+}
+
+// ---- Arcs ----
+// Angles are in radians in plan coordinates (y down), so a positive sweep runs clockwise
+// on screen; SVG's sweep-flag follows the same convention.
+
+export type Arc = { center: Point; radius: number; start: number; sweep: number };
+
+// A curved wall: its centerline arc plus thickness.
+export type ArcWall = Arc & { thickness: number };
+
+const TAU = Math.PI * 2;
+const wrapAngle = (a: number) => ((a % TAU) + TAU) % TAU;
+
+// Circle arc from `a` to `b` passing through `m`; null when the points are collinear.
+export function arcThroughPoints(a: Point, m: Point, b: Point): Arc | null {
+  const d = 2 * (a.x * (m.y - b.y) + m.x * (b.y - a.y) + b.x * (a.y - m.y));
+  if (Math.abs(d) < 1e-9) return null;
+  const a2 = a.x * a.x + a.y * a.y, m2 = m.x * m.x + m.y * m.y, b2 = b.x * b.x + b.y * b.y;
+  const center = {
+    x: (a2 * (m.y - b.y) + m2 * (b.y - a.y) + b2 * (a.y - m.y)) / d,
+    y: (a2 * (b.x - m.x) + m2 * (a.x - b.x) + b2 * (m.x - a.x)) / d,
+  };
+  const angleOf = (p: Point) => Math.atan2(p.y - center.y, p.x - center.x);
+  const start = angleOf(a);
+  const span = wrapAngle(angleOf(b) - start);
+  const sweep = wrapAngle(angleOf(m) - start) < span ? span : span - TAU;
+  return { center, radius: dist(center, a), start, sweep };
+}
+
+export function arcPointAt(arc: Arc, t: number, radius = arc.radius): Point {
+  const ang = arc.start + arc.sweep * t;
+  return { x: arc.center.x + radius * Math.cos(ang), y: arc.center.y + radius * Math.sin(ang) };
+}
+
+export function translateArc<T extends Arc>(arc: T, d: Point): T {
+  return { ...arc, center: add(arc.center, d) };
+}
+
+// Points along the arc, spaced so the chord deviates at most `maxDeviation` from it.
+export function arcPolyline(arc: Arc, maxDeviation = 0.25, radius = arc.radius): Polygon {
+  const step = radius > maxDeviation ? 2 * Math.acos(1 - maxDeviation / radius) : Math.PI / 8;
+  const n = Math.min(256, Math.max(2, Math.ceil(Math.abs(arc.sweep) / step)));
+  return Array.from({ length: n + 1 }, (_, i) => arcPointAt(arc, i / n, radius));
+}
+
+// Distance from p to the arc itself (not the full circle).
+export function distanceToArc(p: Point, arc: Arc): number {
+  const along = wrapAngle(Math.atan2(p.y - arc.center.y, p.x - arc.center.x) - arc.start);
+  const within = arc.sweep >= 0 ? along <= arc.sweep : along === 0 || along >= TAU + arc.sweep;
+  if (within) return Math.abs(dist(p, arc.center) - arc.radius);
+  return Math.min(dist(p, arcPointAt(arc, 0)), dist(p, arcPointAt(arc, 1)));
+}
+
+// Faceted outline of an arc wall, for booleans, room detection and the spatial index.
+export function arcWallPolygon(w: ArcWall): Polygon {
+  const outer = arcPolyline(w, 0.25, w.radius + w.thickness / 2);
+  const inner = arcPolyline(w, 0.25, Math.max(w.radius - w.thickness / 2, 1e-6));
+  return outer.concat(inner.reverse());
+}
+
+// Outline corners with DXF-style bulges (tan(sweep / 4)) for each following segment:
+// outer arc, radial end cap, inner arc back, radial start cap.
+export function arcWallOutline(w: ArcWall): { points: Polygon; bulges: number[] } {
+  const ro = w.radius + w.thickness / 2, ri = Math.max(w.radius - w.thickness / 2, 1e-6);
+  const b = Math.tan(w.sweep / 4);
+  return {
+    points: [arcPointAt(w, 0, ro), arcPointAt(w, 1, ro), arcPointAt(w, 1, ri), arcPointAt(w, 0, ri)],
+    bulges: [b, 0, -b, 0],
+  };
+}
+
+// SVG path data for an arc wall using true `A` commands.
+export function arcWallPathData(w: ArcWall): string {
+  const ro = w.radius + w.thickness / 2, ri = Math.max(w.radius - w.thickness / 2, 1e-6);
+  const [os, oe, ie, is] = arcWallOutline(w).points;
+  const large = Math.abs(w.sweep) > Math.PI ? 1 : 0;
+  const cw = w.sweep > 0 ? 1 : 0;
+  return `M${os.x},${os.y}A${ro},${ro} 0 ${large} ${cw} ${oe.x},${oe.y}L${ie.x},${ie.y}A${ri},${ri} 0 ${large} ${1 - cw} ${is.x},${is.y}Z`;
+}
+
+// Arc counterpart of pickWall(): index of the arc wall whose body lies within tol of pt.
+export function pickArcWall(arcs: Array<ArcWall | undefined>, pt: Point, tol = 8): number {
+  let best = -1, bestD = Infinity;
+  arcs.forEach((w, i) => {
+    if (!w) return;
+    const d = Math.max(0, distanceToArc(pt, w) - w.thickness / 2);
+    if (d <= tol && d < bestD) { bestD = d; best = i; }
+  });
+  return best;
+}
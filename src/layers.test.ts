@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { aciColor, defaultLayers, dxfLayer, isPickable, layerIds, updateLayer } from './layers';
+import { planDxf } from './planDxf';
+
+describe('layers', () => {
+    it('updates one layer without touching the others', () => {
+        const layers = updateLayer(defaultLayers, 'walls', { locked: true });
+        expect(layers.walls).toEqual({ ...defaultLayers.walls, locked: true });
+        expect(layers.doors).toBe(defaultLayers.doors);
+        expect(defaultLayers.walls.locked).toBe(false);
+    });
+
+    it('only lets visible, unlocked layers be picked', () => {
+        expect(isPickable(defaultLayers, 'walls')).toBe(true);
+        expect(isPickable(updateLayer(defaultLayers, 'walls', { visible: false }), 'walls')).toBe(false);
+        expect(isPickable(updateLayer(defaultLayers, 'walls', { locked: true }), 'walls')).toBe(false);
+        // the render underlay is locked from the start
+        expect(isPickable(defaultLayers, 'render')).toBe(false);
+    });
+
+    it('maps colours to the nearest standard AutoCAD colour', () => {
+        expect(aciColor('#ff0000')).toBe(1);
+        expect(aciColor('#ff1111')).toBe(1);
+        expect(aciColor('#00ffff')).toBe(4);
+        expect(aciColor('#ffffff')).toBe(7);
+        expect(aciColor('#8a8a8a')).toBe(8);
+    });
+
+    it('writes hidden and locked layers off and locked in DXF', () => {
+        expect(dxfLayer('walls', defaultLayers.walls)).toEqual({ name: 'WALLS', color: 1, off: false, locked: false });
+        expect(dxfLayer('doors', { ...defaultLayers.doors, visible: false, locked: true })).toEqual({ name: 'DOORS', color: 2, off: true, locked: true });
+    });
+
+    it('writes every plan layer to the DXF layer table with its state', () => {
+        const plan = { walls: [], doors: [], windows: [], rooms: [], dimensions: { width: 100, height: 100 } };
+        const lines = planDxf(plan, updateLayer(defaultLayers, 'rooms', { visible: false })).trimEnd().split('\n');
+        const pairs: Array<[number, string]> = [];
+        for (let i = 0; i + 1 < lines.length; i += 2) pairs.push([parseInt(lines[i], 10), lines[i + 1].trim()]);
+        // name (2) and colour (62) of each LAYER record
+        const table = pairs.flatMap(([code, value], i) => {
+            if (code !== 0 || value !== 'LAYER') return [];
+            const end = pairs.findIndex(([c], j) => j > i && c === 0);
+            const group = (g: number) => pairs.slice(i + 1, end).find(([c]) => c === g)?.[1];
+            return [[group(2), Number(group(62))] as const];
+        });
+        expect(table.map(([name]) => name)).toEqual(['0', ...layerIds.map(id => id.toUpperCase())]);
+        expect(table.find(([name]) => name === 'ROOMS')![1]).toBeLessThan(0);
+        expect(table.find(([name]) => name === 'WALLS')![1]).toBe(1);
+    });
+});
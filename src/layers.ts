@@ -0,0 +1,65 @@
+// layers.ts - drawing layers with visibility, locking and colour, shared by the editor
+// overlay and the DXF/SVG exports (one DXF layer and one SVG group per layer)
+import { DxfLayer } from './dxf';
+
+export type LayerId = 'walls' | 'doors' | 'windows' | 'rooms' | 'furniture' | 'dimensions' | 'annotations' | 'render';
+
+// `opacity` only applies to the render layer, the background image under the plan.
+export type LayerSettings = { visible: boolean; locked: boolean; color: string; opacity?: number };
+
+export type PlanLayers = Record<LayerId, LayerSettings>;
+
+// Drawing order, bottom to top
+export const layerIds: LayerId[] = ['render', 'rooms', 'furniture', 'walls', 'windows', 'doors', 'dimensions', 'annotations'];
+
+export const layerLabels: Record<LayerId, string> = {
+    walls: 'Walls',
+    doors: 'Doors',
+    windows: 'Windows',
+    rooms: 'Rooms',
+    furniture: 'Furniture',
+    dimensions: 'Dimensions',
+    annotations: 'Annotations',
+    render: 'Render',
+};
+
+export const defaultLayers: PlanLayers = {
+    render: { visible: true, locked: true, color: '#ffffff', opacity: 1 },
+    rooms: { visible: true, locked: false, color: '#22c55e' },
+    furniture: { visible: true, locked: false, color: '#c084fc' },
+    walls: { visible: true, locked: false, color: '#ff1111' },
+    windows: { visible: true, locked: false, color: '#00ffff' },
+    doors: { visible: true, locked: false, color: '#ffff00' },
+    dimensions: { visible: true, locked: false, color: '#e5e7eb' },
+    annotations: { visible: true, locked: false, color: '#ffffff' },
+};
+
+export const updateLayer = (layers: PlanLayers, id: LayerId, patch: Partial<LayerSettings>): PlanLayers =>
+    ({ ...layers, [id]: { ...layers[id], ...patch } });
+
+// Hidden and locked layers can't be picked for editing.
+export const isPickable = (layers: PlanLayers, id: LayerId) => layers[id].visible && !layers[id].locked;
+
+export const dxfLayerName = (id: LayerId) => id.toUpperCase();
+
+// The standard AutoCAD colours 1-9, which every DXF reader agrees on
+const aciColors: Array<[number, number, number]> = [
+    [255, 0, 0], [255, 255, 0], [0, 255, 0], [0, 255, 255], [0, 0, 255],
+    [255, 0, 255], [255, 255, 255], [128, 128, 128], [192, 192, 192],
+];
+
+// Nearest AutoCAD colour index for a #rrggbb colour.
+export function aciColor(hex: string): number {
+    const n = parseInt(hex.replace('#', ''), 16);
+    const r = (n >> 16) & 255, g = (n >> 8) & 255, b = n & 255;
+    let best = 7, bestD = Infinity;
+    aciColors.forEach(([cr, cg, cb], i) => {
+        const d = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+        if (d < bestD) { bestD = d; best = i + 1; }
+    });
+    return best;
+}
+
+// DXF layer for an editor layer: off layers are written off, locked ones locked.
+export const dxfLayer = (id: LayerId, layer: LayerSettings): DxfLayer =>
+    ({ name: dxfLayerName(id), color: aciColor(layer.color), off: !layer.visible, locked: layer.locked });
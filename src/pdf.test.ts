@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { pdfContent, pdfDocument } from './pdf';
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+// Cross-reference table of a PDF: startxref, the trailer and each object's byte offset
+function readXref(text: string) {
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)![1]);
+    const table = text.slice(startxref);
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(table)!;
+    const rows = table.split('\n').slice(2, 2 + Number(count));
+    const trailer = /trailer\n<<(.*)>>/.exec(table)![1];
+    return { startxref, first: Number(first), rows, trailer };
+}
+
+describe('pdfDocument', () => {
+    const content = pdfContent();
+    content.rect(10, 10, 100, 50);
+    content.paint('S');
+    // a fake JPEG with bytes that are not text, including ones that look like line ends
+    const jpeg = Uint8Array.from([0xff, 0xd8, 0x0a, 0x0d, 0x80, 0xe9, 0x00, 0xff, 0xd9]);
+    const pages = [
+        { width: 595, height: 842, content: content.toString(), images: [{ jpeg, width: 1, height: 1 }], opacities: [0.5] },
+        { width: 842, height: 595, content: '' },
+    ];
+    const bytes = pdfDocument(pages, { title: 'Plan (ground floor)', created: new Date(2026, 0, 2, 3, 4, 5) });
+    const text = latin1(bytes);
+
+    it('starts with a PDF 1.4 header and ends at %%EOF', () => {
+        expect(text.startsWith('%PDF-1.4\n%')).toBe(true);
+        expect(text.endsWith('%%EOF\n')).toBe(true);
+    });
+
+    it('points startxref and every xref row at the right byte', () => {
+        const { startxref, first, rows, trailer } = readXref(text);
+        expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+        expect(first).toBe(0);
+        expect(rows[0]).toBe('0000000000 65535 f ');
+        rows.slice(1).forEach((row, i) => {
+            expect(row).toMatch(/^\d{10} 00000 n $/);
+            const at = Number(row.slice(0, 10));
+            expect(text.slice(at, at + `${i + 1} 0 obj\n`.length)).toBe(`${i + 1} 0 obj\n`);
+        });
+        expect(trailer).toContain(`/Size ${rows.length}`);
+    });
+
+    it('writes streams with their exact byte length', () => {
+        const image = text.indexOf('/Subtype /Image');
+        const length = Number(/\/Length (\d+)/.exec(text.slice(image))![1]);
+        const start = text.indexOf('stream\n', image) + 'stream\n'.length;
+        expect(length).toBe(jpeg.length);
+        expect(text.slice(start + length, start + length + 10)).toBe('\nendstream');
+        expect(Array.from(bytes.slice(start, start + length))).toEqual(Array.from(jpeg));
+    });
+
+    it('lists the pages in order with their sizes and resources', () => {
+        expect(text).toMatch(/\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R\] \/Count 2/);
+        const boxes = [...text.matchAll(/\/MediaBox \[0 0 (\S+) (\S+)\]/g)].map(m => [Number(m[1]), Number(m[2])]);
+        expect(boxes).toEqual([[595, 842], [842, 595]]);
+        expect(text).toMatch(/\/XObject << \/Im0 \d+ 0 R >>/);
+        expect(text).toContain('/GS0 << /Type /ExtGState /ca 0.5 /CA 0.5 >>');
+        expect(text).toContain('/Title (Plan \\(ground floor\\))');
+        expect(text).toContain('/CreationDate (D:20260102030405)');
+    });
+});
@@ -0,0 +1,164 @@
+// pdf.ts - minimal PDF 1.4 writer: vector pages drawn with the standard Helvetica fonts,
+// JPEG images and constant-alpha graphics states, plus document metadata. Coordinates
+// are PDF points (1/72 in) with y up.
+
+export type Rgb = [number, number, number]; // 0..1
+
+export type PdfImage = { jpeg: Uint8Array; width: number; height: number };
+
+// `images` are drawn by index with content.image(); `opacities` are referenced by index
+// with content.opacity().
+export type PdfPage = { width: number; height: number; content: string; images?: PdfImage[]; opacities?: number[] };
+
+export type PdfInfo = { title?: string; author?: string; subject?: string; keywords?: string; created?: Date };
+
+export const MM = 72 / 25.4; // points per millimetre
+
+const num = (v: number) => String(Math.round(v * 1000) / 1000);
+
+// PDF string literal in WinAnsi (Latin-1 for the characters plans use, like ² and °);
+// anything outside it becomes "?".
+function pdfString(text: string): string {
+    let out = '(';
+    for (const ch of text) {
+        const code = ch.charCodeAt(0);
+        if (ch.length > 1 || code > 255) out += '?';
+        else if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+        else if (code < 32 || code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+        else out += ch;
+    }
+    return out + ')';
+}
+
+// Rough Helvetica advance width (em) for centring text without embedding font metrics
+export const textWidth = (text: string, size: number, bold = false) => text.length * size * (bold ? 0.58 : 0.53);
+
+// Content stream for one page. Each call appends operators; `toString` returns the stream.
+export function pdfContent() {
+    const ops: string[] = [];
+    const op = (...parts: Array<string | number>) => { ops.push(parts.map(p => (typeof p === 'number' ? num(p) : p)).join(' ')); };
+    const content = {
+        save: () => op('q'),
+        restore: () => op('Q'),
+        lineWidth: (w: number) => op(w, 'w'),
+        dash: (pattern: number[] = []) => op(`[${pattern.map(num).join(' ')}]`, 0, 'd'),
+        lineJoin: (j: 0 | 1 | 2) => op(j, 'j'),
+        stroke: (c: Rgb) => op(...c, 'RG'),
+        fill: (c: Rgb) => op(...c, 'rg'),
+        opacity: (index: number) => op(`/GS${index}`, 'gs'),
+        moveTo: (x: number, y: number) => op(x, y, 'm'),
+        lineTo: (x: number, y: number) => op(x, y, 'l'),
+        curveTo: (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => op(x1, y1, x2, y2, x, y, 'c'),
+        rect: (x: number, y: number, w: number, h: number) => op(x, y, w, h, 're'),
+        close: () => op('h'),
+        // paint the current path: S stroke, f fill (nonzero), f* fill (even-odd), B/B* both
+        paint: (mode: 'S' | 'f' | 'f*' | 'B' | 'B*' | 'n') => op(mode),
+        clip: () => op('W n'),
+        polyline(points: Array<{ x: number; y: number }>, closed: boolean) {
+            points.forEach((p, i) => (i ? content.lineTo(p.x, p.y) : content.moveTo(p.x, p.y)));
+            if (closed) content.close();
+        },
+        // `rotation` in degrees counter-clockwise; `align` positions the text around x
+        text(x: number, y: number, size: number, text: string, { bold = false, rotation = 0, align = 'left' }: { bold?: boolean; rotation?: number; align?: 'left' | 'center' | 'right' } = {}) {
+            const shift = align === 'left' ? 0 : textWidth(text, size, bold) * (align === 'center' ? 0.5 : 1);
+            const rad = (rotation * Math.PI) / 180, c = Math.cos(rad), s = Math.sin(rad);
+            op('BT', `/${bold ? 'F2' : 'F1'}`, size, 'Tf', c, s, -s, c, x - shift * c, y - shift * s, 'Tm', pdfString(text), 'Tj', 'ET');
+        },
+        image: (index: number, x: number, y: number, w: number, h: number) => {
+            op('q', w, 0, 0, h, x, y, 'cm', `/Im${index}`, 'Do', 'Q');
+        },
+        toString: () => ops.join('\n'),
+    };
+    return content;
+}
+
+export type PdfContent = ReturnType<typeof pdfContent>;
+
+const latin1 = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0) & 255);
+
+const pdfDate = (d: Date) => {
+    const p = (n: number) => String(n).padStart(2, '0');
+    return `D:${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}`;
+};
+
+export function pdfDocument(pages: PdfPage[], info: PdfInfo = {}): Uint8Array {
+    // objects are numbered as they are reserved; bodies may be filled in later
+    const bodies: Array<Array<string | Uint8Array>> = [];
+    const reserve = () => bodies.push([]);
+    const set = (id: number, ...parts: Array<string | Uint8Array>) => { bodies[id - 1] = parts; };
+
+    const catalog = reserve(), pageTree = reserve(), font = reserve(), bold = reserve(), infoId = reserve();
+    set(font, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    set(bold, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const pageIds = pages.map(page => {
+        const images = (page.images ?? []).map(img => {
+            const id = reserve();
+            set(id,
+                `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.jpeg.length} >>\nstream\n`,
+                img.jpeg,
+                '\nendstream');
+            return id;
+        });
+        const stream = reserve();
+        set(stream, `<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`);
+        const xobjects = images.map((id, i) => `/Im${i} ${id} 0 R`).join(' ');
+        const states = (page.opacities ?? []).map((a, i) => `/GS${i} << /Type /ExtGState /ca ${num(a)} /CA ${num(a)} >>`).join(' ');
+        const id = reserve();
+        set(id, `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+            `/Resources << /Font << /F1 ${font} 0 R /F2 ${bold} 0 R >> /XObject << ${xobjects} >> /ExtGState << ${states} >> >> ` +
+            `/Contents ${stream} 0 R >>`);
+        return id;
+    });
+    set(pageTree, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    set(catalog, `<< /Type /Catalog /Pages ${pageTree} 0 R >>`);
+    const entries: Array<[string, string | undefined]> = [
+        ['Title', info.title], ['Author', info.author], ['Subject', info.subject], ['Keywords', info.keywords],
+        ['Creator', 'Intelligent Architect'], ['Producer', 'Intelligent Architect'], ['CreationDate', pdfDate(info.created ?? new Date())],
+    ];
+    set(infoId, `<< ${entries.filter(([, v]) => v).map(([k, v]) => `/${k} ${pdfString(v!)}`).join(' ')} >>`);
+
+    // header with a binary comment so transfer tools treat the file as binary
+    const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    bodies.forEach((parts, i) => {
+        offsets.push(offset);
+        [`${i + 1} 0 obj\n`, ...parts, '\nendobj\n'].forEach(part => {
+            const bytes = typeof part === 'string' ? latin1(part) : part;
+            chunks.push(bytes);
+            offset += bytes.length;
+        });
+    });
+    const xref = `xref\n0 ${bodies.length + 1}\n0000000000 65535 f \n` +
+        offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('') +
+        `trailer\n<< /Size ${bodies.length + 1} /Root ${catalog} 0 R /Info ${infoId} 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+    chunks.push(latin1(xref));
+
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let at = 0;
+    chunks.forEach(c => { out.set(c, at); at += c.length; });
+    return out;
+}
+
+// Re-encode an image (any data URL the browser can show) as JPEG on white for embedding.
+export function loadJpeg(dataUrl: string, maxSize = 3000): Promise<PdfImage> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const k = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.naturalWidth * k));
+            canvas.height = Math.max(1, Math.round(image.naturalHeight * k));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Canvas is not available.'));
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+            const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1] ?? '';
+            resolve({ jpeg: Uint8Array.from(atob(base64), c => c.charCodeAt(0)), width: canvas.width, height: canvas.height });
+        };
+        image.onerror = () => reject(new Error('Failed to load the render for the PDF underlay.'));
+        image.src = dataUrl;
+    });
+}
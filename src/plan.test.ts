@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, emptyWallGraph, moveGraphNode, Point, shapeArea, unionShapes } from './geometry';
+import { ArchitecturalPlan, arcWall, cleanupPlanWalls, cutWallsWithRect, detectPlanRooms, enclosedSpaceAt, mergeWallsInRegion, normalizePlan, PlanWall, recleanTrace, syncWallGraph } from './plan';
+
+describe('normalizePlan', () => {
+    it('fills in missing collections', () => {
+        expect(normalizePlan({ walls: [], dimensions: { width: 10, height: 20 } })).toEqual({
+            walls: [], doors: [], windows: [], rooms: [], dimensions: { width: 10, height: 20 },
+        });
+        expect(normalizePlan(null)).toEqual({ walls: [], doors: [], windows: [], rooms: [], dimensions: { width: 0, height: 0 } });
+    });
+
+    it('drops elements that would fail to draw', () => {
+        const wall = { boundary: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 5 }] };
+        const plan = normalizePlan({
+            walls: [wall, { edge: 3 }, { boundary: [{ x: 0 }] }, { boundary: [], holes: 'none' }, null],
+            doors: [{ boundary: [], host: { edge: 1, offset: 5, width: 9 } }, { boundary: [], host: { edge: 1 } }],
+            windows: 'none',
+            rooms: [{ boundary: wall.boundary }, { name: 'Hall', type: 'Hallway' }],
+            symbols: [{ symbol: 'chair', at: { x: 1, y: 1 }, rotation: 0, scale: 100 }, { symbol: 'bed' }],
+            graph: { nodes: [{ id: 1 }], edges: [], nextId: 2 },
+            scale: { metersPerUnit: -1, units: 'm' },
+            dimensions: { width: 'wide' },
+        });
+        expect(plan.walls).toEqual([wall]);
+        expect(plan.walls[0]).toBe(wall);
+        expect(plan.doors).toHaveLength(1);
+        expect(plan.windows).toEqual([]);
+        expect(plan.rooms).toEqual([{ name: '', type: '', boundary: wall.boundary }]);
+        expect(plan.symbols).toHaveLength(1);
+        expect(plan.graph).toBeUndefined();
+        expect(plan.scale).toBeUndefined();
+        expect(plan.dimensions).toEqual({ width: 0, height: 0 });
+    });
+});
+
+// A 400 x 300 rectangle of graph walls 10 thick, with a door in the top wall
+function rectanglePlan(): ArchitecturalPlan {
+    const corners: Point[] = [{ x: 100, y: 100 }, { x: 500, y: 100 }, { x: 500, y: 400 }, { x: 100, y: 400 }];
+    let graph = emptyWallGraph();
+    corners.forEach((p, i) => { graph = addGraphWall(graph, p, corners[(i + 1) % 4], 10); });
+    const top = graph.edges[0].id;
+    return syncWallGraph({
+        walls: [], doors: [{ boundary: [], host: { edge: top, offset: 200, width: 80 } }], windows: [], rooms: [],
+        dimensions: { width: 600, height: 500 },
+    }, graph);
+}
+
+const wallArea = (walls: PlanWall[]) => unionShapes(walls.map(w => ({ boundary: w.boundary, holes: w.holes }))).reduce((t, s) => t + shapeArea(s), 0);
+
+describe('cutWallsWithRect', () => {
+    it('keeps the corners of detached walls closed', () => {
+        const plan = rectanglePlan();
+        // through the left wall, away from its corners
+        const cut = cutWallsWithRect(plan, { x: 90, y: 240 }, { x: 110, y: 260 });
+        expect(cut.walls.filter(w => w.edge == null)).toHaveLength(2);
+        expect(wallArea(cut.walls)).toBeCloseTo(wallArea(plan.walls) - 20 * 10, 3);
+    });
+
+    it('cuts the walls it hits even when detaching reorders the others', () => {
+        const plan = rectanglePlan();
+        const top = plan.graph!.edges[0].id;
+        // the two pieces either side of the door, one moved to the end of the list
+        const [first, ...rest] = plan.walls.filter(w => w.edge === top);
+        const reordered = { ...plan, walls: [first, ...plan.walls.filter(w => w.edge !== top), ...rest] };
+        const cut = cutWallsWithRect(reordered, { x: 90, y: 240 }, { x: 110, y: 260 });
+        expect(cut.walls.filter(w => w.edge === top)).toHaveLength(2);
+        expect(cut.walls.filter(w => w.edge == null).every(w => w.boundary.every(p => p.x <= 105 + 1e-9))).toBe(true);
+    });
+});
+
+describe('mergeWallsInRegion', () => {
+    it('merges the walls in the region into one closed corner', () => {
+        const plan = rectanglePlan();
+        const merged = mergeWallsInRegion(plan, { x: 450, y: 350 }, { x: 520, y: 420 });
+        const free = merged.walls.filter(w => w.edge == null);
+        expect(free).toHaveLength(1);
+        expect(merged.graph!.edges).toHaveLength(2);
+        expect(wallArea(merged.walls)).toBeCloseTo(wallArea(plan.walls), 3);
+    });
+});
+
+describe('syncWallGraph', () => {
+    it('cuts hosted doors out of their wall', () => {
+        const plan = rectanglePlan();
+        const top = plan.graph!.edges[0].id;
+        const pieces = plan.walls.filter(w => w.edge === top);
+        expect(pieces).toHaveLength(2);
+        expect(plan.doors[0].boundary).toEqual([{ x: 260, y: 100 }, { x: 340, y: 100 }]);
+        expect(wallArea(pieces)).toBeCloseTo(wallArea(syncWallGraph({ ...plan, doors: [] }, plan.graph!).walls.filter(w => w.edge === top)) - 80 * 10, 3);
+    });
+
+    it('keeps wall order and reuses untouched walls', () => {
+        const free: PlanWall = { boundary: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 5 }, { x: 0, y: 5 }] };
+        const base = rectanglePlan();
+        const plan = syncWallGraph({ ...base, walls: [free, ...base.walls] }, addGraphWall(base.graph!, { x: 200, y: 200 }, { x: 300, y: 200 }, 10));
+        const inner = plan.graph!.edges[4];
+        const moved = syncWallGraph(plan, moveGraphNode(plan.graph!, inner.b, { x: 300, y: 250 }));
+        expect(moved.walls.map(w => w.edge)).toEqual(plan.walls.map(w => w.edge));
+        expect(moved.walls[0]).toBe(free);
+        // only the wall that moved gets a new polygon
+        expect(moved.walls.filter((w, i) => w !== plan.walls[i]).map(w => w.edge)).toEqual([inner.id]);
+    });
+
+    it('adds walls for new edges and drops those of removed ones', () => {
+        const plan = rectanglePlan();
+        const [top, , , left] = plan.graph!.edges;
+        const split = addGraphWall(plan.graph!, { x: 400, y: 100 }, { x: 400, y: 400 }, 10);
+        const added = syncWallGraph(plan, split);
+        expect(added.graph!.edges).toHaveLength(7);
+        expect(new Set(added.walls.map(w => w.edge)).size).toBe(7);
+        // the door now sits on whichever half of the old top wall holds its centre
+        expect(added.doors[0].host!.edge).not.toBe(top.id);
+        expect(added.doors[0].boundary).toEqual(plan.doors[0].boundary);
+
+        const removed = syncWallGraph(plan, { ...plan.graph!, edges: plan.graph!.edges.filter(e => e !== left) });
+        expect(removed.walls.some(w => w.edge === left.id)).toBe(false);
+        expect(removed.walls).toHaveLength(plan.walls.length - 1);
+    });
+});
+
+describe('placeOpening', () => {
+    it('keeps a door on a wall dragged too short for it and cuts it again once it fits', () => {
+        const plan = rectanglePlan();
+        const top = plan.graph!.edges[0];
+        const end = top.b;
+        const cuts = (p: ArchitecturalPlan) => p.walls.filter(w => w.edge === top.id).length;
+        expect(cuts(plan)).toBe(2);
+
+        // each step builds on the last, as the live preview of a drag would
+        const drag = (p: ArchitecturalPlan, x: number) => syncWallGraph(p, moveGraphNode(p.graph!, end, { x, y: 100 }));
+        const short = drag(plan, 150);
+        expect(short.doors[0].host).toEqual(plan.doors[0].host);
+        expect(short.doors[0].boundary).toEqual([{ x: 100, y: 100 }, { x: 150, y: 100 }]);
+        expect(cuts(short)).toBe(1);
+
+        const back = drag(drag(short, 300), 500);
+        expect(back.doors).toEqual(plan.doors);
+        expect(cuts(back)).toBe(2);
+    });
+
+    it('drops the host once its wall is deleted', () => {
+        const plan = rectanglePlan();
+        const [top] = plan.graph!.edges;
+        const graph = { ...plan.graph!, edges: plan.graph!.edges.filter(e => e !== top) };
+        expect(syncWallGraph(plan, graph).doors[0].host).toBeUndefined();
+    });
+});
+
+describe('detectPlanRooms', () => {
+    // the rectangle split by a wall at x = 400 into a large and a small room
+    const dividedPlan = () => {
+        const plan = rectanglePlan();
+        return syncWallGraph(plan, addGraphWall(plan.graph!, { x: 400, y: 100 }, { x: 400, y: 400 }, 10));
+    };
+
+    it('finds the space inside the walls, with the door closing its gap', () => {
+        const { rooms } = detectPlanRooms(rectanglePlan(), [{ name: 'Studio', type: 'Living Room' }]);
+        expect(rooms).toHaveLength(1);
+        expect(rooms[0]).toMatchObject({ name: 'Studio', type: 'Living Room' });
+        // 390 x 290 inside the walls, plus the doorway up to the door's 2 unit barrier
+        expect(shapeArea(rooms[0])).toBeCloseTo(390 * 290 + 80 * 4, 3);
+    });
+
+    it('labels each space from the room list by its expected size', () => {
+        const { rooms } = detectPlanRooms(dividedPlan(), [{ name: '', type: 'Bathroom' }, { name: 'Lounge', type: 'Living Room' }]);
+        expect(rooms).toHaveLength(2);
+        const byName = new Map(rooms.map(r => [r.name, shapeArea(r)]));
+        expect(byName.get('Lounge')).toBeGreaterThan(byName.get('Bathroom')! * 2);
+    });
+
+    it('numbers the spaces left over once the list runs out', () => {
+        const { rooms } = detectPlanRooms(dividedPlan(), [{ name: 'Lounge', type: 'Living Room' }]);
+        expect(rooms.map(r => r.name).sort()).toEqual(['Lounge', 'Room 1']);
+        expect(rooms.find(r => r.name === 'Room 1')!.type).toBe('');
+    });
+
+    it('ignores slivers below the minimum area', () => {
+        const plan = rectanglePlan();
+        const closet = syncWallGraph(plan, addGraphWall(plan.graph!, { x: 120, y: 100 }, { x: 120, y: 400 }, 10));
+        // a 10 x 290 gap beside the left wall: 1% of the 600 x 500 plan is 3000
+        expect(detectPlanRooms(closet, [], 0.01).rooms).toHaveLength(1);
+        expect(detectPlanRooms(closet, [], 0.005).rooms).toHaveLength(2);
+    });
+});
+
+describe('enclosedSpaceAt', () => {
+    it('returns the space around a point, and nothing outside the walls', () => {
+        const plan = rectanglePlan();
+        expect(shapeArea(enclosedSpaceAt(plan, { x: 300, y: 250 })!)).toBeCloseTo(390 * 290 + 80 * 4, 3);
+        expect(enclosedSpaceAt(plan, { x: 50, y: 50 })).toBeNull();
+        expect(enclosedSpaceAt(plan, { x: 300, y: 100 })).toBeNull();
+    });
+});
+
+describe('cleanupPlanWalls', () => {
+    it('leaves graph and arc walls as they are', () => {
+        const curved = arcWall({ center: { x: 300, y: 250 }, radius: 100, start: 0, sweep: Math.PI, thickness: 10 });
+        const plan = { ...rectanglePlan(), walls: [curved, ...rectanglePlan().walls] };
+        const cleaned = cleanupPlanWalls(plan, { simplifyTol: 20, orthoAngle: 10, collinearTol: 5 });
+        expect(cleaned.walls).toHaveLength(plan.walls.length);
+        cleaned.walls.forEach((w, i) => expect(w).toBe(plan.walls[i]));
+    });
+});
+
+describe('recleanTrace', () => {
+    // two traced walls, each with a 3 unit bump that only a coarse simplify removes
+    const traced: ArchitecturalPlan = {
+        walls: [
+            { boundary: [{ x: 10, y: 10 }, { x: 60, y: 13 }, { x: 110, y: 10 }, { x: 110, y: 20 }, { x: 10, y: 20 }] },
+            { boundary: [{ x: 10, y: 110 }, { x: 60, y: 113 }, { x: 110, y: 110 }, { x: 110, y: 120 }, { x: 10, y: 120 }] },
+        ],
+        doors: [], windows: [], rooms: [], dimensions: { width: 600, height: 500 },
+    };
+    const fine = { simplifyTol: 1, orthoAngle: 0, collinearTol: 0 };
+    const coarse = { simplifyTol: 5, orthoAngle: 0, collinearTol: 0 };
+
+    it('re-cleans the traced walls and keeps everything added or edited since', () => {
+        const cleaned = cleanupPlanWalls(traced, fine);
+        const drawn = rectanglePlan();
+        // draw the rectangle and its door, reshape the second traced wall, add a symbol and a dimension
+        const edited: PlanWall = { boundary: [{ x: 10, y: 110 }, { x: 200, y: 110 }, { x: 200, y: 120 }, { x: 10, y: 120 }] };
+        const plan: ArchitecturalPlan = {
+            ...drawn,
+            walls: [cleaned.walls[0], edited, ...drawn.walls],
+            dimensionLines: [{ a: { x: 0, y: 0 }, b: { x: 100, y: 0 }, offset: 10 }],
+            symbols: [{ symbol: 'chair', at: { x: 300, y: 300 }, rotation: 0, scale: 100 }],
+            scale: { metersPerUnit: 0.01, units: 'm' },
+        };
+
+        const next = recleanTrace(plan, traced, fine, coarse);
+        expect(plan.walls[0].boundary).toHaveLength(5);
+        expect(next.walls[0].boundary).toHaveLength(4);
+        expect(next.walls.slice(1)).toEqual(plan.walls.slice(1));
+        expect(next.graph).toBe(plan.graph);
+        expect(next.doors).toBe(plan.doors);
+        expect(next.dimensionLines).toBe(plan.dimensionLines);
+        expect(next.symbols).toBe(plan.symbols);
+        expect(next.scale).toBe(plan.scale);
+    });
+
+    it('leaves a plan untouched when the tolerances are unchanged', () => {
+        const plan = cleanupPlanWalls(traced, fine);
+        expect(recleanTrace(plan, traced, fine, fine).walls).toEqual(plan.walls);
+    });
+});
@@ -0,0 +1,455 @@
+// plan.ts - shared vector plan model used by the editor and the exporters
+import {
+    add,
+    Arc,
+    ArcWall,
+    arcWallPolygon,
+    cleanupPolygon,
+    CleanupOptions,
+    createWallRectangle,
+    defaultCleanupOptions,
+    dist,
+    EnclosedSpace,
+    findEnclosedSpaces,
+    graphNode,
+    mul,
+    nearestPointOnSegment,
+    normalize,
+    perp,
+    Point,
+    pointInShape,
+    rectPolygon,
+    removeGraphEdge,
+    Shape,
+    shapeArea,
+    shapesOverlap,
+    sub,
+    subtractShape,
+    unionShapes,
+    WallGraph,
+    emptyWallGraph,
+    wallGraphFromPolygons,
+    wallGraphToPolygons
+} from './geometry';
+import { PlanScale, unitLabels } from './units';
+
+// `edge` links a wall polygon to the wall graph edge it was derived from; walls
+// without it are free-form polygons (e.g. straight from the AI trace). `holes` are
+// inner rings left by boolean operations. Curved walls keep their true `arc`; the
+// boundary is then a fine faceting of it used for hit-testing and booleans.
+export type PlanWall = { boundary: Array<Point>; holes?: Array<Array<Point>>; edge?: number; arc?: ArcWall };
+
+export const arcWall = (arc: ArcWall): PlanWall => ({ boundary: arcWallPolygon(arc), arc });
+
+// Where a placed door/window sits: a graph wall edge, the distance of the opening's
+// centre from the edge's `a` node, and the opening width (plan units).
+export type OpeningHost = { edge: number; offset: number; width: number };
+
+// Doors and windows. Traced or imported ones are plain polylines; placed ones carry a
+// `host` and their boundary is the jamb-to-jamb line on the wall centerline, regenerated
+// whenever the wall changes. `hinge` is the jamb the leaf turns on (towards the edge's
+// `a` or `b` node) and `swing` the side of the edge direction it opens to.
+export type PlanOpening = {
+    boundary: Array<Point>;
+    host?: OpeningHost;
+    hinge?: 'a' | 'b';
+    swing?: 'left' | 'right';
+};
+
+// Linear dimension between two measured points; the dimension line runs parallel to a-b,
+// `offset` away along perp(b - a). Dimensions made by auto-dimensioning are flagged
+// `auto` so re-running it replaces them.
+export type PlanDimension = { a: Point; b: Point; offset: number; auto?: boolean };
+
+// Furniture/fixture block reference: a library symbol (see symbols.ts) placed at `at`,
+// turned `rotation` degrees (clockwise on screen) and drawn at `scale` plan units per
+// metre; `mirrored` flips it across its own x axis.
+export type PlanSymbol = { symbol: string; at: Point; rotation: number; scale: number; mirrored?: boolean };
+
+export type PlanRoom = { name: string; type: string; boundary: Array<Point>; holes?: Array<Array<Point>> };
+
+// Fill colors for room regions, keyed by room type
+export const roomColors: Record<string, string> = {
+    'Bedroom': '#60a5fa',
+    'Kitchen': '#f97316',
+    'Bathroom': '#22d3ee',
+    'Living Room': '#a3e635',
+    'Dining Room': '#facc15',
+    'Hallway': '#a8a29e',
+    'Closet': '#c084fc',
+    'Office': '#f472b6',
+    'Garage': '#94a3b8',
+};
+
+export type ArchitecturalPlan = {
+    walls: Array<PlanWall>;
+    doors: Array<PlanOpening>;
+    windows: Array<PlanOpening>;
+    rooms: Array<PlanRoom>;
+    dimensions: { width: number; height: number };
+    dimensionLines?: Array<PlanDimension>;
+    symbols?: Array<PlanSymbol>;
+    graph?: WallGraph;
+    scale?: PlanScale;     // set by calibration; absent means plan units are image pixels
+};
+
+type Loose = Record<string, unknown>;
+const isObject = (v: unknown): v is Loose => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPoint = (v: unknown): v is Point => isObject(v) && isNumber(v.x) && isNumber(v.y);
+const isRing = (v: unknown): v is Point[] => Array.isArray(v) && v.every(isPoint);
+const hasRings = (v: Loose) => isRing(v.boundary) && (v.holes === undefined || (Array.isArray(v.holes) && v.holes.every(isRing)));
+const optional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+
+const isArcWall = (v: unknown) => isObject(v) && isPoint(v.center) && [v.radius, v.start, v.sweep, v.thickness].every(isNumber);
+const isWall = (v: unknown): v is PlanWall => isObject(v) && hasRings(v) && optional(v.edge, isNumber) && optional(v.arc, isArcWall);
+const isHost = (v: unknown) => isObject(v) && [v.edge, v.offset, v.width].every(isNumber);
+const isOpening = (v: unknown): v is PlanOpening => isObject(v) && isRing(v.boundary) && optional(v.host, isHost);
+const isRoom = (v: unknown): v is Loose => isObject(v) && hasRings(v);
+const isDimension = (v: unknown): v is PlanDimension => isObject(v) && isPoint(v.a) && isPoint(v.b) && isNumber(v.offset);
+const isSymbol = (v: unknown): v is PlanSymbol =>
+    isObject(v) && typeof v.symbol === 'string' && isPoint(v.at) && isNumber(v.rotation) && isNumber(v.scale);
+const isGraph = (v: unknown): v is WallGraph => isObject(v) && isNumber(v.nextId)
+    && Array.isArray(v.nodes) && v.nodes.every(n => isObject(n) && [n.id, n.x, n.y].every(isNumber))
+    && Array.isArray(v.edges) && v.edges.every(e => isObject(e) && [e.id, e.a, e.b, e.thickness].every(isNumber));
+const isScale = (v: unknown): v is PlanScale =>
+    isObject(v) && isNumber(v.metersPerUnit) && v.metersPerUnit > 0 && typeof v.units === 'string' && v.units in unitLabels;
+
+const listOf = <T>(v: unknown, check: (item: unknown) => item is T): T[] =>
+    !Array.isArray(v) ? [] : v.every(check) ? v : v.filter(check);
+
+// The AI trace only returns walls + dimensions; fill in the optional collections
+// so the editor and exporters can rely on them being arrays. Traces and project files
+// are untrusted, so elements that don't have the expected shape are dropped rather than
+// left to fail when drawn; valid elements are kept as they are.
+export function normalizePlan(raw: unknown): ArchitecturalPlan {
+    const plan: Loose = isObject(raw) ? raw : {};
+    const dimensions = isObject(plan.dimensions) && isNumber(plan.dimensions.width) && isNumber(plan.dimensions.height)
+        ? plan.dimensions as ArchitecturalPlan['dimensions']
+        : { width: 0, height: 0 };
+    return {
+        walls: listOf(plan.walls, isWall),
+        doors: listOf(plan.doors, isOpening),
+        windows: listOf(plan.windows, isOpening),
+        // a room without a usable name or type still shows its area
+        rooms: listOf(plan.rooms, isRoom).map(r => (typeof r.name === 'string' && typeof r.type === 'string'
+            ? r as PlanRoom
+            : { ...r, name: typeof r.name === 'string' ? r.name : '', type: typeof r.type === 'string' ? r.type : '' } as PlanRoom)),
+        dimensions,
+        ...(Array.isArray(plan.dimensionLines) ? { dimensionLines: listOf(plan.dimensionLines, isDimension) } : {}),
+        ...(Array.isArray(plan.symbols) ? { symbols: listOf(plan.symbols, isSymbol) } : {}),
+        ...(isGraph(plan.graph) ? { graph: plan.graph } : {}),
+        ...(isScale(plan.scale) ? { scale: plan.scale } : {}),
+    };
+}
+
+const samePolygon = (a: Array<Point>, b: Array<Point>) =>
+    a.length === b.length && a.every((p, i) => p.x === b[i].x && p.y === b[i].y);
+
+const toShape = (w: PlanWall): Shape => ({ boundary: w.boundary, holes: w.holes });
+const toWall = (s: Shape): PlanWall => (s.holes?.length ? { boundary: s.boundary, holes: s.holes } : { boundary: s.boundary });
+
+// Jambs of a hosted opening on its wall's centerline, plus the wall frame there.
+// Null when the host edge is gone or, for now, too short for the opening.
+export function openingFrame(graph: WallGraph, host: OpeningHost) {
+    const edge = graph.edges.find(e => e.id === host.edge);
+    const na = edge && graphNode(graph, edge.a), nb = edge && graphNode(graph, edge.b);
+    if (!edge || !na || !nb) return null;
+    const length = dist(na, nb);
+    if (length < host.width) return null;
+    const dir = normalize(sub(nb, na));
+    const centre = Math.min(Math.max(host.offset, host.width / 2), length - host.width / 2);
+    return {
+        a: add(na, mul(dir, centre - host.width / 2)),
+        b: add(na, mul(dir, centre + host.width / 2)),
+        dir,
+        thickness: edge.thickness,
+    };
+}
+
+// Door leaf (hinge jamb to fully open position) and its quarter-circle swing.
+export function doorSwing(graph: WallGraph, door: PlanOpening): { hinge: Point; open: Point; arc: Arc } | null {
+    const f = door.host && openingFrame(graph, door.host);
+    if (!f) return null;
+    const hinge = door.hinge === 'b' ? f.b : f.a;
+    const latch = door.hinge === 'b' ? f.a : f.b;
+    // plan y points down, so perp() of the edge direction is on its right
+    const side = door.swing === 'left' ? -1 : 1;
+    const open = add(hinge, mul(perp(f.dir), side * dist(f.a, f.b)));
+    const start = Math.atan2(open.y - hinge.y, open.x - hinge.x);
+    const end = Math.atan2(latch.y - hinge.y, latch.x - hinge.x);
+    let sweep = end - start;
+    if (sweep > Math.PI) sweep -= 2 * Math.PI;
+    if (sweep < -Math.PI) sweep += 2 * Math.PI;
+    return { hinge, open, arc: { center: hinge, radius: dist(f.a, f.b), start, sweep } };
+}
+
+// Re-seat a hosted opening after a graph change. If its edge was split or replaced, it
+// moves to whichever edge now runs through its previous centre.
+export function placeOpening(graph: WallGraph, o: PlanOpening): PlanOpening {
+    if (!o.host) return o;
+    let host: OpeningHost | null = o.host;
+    if (!graph.edges.some(e => e.id === o.host!.edge)) {
+        host = null;
+        const [a, b] = o.boundary;
+        const centre = a && b ? mul(add(a, b), 0.5) : null;
+        for (const e of centre ? graph.edges : []) {
+            const na = graphNode(graph, e.a)!, nb = graphNode(graph, e.b)!;
+            const { q, t } = nearestPointOnSegment(centre!, na, nb);
+            if (t > 0 && t < 1 && dist(q, centre!) <= e.thickness / 2) {
+                host = { ...o.host, edge: e.id, offset: dist(na, q) };
+                break;
+            }
+        }
+    }
+    const frame = host && openingFrame(graph, host);
+    if (frame) return { ...o, host, boundary: [frame.a, frame.b] };
+    const edge = host && graph.edges.find(e => e.id === host!.edge);
+    const na = edge && graphNode(graph, edge.a), nb = edge && graphNode(graph, edge.b);
+    if (host && na && nb) {
+        // the wall is too short for it: it spans the whole wall, uncut, until it fits again
+        return { ...o, host, boundary: [{ x: na.x, y: na.y }, { x: nb.x, y: nb.y }] };
+    }
+    // the wall is gone: keep the opening where it was, unattached
+    const { host: _drop, ...rest } = o;
+    return rest;
+}
+
+// Store a new wall graph on the plan and regenerate the polygons of graph walls in
+// place, so wall indices stay stable across edits. Hosted doors and windows follow
+// their walls and are cut out of them, which can leave one edge as several pieces.
+export function syncWallGraph(plan: ArchitecturalPlan, graph: WallGraph): ArchitecturalPlan {
+    const doors = plan.doors.map(o => placeOpening(graph, o));
+    const windows = plan.windows.map(o => placeOpening(graph, o));
+    const cuts = new Map<number, Shape[]>();
+    for (const o of [...doors, ...windows]) {
+        const f = o.host && openingFrame(graph, o.host);
+        if (!f) continue;
+        const list = cuts.get(o.host!.edge) ?? [];
+        list.push({ boundary: createWallRectangle(f.a, f.b, f.thickness + 2) });
+        cuts.set(o.host!.edge, list);
+    }
+    const byEdge = new Map(wallGraphToPolygons(graph).map(w => {
+        let pieces: Shape[] = [{ boundary: w.boundary }];
+        for (const cut of cuts.get(w.edge) ?? []) pieces = pieces.flatMap(piece => subtractShape(piece, cut));
+        return [w.edge, pieces] as const;
+    }));
+
+    // keep untouched walls identical so the spatial index can skip them
+    const previous = new Map<number, PlanWall[]>();
+    plan.walls.forEach(w => {
+        if (w.edge != null) previous.set(w.edge, [...(previous.get(w.edge) ?? []), w]);
+    });
+    const piecesOf = (edge: number): PlanWall[] => byEdge.get(edge)!.map((s, k) => {
+        const old = previous.get(edge)?.[k];
+        return old && !s.holes?.length && !old.holes?.length && samePolygon(old.boundary, s.boundary) ? old : { ...toWall(s), edge };
+    });
+
+    const walls: PlanWall[] = [];
+    const seen = new Set<number>();
+    for (const w of plan.walls) {
+        if (w.edge == null) { walls.push(w); continue; }
+        if (seen.has(w.edge) || !byEdge.has(w.edge)) continue;
+        seen.add(w.edge);
+        walls.push(...piecesOf(w.edge));
+    }
+    byEdge.forEach((_, edge) => {
+        if (!seen.has(edge)) walls.push(...piecesOf(edge));
+    });
+    return { ...plan, walls, doors, windows, graph };
+}
+
+// Convert wall-like free-form polygons into connected graph walls.
+export function connectPlanWalls(plan: ArchitecturalPlan, tol = 8): ArchitecturalPlan {
+    const loose = plan.walls.map((w, i) => ({ w, i })).filter(({ w }) => w.edge == null && !w.holes?.length);
+    const { graph, converted } = wallGraphFromPolygons(loose.map(({ w }) => w.boundary), tol, plan.graph ?? emptyWallGraph());
+    const drop = new Set(converted.map(k => loose[k].i));
+    return syncWallGraph({ ...plan, walls: plan.walls.filter((_, i) => !drop.has(i)) }, graph);
+}
+
+// Detach walls from the wall graph so their polygons can be edited freely. Every piece
+// of an affected edge is detached, and openings on it are left in place unattached.
+// Graph walls that met a detached one lose their miter there, so the part of the joint
+// they give up is added to the detached wall it touches, keeping the corner closed.
+// Returns the new plan and the free polygons that replaced `hits`, which stay in place.
+function detachWalls(plan: ArchitecturalPlan, hits: PlanWall[]): { plan: ArchitecturalPlan; detached: Set<PlanWall> } {
+    const edges = new Set(hits.map(w => w.edge).filter((e): e is number => e != null));
+    const graph = plan.graph && [...edges].reduce(removeGraphEdge, plan.graph);
+    const free = new Map<PlanWall, PlanWall[]>();
+    plan.walls.forEach(w => {
+        if (w.edge != null && edges.has(w.edge)) free.set(w, [{ boundary: w.boundary, ...(w.holes ? { holes: w.holes } : {}) }]);
+    });
+
+    if (plan.graph && graph) {
+        const after = new Map(wallGraphToPolygons(graph).map(w => [w.edge, w.boundary]));
+        const gaps = wallGraphToPolygons(plan.graph).flatMap(w => {
+            const now = after.get(w.edge);
+            return now && !samePolygon(now, w.boundary) ? subtractShape({ boundary: w.boundary }, { boundary: now }) : [];
+        }).filter(gap => shapeArea(gap) > 1e-6);
+        // a gap shares its miter corners with the detached wall that made it
+        const touches = (gap: Shape, w: PlanWall) => gap.boundary.some(p => w.boundary.some(q => dist(p, q) < 1e-6));
+        gaps.forEach(gap => {
+            const owner = [...free].find(([, pieces]) => pieces.some(piece => touches(gap, piece)));
+            if (owner) free.set(owner[0], unionShapes([...owner[1].map(toShape), gap]).map(toWall));
+        });
+    }
+
+    const walls = plan.walls.flatMap(w => free.get(w) ?? [w]);
+    const detached = new Set(hits.flatMap(w => free.get(w) ?? [w]));
+    return { plan: graph ? syncWallGraph({ ...plan, walls }, graph) : { ...plan, walls }, detached };
+}
+
+// Delete a graph wall together with the doors and windows it hosts.
+export function removeWallEdge(plan: ArchitecturalPlan, edge: number): ArchitecturalPlan {
+    const onEdge = (o: PlanOpening) => o.host?.edge === edge;
+    const rest = { ...plan, doors: plan.doors.filter(o => !onEdge(o)), windows: plan.windows.filter(o => !onEdge(o)) };
+    return syncWallGraph(rest, removeGraphEdge(plan.graph ?? emptyWallGraph(), edge));
+}
+
+// Union every wall touching the region into clean boundaries. Merged walls leave the
+// wall graph, since a union is no longer a single centerline.
+export function mergeWallsInRegion(plan: ArchitecturalPlan, a: Point, b: Point): ArchitecturalPlan {
+    const region: Shape = { boundary: rectPolygon(a, b) };
+    const hits = plan.walls.filter(w => shapesOverlap(toShape(w), region));
+    if (hits.length < 2) return plan;
+    const { plan: next, detached } = detachWalls(plan, hits);
+    const merged = unionShapes([...detached].map(toShape)).map(toWall);
+    return { ...next, walls: next.walls.filter(w => !detached.has(w)).concat(merged) };
+}
+
+// Subtract a rectangle from every wall it overlaps. Walls may split in two or gain a hole.
+export function cutWallsWithRect(plan: ArchitecturalPlan, a: Point, b: Point): ArchitecturalPlan {
+    const cut: Shape = { boundary: rectPolygon(a, b) };
+    const hits = plan.walls.filter(w => shapesOverlap(toShape(w), cut));
+    if (!hits.length) return plan;
+    const { plan: next, detached } = detachWalls(plan, hits);
+    const walls = next.walls.flatMap(w => (detached.has(w) ? subtractShape(toShape(w), cut).map(toWall) : [w]));
+    return { ...next, walls };
+}
+
+// ---- Room detection ----
+
+// Typical floor areas (m²) per room type, used only to rank detected spaces against the
+// user's room list; absolute scale does not matter.
+const typicalRoomArea: Record<string, number> = {
+    'Living Room': 25,
+    'Garage': 20,
+    'Bedroom': 14,
+    'Dining Room': 12,
+    'Kitchen': 10,
+    'Office': 10,
+    'Hallway': 6,
+    'Bathroom': 5,
+    'Closet': 2,
+};
+
+// perimeter² / area is 16 for a square and grows for long, narrow spaces
+const elongation = (s: EnclosedSpace) => (s.perimeter * s.perimeter) / Math.max(s.area, 1e-9);
+
+// Pair detected spaces with the user's rooms by relative size (and shape for hallways).
+// Unmatched spaces keep a generic name.
+export function matchRooms(spaces: EnclosedSpace[], specs: Array<{ name: string; type: string }>): PlanRoom[] {
+    const totalArea = spaces.reduce((t, s) => t + s.area, 0) || 1;
+    const totalExpected = specs.reduce((t, r) => t + (typicalRoomArea[r.type] ?? 10), 0) || 1;
+    const pairs: Array<{ si: number; ri: number; cost: number }> = [];
+    spaces.forEach((s, si) => specs.forEach((r, ri) => {
+        const share = s.area / totalArea;
+        const expected = (typicalRoomArea[r.type] ?? 10) / totalExpected;
+        let cost = Math.abs(Math.log(share / expected));
+        if (r.type === 'Hallway') cost -= Math.min(1, (elongation(s) - 16) / 16);
+        pairs.push({ si, ri, cost });
+    }));
+    pairs.sort((a, b) => a.cost - b.cost);
+
+    const assigned = new Map<number, number>();
+    const usedSpecs = new Set<number>();
+    for (const { si, ri } of pairs) {
+        if (assigned.has(si) || usedSpecs.has(ri)) continue;
+        assigned.set(si, ri);
+        usedSpecs.add(ri);
+    }
+
+    let unnamed = 0;
+    return spaces.map((s, si) => {
+        const spec = assigned.has(si) ? specs[assigned.get(si)!] : null;
+        const name = spec?.name || spec?.type || `Room ${++unnamed}`;
+        return {
+            name,
+            type: spec?.type ?? '',
+            boundary: s.boundary,
+            ...(s.holes?.length ? { holes: s.holes } : {}),
+        };
+    });
+}
+
+// Walls plus thin barriers along doors and windows, which count as closing the gap
+// they sit in.
+function roomObstacles(plan: ArchitecturalPlan): Shape[] {
+    const obstacles: Shape[] = plan.walls.map(toShape);
+    for (const opening of [...plan.doors, ...plan.windows]) {
+        const pts = opening.boundary;
+        for (let i = 0; i + 1 < pts.length; i++) {
+            if (dist(pts[i], pts[i + 1]) < 1e-6) continue;
+            obstacles.push({ boundary: createWallRectangle(pts[i], pts[i + 1], 2) });
+        }
+    }
+    return obstacles;
+}
+
+// Detect the spaces enclosed by walls and label them from the user's room list. Slivers
+// under `minAreaRatio` of the plan area are ignored.
+export function detectPlanRooms(plan: ArchitecturalPlan, specs: Array<{ name: string; type: string }>, minAreaRatio = 0.002): ArchitecturalPlan {
+    const minArea = plan.dimensions.width * plan.dimensions.height * minAreaRatio;
+    const spaces = findEnclosedSpaces(roomObstacles(plan), plan.dimensions, minArea);
+    return { ...plan, rooms: matchRooms(spaces, specs) };
+}
+
+// The enclosed space containing p, if p is inside the walls at all.
+export function enclosedSpaceAt(plan: ArchitecturalPlan, p: Point): EnclosedSpace | null {
+    return findEnclosedSpaces(roomObstacles(plan), plan.dimensions, 0).find(s => pointInShape(p, s)) ?? null;
+}
+
+// ---- Trace cleanup ----
+
+// One traced wall cleaned up, or null when nothing usable is left of it.
+function cleanupWall(w: PlanWall, opts: CleanupOptions): PlanWall | null {
+    const boundary = cleanupPolygon(w.boundary, opts);
+    if (!boundary) return null;
+    const holes = (w.holes ?? []).map(h => cleanupPolygon(h, opts)).filter((h): h is Point[] => !!h);
+    return holes.length ? { boundary, holes } : { boundary };
+}
+
+// Clean up free-form (traced) wall polygons; graph and arc walls are already exact.
+export function cleanupPlanWalls(plan: ArchitecturalPlan, opts: CleanupOptions = defaultCleanupOptions): ArchitecturalPlan {
+    const walls: PlanWall[] = [];
+    for (const w of plan.walls) {
+        const cleaned = w.edge != null || w.arc ? w : cleanupWall(w, opts);
+        if (cleaned) walls.push(cleaned);
+    }
+    return { ...plan, walls };
+}
+
+// Clean up the raw `traced` walls again with new tolerances, in a plan whose traced walls
+// were cleaned with `applied`. Only traced walls still as that cleanup left them are
+// replaced; everything added or edited since (graph and arc walls, walls cut, merged or
+// reshaped, openings, dimensions, symbols) is kept.
+export function recleanTrace(plan: ArchitecturalPlan, traced: ArchitecturalPlan, applied: CleanupOptions, opts: CleanupOptions): ArchitecturalPlan {
+    const walls = plan.walls.slice();
+    const added: PlanWall[] = [];
+    for (const w of traced.walls) {
+        if (w.edge != null || w.arc) continue;
+        const before = cleanupWall(w, applied), after = cleanupWall(w, opts);
+        if (!before) {
+            // dropped by the earlier cleanup, so nothing can have been done to it since
+            if (after) added.push(after);
+            continue;
+        }
+        const i = walls.findIndex(p => p.edge == null && !p.arc && samePolygon(p.boundary, before.boundary)
+            && (p.holes ?? []).length === (before.holes ?? []).length
+            && (p.holes ?? []).every((h, k) => samePolygon(h, before.holes![k])));
+        if (i >= 0) walls.splice(i, 1, ...(after ? [after] : []));
+    }
+    return { ...plan, walls: walls.concat(added) };
+}
+
+export const countVertices = (plan: ArchitecturalPlan) => plan.walls.reduce((t, w) => t + w.boundary.length, 0);
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseDxf } from './dxfImport';
+import { rectPolygon } from './geometry';
+import { defaultLayers } from './layers';
+import { ArchitecturalPlan, PlanRoom } from './plan';
+import { planDxf } from './planDxf';
+
+// A 4 m x 3 m room (1 unit = 1 cm) on a 6 m x 5 m sheet, exported in millimetres
+const roomPlan = (room: PlanRoom): ArchitecturalPlan => ({
+    walls: [], doors: [], windows: [], rooms: [room],
+    dimensions: { width: 600, height: 500 },
+    scale: { metersPerUnit: 0.01, units: 'mm' },
+});
+
+// Layer, position, height and value of every TEXT entity
+function texts(dxf: string) {
+    const lines = dxf.trimEnd().split('\n');
+    const out: Array<{ layer: string; x: number; y: number; height: number; text: string }> = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        if (lines[i].trim() !== '0' || lines[i + 1] !== 'TEXT') continue;
+        const t = { layer: '', x: 0, y: 0, height: 0, text: '' };
+        for (let j = i + 2; j + 1 < lines.length && lines[j].trim() !== '0'; j += 2) {
+            const code = parseInt(lines[j], 10), value = lines[j + 1];
+            if (code === 8) t.layer = value;
+            if (code === 10) t.x = parseFloat(value);
+            if (code === 20) t.y = parseFloat(value);
+            if (code === 40) t.height = parseFloat(value);
+            if (code === 1) t.text = value;
+        }
+        out.push(t);
+    }
+    return out;
+}
+
+describe('planDxf rooms', () => {
+    const corners = rectPolygon({ x: 100, y: 100 }, { x: 500, y: 400 });
+
+    it('outlines each room on the ROOMS layer, flipped to y-up', () => {
+        const drawing = parseDxf(planDxf(roomPlan({ name: 'Living', type: 'Living Room', boundary: corners }), defaultLayers));
+        expect(drawing.insunits).toBe(4);
+        const rooms = drawing.paths.filter(p => p.layer === 'ROOMS');
+        expect(rooms).toHaveLength(1);
+        expect(rooms[0].closed).toBe(true);
+        expect(rooms[0].points).toEqual(corners.map(p => ({ x: p.x * 10, y: (500 - p.y) * 10 })));
+    });
+
+    it('labels each room with its name above its area', () => {
+        const labels = texts(planDxf(roomPlan({ name: 'Living', type: 'Living Room', boundary: corners }), defaultLayers, 'R12'));
+        expect(labels.map(t => t.text)).toEqual(['Living', '12.00 m\\U+00B2']);
+        expect(labels.every(t => t.layer === 'ANNOTATIONS' && t.x === 3000)).toBe(true);
+        // centred on the room at y = 2500, the name above the smaller area text
+        expect(labels[0].y).toBeGreaterThan(2500);
+        expect(labels[1].y).toBeLessThan(2500);
+        expect(labels[1].height).toBeLessThan(labels[0].height);
+    });
+
+    it('writes room holes and keeps the label out of them', () => {
+        const hole = rectPolygon({ x: 200, y: 150 }, { x: 400, y: 350 });
+        const dxf = planDxf(roomPlan({ name: 'Hall', type: 'Hallway', boundary: corners, holes: [hole] }), defaultLayers);
+        expect(parseDxf(dxf).paths.filter(p => p.layer === 'ROOMS')).toHaveLength(2);
+        const [name, area] = texts(dxf);
+        expect(area.text).toBe('8.00 m\\U+00B2');
+        const inHole = (x: number, y: number) => x > 2000 && x < 4000 && y > 1500 && y < 3500;
+        expect(inHole(name.x, name.y)).toBe(false);
+    });
+});
@@ -0,0 +1,100 @@
+// planDxf.ts - architectural plan to DXF: one DXF layer per editor layer, furniture as
+// block inserts, rooms with name/area labels and dimensions as plain lines and text
+import { DxfBlock, DxfEntity, DxfVersion, writeDxf } from './dxf';
+import { arcPointAt, arcWallOutline, emptyWallGraph, labelPoint, Point, shapeArea } from './geometry';
+import { dxfLayer, layerIds, PlanLayers } from './layers';
+import { ArchitecturalPlan, doorSwing } from './plan';
+import { symbolDef } from './symbols';
+import { exportUnits, formatArea, formatLength } from './units';
+import { dimensionGeometry } from './dimensions';
+
+export const dxfBlockName = (id: string) => `SYM_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+
+export function planDxf(plan: ArchitecturalPlan, layers: PlanLayers, version: DxfVersion = 'R2000'): string {
+    // Calibrated plans are written in real units (mm, m or inches); others stay in pixels.
+    const units = exportUnits(plan.scale);
+    // DXF's y axis points up, so the plan is flipped about its height
+    const at = (p: Point): Point => ({ x: p.x * units.factor, y: (plan.dimensions.height - p.y) * units.factor });
+    const entities: DxfEntity[] = [];
+
+    // flipping Y mirrors the drawing, which reverses every arc's direction
+    const polyline = (points: Point[], layer: string, closed = true, bulges?: number[]) => {
+        entities.push({ type: 'polyline', layer, points: points.map(at), closed, bulges: bulges?.map(b => -b) });
+    };
+    // `rotation` is in plan degrees (clockwise on screen); DXF angles run counter-clockwise
+    const text = (p: Point, value: string, layer: string, height: number, rotation = 0) => {
+        entities.push({ type: 'text', layer, at: at(p), text: value, height, rotation: -rotation, centered: true });
+    };
+
+    plan.walls.forEach(wall => {
+        if (wall.arc) {
+            const outline = arcWallOutline(wall.arc);
+            polyline(outline.points, 'WALLS', true, outline.bulges);
+            return;
+        }
+        polyline(wall.boundary, 'WALLS');
+        wall.holes?.forEach(hole => polyline(hole, 'WALLS'));
+    });
+
+    // Rooms: outline, plus a centred name/area label on the annotations layer
+    const textHeight = Math.max(plan.dimensions.width, plan.dimensions.height) / 60;
+    plan.rooms.forEach(room => {
+        polyline(room.boundary, 'ROOMS');
+        room.holes?.forEach(hole => polyline(hole, 'ROOMS'));
+        const c = labelPoint(room);
+        text({ x: c.x, y: c.y - textHeight * 0.7 }, room.name, 'ANNOTATIONS', textHeight * units.factor);
+        text({ x: c.x, y: c.y + textHeight * 0.7 }, formatArea(shapeArea(room), plan.scale), 'ANNOTATIONS', textHeight * 0.8 * units.factor);
+    });
+
+    // Dimensions as plain LINE + TEXT so every reader shows them the same way
+    const planSize = Math.max(plan.dimensions.width, plan.dimensions.height);
+    (plan.dimensionLines ?? []).forEach(dim => {
+        const g = dimensionGeometry(dim, planSize / 100);
+        [...g.extensions, g.line].forEach(([a, b]) => entities.push({ type: 'line', layer: 'DIMENSIONS', a: at(a), b: at(b) }));
+        g.arrows.forEach(tri => polyline(tri, 'DIMENSIONS'));
+        const height = planSize / 70;
+        const rad = g.angle * Math.PI / 180;
+        const p = { x: g.label.x + Math.sin(rad) * height * 0.35, y: g.label.y - Math.cos(rad) * height * 0.35 };
+        text(p, formatLength(g.length, plan.scale), 'DIMENSIONS', height * units.factor, g.angle);
+    });
+
+    // Furniture as block references; rotation flips sign with the Y axis. Blocks are drawn
+    // in metres on layer 0, stored Y-up (mirrored from the plan's Y-down symbols) so inserts
+    // take on the FURNITURE layer and need no negative scale.
+    const symbols = plan.symbols ?? [];
+    const blocks: DxfBlock[] = Array.from(new Set(symbols.map(s => s.symbol))).flatMap(id => {
+        const def = symbolDef(id);
+        if (!def) return [];
+        const flip = (p: Point) => ({ x: p.x, y: -p.y });
+        return [{
+            name: dxfBlockName(id),
+            entities: def.shapes.map((sh): DxfEntity => sh.kind === 'circle'
+                ? { type: 'circle', layer: '0', center: flip(sh.center), radius: sh.radius }
+                : { type: 'polyline', layer: '0', points: sh.points.map(flip), closed: sh.closed }),
+        }];
+    });
+    symbols.forEach(s => {
+        if (!symbolDef(s.symbol)) return;
+        const scale = s.scale * units.factor;
+        entities.push({ type: 'insert', layer: 'FURNITURE', block: dxfBlockName(s.symbol), at: at(s.at), scaleX: scale, scaleY: s.mirrored ? -scale : scale, rotation: -s.rotation });
+    });
+
+    plan.doors.forEach(door => {
+        polyline(door.boundary, 'DOORS', false);
+        // placed doors also get their leaf and swing arc
+        const swing = doorSwing(plan.graph ?? emptyWallGraph(), door);
+        if (swing) {
+            polyline([swing.hinge, swing.open], 'DOORS', false);
+            polyline([swing.open, arcPointAt(swing.arc, 1)], 'DOORS', false, [Math.tan(swing.arc.sweep / 4)]);
+        }
+    });
+    plan.windows.forEach(window => polyline(window.boundary, 'WINDOWS', false));
+
+    return writeDxf({
+        version,
+        units: { insunits: units.insunits, measurement: units.measurement },
+        layers: layerIds.map(id => dxfLayer(id, layers[id])),
+        blocks,
+        entities,
+    });
+}
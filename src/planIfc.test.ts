@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, emptyWallGraph, Point } from './geometry';
+import { ArchitecturalPlan, syncWallGraph } from './plan';
+import { planIfc } from './planIfc';
+
+type StepEntity = { type: string; args: string[] };
+
+// Top-level attributes of an entity, split on commas outside strings and lists
+function splitArgs(body: string): string[] {
+    const args: string[] = [];
+    let depth = 0, quoted = false, start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const c = body[i];
+        if (c === "'") quoted = !quoted;
+        else if (quoted) continue;
+        else if (c === '(') depth++;
+        else if (c === ')') depth--;
+        else if (c === ',' && depth === 0) {
+            args.push(body.slice(start, i));
+            start = i + 1;
+        }
+    }
+    return [...args, body.slice(start)];
+}
+
+function parseStep(text: string) {
+    const lines = text.split('\n');
+    const data = lines.slice(lines.indexOf('DATA;') + 1, lines.lastIndexOf('ENDSEC;'));
+    const entities = new Map<number, StepEntity>();
+    data.forEach(line => {
+        const m = /^#(\d+)=([A-Z0-9]+)\((.*)\);$/.exec(line);
+        expect(m, line).not.toBeNull();
+        expect(entities.has(Number(m![1])), `#${m![1]} is defined twice`).toBe(false);
+        entities.set(Number(m![1]), { type: m![2], args: splitArgs(m![3]) });
+    });
+    const ofType = (type: string) => [...entities].filter(([, e]) => e.type === type);
+    return { lines, data, entities, ofType };
+}
+
+const refs = (arg: string) => [...arg.matchAll(/#(\d+)/g)].map(m => Number(m[1]));
+
+// A 6 m x 4 m room (1 unit = 1 cm) with a door and a window in its walls and one
+// window drawn as a loose line outside any wall
+function testPlan(): ArchitecturalPlan {
+    const corners: Point[] = [{ x: 100, y: 100 }, { x: 700, y: 100 }, { x: 700, y: 500 }, { x: 100, y: 500 }];
+    let graph = emptyWallGraph();
+    corners.forEach((p, i) => { graph = addGraphWall(graph, p, corners[(i + 1) % 4], 20); });
+    const plan = syncWallGraph({
+        walls: [],
+        doors: [],
+        windows: [],
+        rooms: [
+            { name: 'Living', type: 'Living Room', boundary: corners },
+            { name: "Kid's room", type: 'Bedroom', boundary: [{ x: 800, y: 100 }, { x: 900, y: 100 }, { x: 900, y: 200 }] },
+        ],
+        dimensions: { width: 1000, height: 600 },
+        scale: { metersPerUnit: 0.01, units: 'm' },
+    }, graph);
+    const [e0, e1] = plan.graph!.edges;
+    return {
+        ...plan,
+        doors: [{ boundary: [], host: { edge: e0.id, offset: 200, width: 90 } }],
+        windows: [
+            { boundary: [], host: { edge: e1.id, offset: 200, width: 120 } },
+            { boundary: [{ x: 800, y: 300 }, { x: 900, y: 300 }] },
+        ],
+    };
+}
+
+describe('planIfc', () => {
+    const plan = testPlan();
+    const text = planIfc(plan, { storeyHeight: 3.2, wallHeight: 2.6, project: 'Test house', author: 'Tester' });
+    const step = parseStep(text);
+
+    it('writes ISO 10303-21 framing with an IFC4 header', () => {
+        expect(step.lines[0]).toBe('ISO-10303-21;');
+        expect(step.lines[1]).toBe('HEADER;');
+        expect(step.lines).toContain("FILE_SCHEMA(('IFC4'));");
+        expect(step.lines.some(l => l.startsWith('FILE_NAME(') && l.includes("('Tester')"))).toBe(true);
+        const header = step.lines.indexOf('ENDSEC;');
+        expect(step.lines[header + 1]).toBe('DATA;');
+        expect(step.lines.slice(-3)).toEqual(['ENDSEC;', 'END-ISO-10303-21;', '']);
+    });
+
+    it('numbers entities uniquely and resolves every reference', () => {
+        expect(step.entities.size).toBe(step.data.length);
+        step.entities.forEach((e, id) => e.args.flatMap(refs).forEach(r => {
+            expect(step.entities.has(r), `#${id} refers to missing #${r}`).toBe(true);
+        }));
+    });
+
+    it('writes one element per wall, door, window and room', () => {
+        expect(step.ofType('IFCWALL')).toHaveLength(plan.walls.length);
+        expect(step.ofType('IFCDOOR')).toHaveLength(1);
+        expect(step.ofType('IFCWINDOW')).toHaveLength(2);
+        // the loose window isn't in a wall, so it gets no opening
+        expect(step.ofType('IFCOPENINGELEMENT')).toHaveLength(2);
+        const spaces = step.ofType('IFCSPACE').map(([, e]) => e.args);
+        expect(spaces.map(a => [a[2], a[4]])).toEqual([["'Living'", "'Living Room'"], ["'Kid''s room'", "'Bedroom'"]]);
+    });
+
+    it('links openings to their walls and fillings', () => {
+        const openings = step.ofType('IFCOPENINGELEMENT').map(([id]) => id);
+        const voids = step.ofType('IFCRELVOIDSELEMENT').map(([, e]) => [refs(e.args[4])[0], refs(e.args[5])[0]]);
+        const fills = step.ofType('IFCRELFILLSELEMENT').map(([, e]) => [refs(e.args[4])[0], refs(e.args[5])[0]]);
+        expect(voids.map(([, o]) => o).sort()).toEqual([...openings].sort());
+        voids.forEach(([wall]) => expect(step.entities.get(wall)!.type).toBe('IFCWALL'));
+        expect(fills.map(([o]) => o).sort()).toEqual([...openings].sort());
+        expect(fills.map(([, el]) => step.entities.get(el)!.type).sort()).toEqual(['IFCDOOR', 'IFCWINDOW']);
+        // the door cuts the wall of the graph edge that hosts it
+        const doorWall = plan.walls.findIndex(w => w.edge === plan.doors[0].host!.edge);
+        const [doorOpening] = fills.find(([, el]) => step.entities.get(el)!.type === 'IFCDOOR')!;
+        const [wallId] = voids.find(([, o]) => o === doorOpening)!;
+        expect(step.entities.get(wallId)!.args[2]).toBe(`'Wall ${doorWall + 1}'`);
+    });
+
+    it('contains walls, doors and windows in the storey and aggregates the spaces', () => {
+        const [[storeyId]] = step.ofType('IFCBUILDINGSTOREY');
+        const [contained] = step.ofType('IFCRELCONTAINEDINSPATIALSTRUCTURE').map(([, e]) => e.args);
+        expect(refs(contained[5])).toEqual([storeyId]);
+        expect(refs(contained[4]).map(id => step.entities.get(id)!.type).sort()).toEqual(
+            [...plan.walls.map(() => 'IFCWALL'), 'IFCDOOR', 'IFCWINDOW', 'IFCWINDOW'].sort()
+        );
+        const spaces = step.ofType('IFCRELAGGREGATES').map(([, e]) => e.args).find(a => refs(a[4])[0] === storeyId)!;
+        expect(refs(spaces[5])).toEqual(step.ofType('IFCSPACE').map(([id]) => id));
+    });
+
+    it('writes the storey and wall heights', () => {
+        const quantities = step.ofType('IFCQUANTITYLENGTH').map(([, e]) => [e.args[0], Number(e.args[3])]);
+        expect(quantities).toContainEqual(["'GrossHeight'", 3.2]);
+        expect(quantities).toContainEqual(["'NetHeight'", 2.6]);
+        // walls are extruded to the wall height
+        step.ofType('IFCWALL').forEach(([, wall]) => {
+            const shape = step.entities.get(refs(wall.args[6])[0])!;
+            const rep = step.entities.get(refs(shape.args[2])[0])!;
+            const solid = step.entities.get(refs(rep.args[3])[0])!;
+            expect(solid.type).toBe('IFCEXTRUDEDAREASOLID');
+            expect(Number(solid.args[3])).toBe(2.6);
+        });
+    });
+
+    it('needs a calibrated plan and sensible heights', () => {
+        expect(() => planIfc({ ...plan, scale: undefined }, { storeyHeight: 3, wallHeight: 2.7, project: '', author: '' })).toThrow(/Calibrate/);
+        expect(() => planIfc(plan, { storeyHeight: 2.5, wallHeight: 2.7, project: '', author: '' })).toThrow(/storey height/);
+    });
+});
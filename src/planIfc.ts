@@ -0,0 +1,137 @@
+// planIfc.ts - architectural plan to an IFC4 model for BIM tools: one storey with the wall
+// polygons extruded as IfcWall, doors and windows as IfcDoor/IfcWindow filling openings
+// cut in their walls, and rooms as IfcSpace
+import { createWallRectangle, dist, emptyWallGraph, Point, pointInShape, Polygon, shapeArea, wallCenterline } from './geometry';
+import { ArchitecturalPlan, PlanOpening, PlanWall, openingFrame } from './plan';
+import { DERIVED, ifcGuid, StepRef, stepEnum, stepFile, stepInt } from './step';
+
+// Heights in metres. Door and window heights are fixed, kept under the wall height.
+export type PlanIfcOptions = {
+    storeyHeight: number;
+    wallHeight: number;
+    project: string;
+    author: string;
+};
+
+const DOOR_HEIGHT = 2.1, WINDOW_SILL = 0.9, WINDOW_HEAD = 2.1;
+const PANEL_THICKNESS = 0.05; // door leaf and window frame depth
+
+// Wall an opening cuts: its host edge's wall, else the wall polygon under its midpoint
+function openingWall(plan: ArchitecturalPlan, o: PlanOpening, mid: Point): PlanWall | undefined {
+    return (o.host && plan.walls.find(w => w.edge === o.host!.edge)) || plan.walls.find(w => pointInShape(mid, w));
+}
+
+// Throws when the plan isn't calibrated (IFC is in metres) or the heights don't make sense.
+export function planIfc(plan: ArchitecturalPlan, opts: PlanIfcOptions): string {
+    const scale = plan.scale;
+    if (!scale) throw new Error('Calibrate the plan scale before exporting IFC.');
+    if (!(opts.wallHeight > 0) || !(opts.storeyHeight >= opts.wallHeight)) {
+        throw new Error('Wall height must be positive and no more than the storey height.');
+    }
+    const m = scale.metersPerUnit;
+    const H = plan.dimensions.height;
+    const f = stepFile();
+
+    // shared geometry: plan points in metres with y up, as in the DXF export
+    const point2 = (p: Point) => f.add('IFCCARTESIANPOINT', [p.x * m, (H - p.y) * m]);
+    const origin = f.add('IFCCARTESIANPOINT', [0, 0, 0]);
+    const up = f.add('IFCDIRECTION', [0, 0, 1]);
+    const east = f.add('IFCDIRECTION', [1, 0, 0]);
+    const at = (z: number) => (z ? f.add('IFCAXIS2PLACEMENT3D', f.add('IFCCARTESIANPOINT', [0, 0, z]), null, null) : f.add('IFCAXIS2PLACEMENT3D', origin, null, null));
+    const world = f.add('IFCAXIS2PLACEMENT3D', origin, up, east);
+    const context = f.add('IFCGEOMETRICREPRESENTATIONCONTEXT', null, 'Model', stepInt(3), 1e-5, world, null);
+    const body = f.add('IFCGEOMETRICREPRESENTATIONSUBCONTEXT', 'Body', 'Model', DERIVED, DERIVED, DERIVED, DERIVED, context, null, stepEnum('MODEL_VIEW'), null);
+    const units = f.add('IFCUNITASSIGNMENT', [
+        f.add('IFCSIUNIT', DERIVED, stepEnum('LENGTHUNIT'), null, stepEnum('METRE')),
+        f.add('IFCSIUNIT', DERIVED, stepEnum('AREAUNIT'), null, stepEnum('SQUARE_METRE')),
+        f.add('IFCSIUNIT', DERIVED, stepEnum('VOLUMEUNIT'), null, stepEnum('CUBIC_METRE')),
+        f.add('IFCSIUNIT', DERIVED, stepEnum('PLANEANGLEUNIT'), null, stepEnum('RADIAN')),
+    ]);
+
+    // a closed polygon (with holes) extruded `depth` metres up from `z`
+    const ring = (poly: Polygon) => f.add('IFCPOLYLINE', [...poly, poly[0]].map(point2));
+    const extrusion = (outer: Polygon, holes: Polygon[], z: number, depth: number) => {
+        const profile = holes.length
+            ? f.add('IFCARBITRARYPROFILEDEFWITHVOIDS', stepEnum('AREA'), null, ring(outer), holes.map(ring))
+            : f.add('IFCARBITRARYCLOSEDPROFILEDEF', stepEnum('AREA'), null, ring(outer));
+        const solid = f.add('IFCEXTRUDEDAREASOLID', profile, at(z), up, depth);
+        return f.add('IFCPRODUCTDEFINITIONSHAPE', null, null, [f.add('IFCSHAPEREPRESENTATION', body, 'Body', 'SweptSolid', [solid])]);
+    };
+    const rel = (type: string, ...args: Array<StepRef | StepRef[]>) => f.add(type, ifcGuid(), null, null, null, ...args);
+
+    // spatial structure: project > site > building > storey, everything placed at the origin
+    const project = f.add('IFCPROJECT', ifcGuid(), null, opts.project, null, null, null, null, [context], units);
+    const sitePlace = f.add('IFCLOCALPLACEMENT', null, world);
+    const site = f.add('IFCSITE', ifcGuid(), null, 'Site', null, null, sitePlace, null, null, stepEnum('ELEMENT'), null, null, null, null, null);
+    const buildingPlace = f.add('IFCLOCALPLACEMENT', sitePlace, at(0));
+    const building = f.add('IFCBUILDING', ifcGuid(), null, 'Building', null, null, buildingPlace, null, null, stepEnum('ELEMENT'), null, null, null);
+    const storeyPlace = f.add('IFCLOCALPLACEMENT', buildingPlace, at(0));
+    const storey = f.add('IFCBUILDINGSTOREY', ifcGuid(), null, 'Ground floor', null, null, storeyPlace, null, null, stepEnum('ELEMENT'), 0);
+    rel('IFCRELAGGREGATES', project, [site]);
+    rel('IFCRELAGGREGATES', site, [building]);
+    rel('IFCRELAGGREGATES', building, [storey]);
+    const quantities = (target: StepRef, name: string, items: StepRef[]) =>
+        rel('IFCRELDEFINESBYPROPERTIES', [target], f.add('IFCELEMENTQUANTITY', ifcGuid(), null, name, null, null, items));
+    quantities(storey, 'Qto_BuildingStoreyBaseQuantities', [
+        f.add('IFCQUANTITYLENGTH', 'GrossHeight', null, null, opts.storeyHeight, null),
+        f.add('IFCQUANTITYLENGTH', 'NetHeight', null, null, opts.wallHeight, null),
+    ]);
+    const place = () => f.add('IFCLOCALPLACEMENT', storeyPlace, at(0));
+
+    const contained: StepRef[] = [];
+    const walls = new Map<PlanWall, StepRef>();
+    plan.walls.forEach((w, i) => {
+        const wall = f.add('IFCWALL', ifcGuid(), null, `Wall ${i + 1}`, null, null, place(), extrusion(w.boundary, w.holes ?? [], 0, opts.wallHeight), null, stepEnum('NOTDEFINED'));
+        walls.set(w, wall);
+        contained.push(wall);
+    });
+
+    // each door/window: an opening cut through its wall, filled by a thin panel on the
+    // wall centreline
+    const openings = (list: PlanOpening[], kind: 'door' | 'window') => list.forEach((o, i) => {
+        const frame = o.host && openingFrame(plan.graph ?? emptyWallGraph(), o.host);
+        const a = frame ? frame.a : o.boundary[0], b = frame ? frame.b : o.boundary[o.boundary.length - 1];
+        if (!a || !b || dist(a, b) === 0) return;
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        const host = openingWall(plan, o, mid);
+        const [z0, z1] = kind === 'door' ? [0, Math.min(DOOR_HEIGHT, opts.wallHeight)] : [Math.min(WINDOW_SILL, opts.wallHeight / 3), Math.min(WINDOW_HEAD, opts.wallHeight)];
+        const name = `${kind === 'door' ? 'Door' : 'Window'} ${i + 1}`;
+        const panel = extrusion(createWallRectangle(a, b, PANEL_THICKNESS / m), [], z0, z1 - z0);
+        const element = kind === 'door'
+            ? f.add('IFCDOOR', ifcGuid(), null, name, null, null, place(), panel, null, z1 - z0, dist(a, b) * m, stepEnum('DOOR'), stepEnum('NOTDEFINED'), null)
+            : f.add('IFCWINDOW', ifcGuid(), null, name, null, null, place(), panel, null, z1 - z0, dist(a, b) * m, stepEnum('WINDOW'), stepEnum('NOTDEFINED'), null);
+        contained.push(element);
+        if (!host) return;
+        // the void is made a little deeper than the wall so it cuts cleanly through both faces;
+        // free-form walls that aren't a plain rectangle are assumed 30 cm thick
+        const thickness = frame?.thickness ?? wallCenterline(host.boundary)?.thickness ?? 0.3 / m;
+        const opening = f.add('IFCOPENINGELEMENT', ifcGuid(), null, `${name} opening`, null, null, place(),
+            extrusion(createWallRectangle(a, b, thickness * 1.2), [], z0, z1 - z0), null, stepEnum('OPENING'));
+        rel('IFCRELVOIDSELEMENT', walls.get(host)!, opening);
+        rel('IFCRELFILLSELEMENT', opening, element);
+    });
+    openings(plan.doors, 'door');
+    openings(plan.windows, 'window');
+    if (contained.length) rel('IFCRELCONTAINEDINSPATIALSTRUCTURE', contained, storey);
+
+    // rooms: named spaces, their type as the object type, extruded to the wall height
+    const spaces = plan.rooms.map((r, i) => {
+        const space = f.add('IFCSPACE', ifcGuid(), null, r.name || `Space ${i + 1}`, null, r.type || null, place(),
+            extrusion(r.boundary, r.holes ?? [], 0, opts.wallHeight), r.name || null, stepEnum('ELEMENT'), stepEnum('INTERNAL'), null);
+        quantities(space, 'Qto_SpaceBaseQuantities', [
+            f.add('IFCQUANTITYAREA', 'NetFloorArea', null, null, shapeArea(r) * m * m, null),
+            f.add('IFCQUANTITYLENGTH', 'Height', null, null, opts.wallHeight, null),
+        ]);
+        return space;
+    });
+    if (spaces.length) rel('IFCRELAGGREGATES', storey, spaces);
+
+    return f.write({
+        description: ['ViewDefinition [ReferenceView_V1.2]'],
+        fileName: 'floorplan.ifc',
+        author: opts.author,
+        organization: '',
+        application: 'Intelligent Architect',
+        schema: 'IFC4',
+    });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, emptyWallGraph, Point } from './geometry';
+import { defaultLayers } from './layers';
+import { ArchitecturalPlan, syncWallGraph } from './plan';
+import { layerLineWeights, planPdf, PlanPdfOptions } from './planPdf';
+
+// A 20 m x 5 m building (1 unit = 1 cm)
+function testPlan(): ArchitecturalPlan {
+    const corners: Point[] = [{ x: 100, y: 100 }, { x: 2100, y: 100 }, { x: 2100, y: 600 }, { x: 100, y: 600 }];
+    let graph = emptyWallGraph();
+    corners.forEach((p, i) => { graph = addGraphWall(graph, p, corners[(i + 1) % 4], 20); });
+    return syncWallGraph({
+        walls: [], doors: [], windows: [],
+        rooms: [{ name: 'Hall', type: 'Hallway', boundary: corners }],
+        dimensions: { width: 2200, height: 700 },
+        scale: { metersPerUnit: 0.01, units: 'm' },
+    }, graph);
+}
+
+const options: PlanPdfOptions = {
+    layers: defaultLayers,
+    paper: 'A3',
+    scale: 100,
+    title: { project: 'Test house', date: '2026-01-02', drawnBy: 'Tester' },
+};
+
+const text = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('planPdf', () => {
+    const plan = testPlan();
+
+    it('turns the sheet to fit the plan', () => {
+        const pdf = text(planPdf(plan, options));
+        const [, w, h] = /\/MediaBox \[0 0 (\S+) (\S+)\]/.exec(pdf)!;
+        // A3 landscape, 420 x 297 mm in points
+        expect(Number(w)).toBeCloseTo((420 * 72) / 25.4, 1);
+        expect(Number(h)).toBeCloseTo((297 * 72) / 25.4, 1);
+    });
+
+    it('writes the title block and the scale', () => {
+        const pdf = text(planPdf(plan, options));
+        expect(pdf).toContain('(Test house)');
+        expect(pdf).toContain('(Tester)');
+        expect(pdf).toContain('1:100');
+    });
+
+    it('draws walls and rooms at their layer line weights', () => {
+        const pdf = text(planPdf(plan, options));
+        const weight = (mm: number) => `\n${Math.round(((mm * 72) / 25.4) * 1000) / 1000} w\n`;
+        expect(pdf).toContain(weight(layerLineWeights.walls!));
+        expect(pdf).toContain(weight(layerLineWeights.rooms!));
+    });
+
+    it('refuses plans that are uncalibrated or too big for the paper', () => {
+        expect(() => planPdf({ ...plan, scale: undefined }, options)).toThrow(/Calibrate/);
+        expect(() => planPdf(plan, { ...options, scale: 50 })).toThrow(/larger paper or scale/);
+        expect(() => planPdf(plan, { ...options, paper: 'A4', scale: 50 })).toThrow(/larger paper or scale/);
+    });
+});
@@ -0,0 +1,331 @@
+// planPdf.ts - architectural plan to a print-ready PDF sheet at a true scale (1:50, 1:100)
+// on A4, A3 or Letter, with a border, scale bar, north arrow, layer legend and title block
+import { Arc, arcPointAt, createWallRectangle, emptyWallGraph, labelPoint, Point, pointsBounds, shapeArea } from './geometry';
+import { LayerId, layerLabels, PlanLayers } from './layers';
+import { ArchitecturalPlan, doorSwing, openingFrame, roomColors } from './plan';
+import { MM, PdfContent, pdfContent, pdfDocument, PdfImage, Rgb } from './pdf';
+import { TitleBlock } from './planSvg';
+import { symbolDef, symbolTransform } from './symbols';
+import { dimensionGeometry } from './dimensions';
+import { formatArea, formatLength } from './units';
+
+export type PaperSize = 'A4' | 'A3' | 'Letter';
+
+// Portrait width x height in millimetres
+export const paperSizes: Record<PaperSize, [number, number]> = {
+    A4: [210, 297],
+    A3: [297, 420],
+    Letter: [215.9, 279.4],
+};
+
+export const pdfScales = [50, 100];
+
+// Pen widths in millimetres on paper, heaviest for cut walls as on a drawn plan
+export const layerLineWeights: Partial<Record<LayerId, number>> = {
+    walls: 0.5,
+    windows: 0.25,
+    doors: 0.25,
+    furniture: 0.18,
+    rooms: 0.13,
+    dimensions: 0.13,
+};
+
+export type PlanPdfOptions = {
+    layers: PlanLayers;
+    paper: PaperSize;
+    scale: number; // 1:scale
+    title: TitleBlock;
+    underlay?: PdfImage; // the render, drawn under the plan at the render layer's opacity
+    print?: boolean; // black linework instead of layer colours
+};
+
+const MARGIN = 10, FOOTER = 34, GAP = 5; // mm
+
+const rgb = (hex: string): Rgb => {
+    const n = parseInt(hex.replace('#', ''), 16);
+    return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+};
+// blend towards white, for fills that mustn't hide the linework
+const tint = (c: Rgb, k: number): Rgb => c.map(v => 1 - (1 - v) * k) as Rgb;
+// layer colours are picked for the editor's dark canvas; darken the light ones for paper
+const ink = (c: Rgb): Rgb => {
+    const lum = 0.2126 * c[0] + 0.7152 * c[1] + 0.0722 * c[2];
+    return c.map(v => v * Math.min(1, 0.5 / Math.max(lum, 1e-6))) as Rgb;
+};
+const BLACK: Rgb = [0, 0, 0];
+
+// Cubic Bézier approximation of an arc, at most a quarter turn per curve
+function arcPath(pdf: PdfContent, arc: Arc, map: (p: Point) => Point, move: boolean) {
+    const n = Math.max(1, Math.ceil(Math.abs(arc.sweep) / (Math.PI / 2)));
+    const step = arc.sweep / n, k = (4 / 3) * Math.tan(step / 4);
+    const start = map(arcPointAt(arc, 0));
+    if (move) pdf.moveTo(start.x, start.y);
+    for (let i = 0; i < n; i++) {
+        const a0 = arc.start + step * i, a1 = a0 + step;
+        const p0 = arcPointAt(arc, i / n), p3 = arcPointAt(arc, (i + 1) / n);
+        const c1 = { x: p0.x - k * arc.radius * Math.sin(a0), y: p0.y + k * arc.radius * Math.cos(a0) };
+        const c2 = { x: p3.x + k * arc.radius * Math.sin(a1), y: p3.y - k * arc.radius * Math.cos(a1) };
+        const [m1, m2, m3] = [c1, c2, p3].map(map);
+        pdf.curveTo(m1.x, m1.y, m2.x, m2.y, m3.x, m3.y);
+    }
+}
+
+// Extent of what's drawn on the plan, so empty image margins don't count towards the sheet
+function planBounds(plan: ArchitecturalPlan) {
+    const b = pointsBounds([
+        ...plan.walls.flatMap(w => w.boundary),
+        ...plan.rooms.flatMap(r => r.boundary),
+        ...plan.doors.flatMap(o => o.boundary),
+        ...plan.windows.flatMap(o => o.boundary),
+        ...(plan.dimensionLines ?? []).flatMap(d => [d.a, d.b]),
+        ...(plan.symbols ?? []).map(s => s.at),
+    ]);
+    return b ?? { x0: 0, y0: 0, x1: plan.dimensions.width, y1: plan.dimensions.height };
+}
+
+// Lay the plan out at 1:scale. Throws if the plan isn't calibrated or doesn't fit the
+// paper in either orientation.
+export function planPdf(plan: ArchitecturalPlan, opts: PlanPdfOptions): Uint8Array {
+    if (!plan.scale) throw new Error('Calibrate the plan scale before exporting a scaled PDF.');
+    const mmPerUnit = (plan.scale.metersPerUnit * 1000) / opts.scale;
+    const b = planBounds(plan);
+    const pad = 8 / mmPerUnit; // room for dimension text and wall thickness around the extent
+    const bx0 = b.x0 - pad, by0 = b.y0 - pad, bx1 = b.x1 + pad, by1 = b.y1 + pad;
+    const needW = (bx1 - bx0) * mmPerUnit, needH = (by1 - by0) * mmPerUnit;
+
+    const [pw, ph] = paperSizes[opts.paper];
+    const fits = (w: number, h: number) => needW <= w - 2 * MARGIN - 2 * GAP && needH <= h - 2 * MARGIN - FOOTER - 2 * GAP;
+    const landscape = fits(ph, pw);
+    if (!landscape && !fits(pw, ph)) {
+        throw new Error(`At 1:${opts.scale} the plan needs ${Math.ceil(needW)} × ${Math.ceil(needH)} mm, more than ${opts.paper} can take. Choose a larger paper or scale.`);
+    }
+    const [W, H] = landscape ? [ph, pw] : [pw, ph];
+
+    // drawing area above the footer; the plan is centred in it
+    const area = { x: MARGIN + GAP, y: MARGIN + FOOTER + GAP, w: W - 2 * MARGIN - 2 * GAP, h: H - 2 * MARGIN - FOOTER - 2 * GAP };
+    const ox = area.x + (area.w - needW) / 2, oy = area.y + (area.h - needH) / 2;
+    const k = mmPerUnit * MM;
+    const at = (p: Point): Point => ({ x: ox * MM + (p.x - bx0) * k, y: oy * MM + (by1 - p.y) * k });
+
+    const pdf = pdfContent();
+    const opacities: number[] = [];
+    const color = (id: LayerId): Rgb => (opts.print ? BLACK : ink(rgb(opts.layers[id].color)));
+    const visible = (id: LayerId) => opts.layers[id].visible;
+    const pen = (id: LayerId) => pdf.lineWidth((layerLineWeights[id] ?? 0.18) * MM);
+    const graph = plan.graph ?? emptyWallGraph();
+    pdf.lineJoin(1);
+
+    // render underlay, clipped to the drawing area
+    if (opts.underlay && visible('render')) {
+        pdf.save();
+        pdf.rect(area.x * MM, area.y * MM, area.w * MM, area.h * MM);
+        pdf.clip();
+        opacities.push(opts.layers.render.opacity ?? 1);
+        pdf.opacity(opacities.length - 1);
+        const o = at({ x: 0, y: plan.dimensions.height });
+        pdf.image(0, o.x, o.y, plan.dimensions.width * k, plan.dimensions.height * k);
+        pdf.restore();
+    }
+
+    const ring = (pts: Point[]) => pdf.polyline(pts.map(at), true);
+    if (visible('rooms')) {
+        pen('rooms');
+        pdf.stroke(color('rooms'));
+        plan.rooms.forEach(r => {
+            pdf.fill(tint(rgb(roomColors[r.type] ?? '#e5e7eb'), 0.25));
+            [r.boundary, ...(r.holes ?? [])].forEach(ring);
+            pdf.paint('B*');
+        });
+    }
+    if (visible('furniture')) {
+        pen('furniture');
+        pdf.stroke(color('furniture'));
+        (plan.symbols ?? []).forEach(s => {
+            const def = symbolDef(s.symbol);
+            if (!def) return;
+            const map = symbolTransform(s);
+            def.shapes.forEach(sh => {
+                if (sh.kind === 'circle') {
+                    arcPath(pdf, { center: map(sh.center), radius: sh.radius * s.scale, start: 0, sweep: 2 * Math.PI }, at, true);
+                    pdf.close();
+                } else {
+                    pdf.polyline(sh.points.map(p => at(map(p))), sh.closed);
+                }
+                pdf.paint('S');
+            });
+        });
+    }
+    if (visible('walls')) {
+        pen('walls');
+        pdf.stroke(color('walls'));
+        pdf.fill(tint(color('walls'), opts.print ? 0.45 : 0.35));
+        plan.walls.forEach(w => {
+            if (w.arc) {
+                const { arc } = w;
+                const outer = { ...arc, radius: arc.radius + arc.thickness / 2 };
+                const inner = { ...arc, radius: Math.max(arc.radius - arc.thickness / 2, 1e-6), start: arc.start + arc.sweep, sweep: -arc.sweep };
+                arcPath(pdf, outer, at, true);
+                const p = at(arcPointAt(inner, 0));
+                pdf.lineTo(p.x, p.y);
+                arcPath(pdf, inner, at, false);
+                pdf.close();
+            } else {
+                [w.boundary, ...(w.holes ?? [])].forEach(ring);
+            }
+            pdf.paint('B*');
+        });
+    }
+    if (visible('windows')) {
+        pen('windows');
+        pdf.stroke(color('windows'));
+        pdf.fill([1, 1, 1]);
+        plan.windows.forEach(wd => {
+            const f = wd.host && openingFrame(graph, wd.host);
+            if (!f) {
+                pdf.polyline(wd.boundary.map(at), false);
+                pdf.paint('S');
+                return;
+            }
+            ring(createWallRectangle(f.a, f.b, f.thickness));
+            pdf.paint('B');
+            const [a, c] = [at(f.a), at(f.b)];
+            pdf.moveTo(a.x, a.y);
+            pdf.lineTo(c.x, c.y);
+            pdf.paint('S');
+        });
+    }
+    if (visible('doors')) {
+        pen('doors');
+        pdf.stroke(color('doors'));
+        plan.doors.forEach(dr => {
+            const swing = doorSwing(graph, dr);
+            if (!swing) {
+                pdf.polyline(dr.boundary.map(at), false);
+                pdf.paint('S');
+                return;
+            }
+            const [h, o] = [at(swing.hinge), at(swing.open)];
+            pdf.moveTo(h.x, h.y);
+            pdf.lineTo(o.x, o.y);
+            pdf.paint('S');
+            pdf.save();
+            pdf.lineWidth(0.13 * MM);
+            pdf.dash([1.5 * MM, 1 * MM]);
+            arcPath(pdf, swing.arc, at, true);
+            pdf.paint('S');
+            pdf.restore();
+        });
+    }
+    if (visible('dimensions')) {
+        pen('dimensions');
+        pdf.stroke(color('dimensions'));
+        pdf.fill(color('dimensions'));
+        // arrows 2 mm and text 2.5 mm high on paper, whatever the scale
+        (plan.dimensionLines ?? []).forEach(dim => {
+            const g = dimensionGeometry(dim, 2 / mmPerUnit);
+            [...g.extensions, g.line].forEach(([a, c]) => {
+                const [p, q] = [at(a), at(c)];
+                pdf.moveTo(p.x, p.y);
+                pdf.lineTo(q.x, q.y);
+                pdf.paint('S');
+            });
+            g.arrows.forEach(tri => { ring(tri); pdf.paint('f'); });
+            const rad = (g.angle * Math.PI) / 180;
+            const p = at({ x: g.label.x + Math.sin(rad) * (0.8 / mmPerUnit), y: g.label.y - Math.cos(rad) * (0.8 / mmPerUnit) });
+            pdf.text(p.x, p.y, 2.5 * MM, formatLength(g.length, plan.scale), { rotation: -g.angle, align: 'center' });
+        });
+    }
+    if (visible('annotations')) {
+        pdf.fill(color('annotations'));
+        plan.rooms.forEach(r => {
+            const p = at(labelPoint(r));
+            if (r.name) pdf.text(p.x, p.y + 1 * MM, 3 * MM, r.name, { bold: true, align: 'center' });
+            pdf.text(p.x, p.y - 3 * MM, 2.5 * MM, formatArea(shapeArea(r), plan.scale), { align: 'center' });
+        });
+    }
+
+    sheetFrame(pdf, plan, opts, W, H, landscape);
+
+    const content = pdf.toString();
+    return pdfDocument(
+        [{ width: W * MM, height: H * MM, content, images: opts.underlay ? [opts.underlay] : [], opacities }],
+        {
+            title: opts.title.project,
+            author: opts.title.drawnBy,
+            subject: `Floor plan, 1:${opts.scale} on ${opts.paper}`,
+            keywords: 'floor plan, architecture',
+        }
+    );
+}
+
+// Border, then along the bottom: scale bar and north arrow, layer legend, title block.
+function sheetFrame(pdf: PdfContent, plan: ArchitecturalPlan, opts: PlanPdfOptions, W: number, H: number, landscape: boolean) {
+    const line = (x0: number, y0: number, x1: number, y1: number) => {
+        pdf.moveTo(x0 * MM, y0 * MM);
+        pdf.lineTo(x1 * MM, y1 * MM);
+        pdf.paint('S');
+    };
+    pdf.stroke(BLACK);
+    pdf.fill(BLACK);
+    pdf.lineWidth(0.5 * MM);
+    pdf.rect(MARGIN * MM, MARGIN * MM, (W - 2 * MARGIN) * MM, (H - 2 * MARGIN) * MM);
+    pdf.paint('S');
+    pdf.lineWidth(0.25 * MM);
+    line(MARGIN, MARGIN + FOOTER, W - MARGIN, MARGIN + FOOTER);
+
+    // scale bar: four segments of a round length in metres (feet for imperial plans)
+    const imperial = plan.scale?.units === 'ft-in';
+    const unit = imperial ? 0.3048 : 1;
+    const step = [5, 2, 1, 0.5].find(s => (s * unit * 1000) / opts.scale <= 12) ?? 0.5; // each segment at most 12 mm
+    const seg = (step * unit * 1000) / opts.scale;
+    const sx = MARGIN + 6, sy = MARGIN + 14;
+    for (let i = 0; i < 4; i++) {
+        pdf.rect((sx + i * seg) * MM, sy * MM, seg * MM, 2 * MM);
+        pdf.paint(i % 2 ? 'S' : 'B');
+    }
+    [0, 2, 4].forEach(i => pdf.text((sx + i * seg) * MM, (sy - 4) * MM, 2.2 * MM, `${i * step}${imperial ? ' ft' : ' m'}`, { align: 'center' }));
+    pdf.text(sx * MM, (sy + 5) * MM, 2.5 * MM, `Scale 1:${opts.scale}`, { bold: true });
+
+    // north arrow, assuming north is up the sheet
+    const nx = sx + 4 * seg + 10, ny = MARGIN + FOOTER / 2 - 1;
+    pdf.lineWidth(0.25 * MM);
+    pdf.moveTo(nx * MM, (ny + 7) * MM);
+    pdf.lineTo((nx + 3) * MM, (ny - 5) * MM);
+    pdf.lineTo(nx * MM, (ny - 3) * MM);
+    pdf.close();
+    pdf.paint('B');
+    pdf.moveTo(nx * MM, (ny + 7) * MM);
+    pdf.lineTo((nx - 3) * MM, (ny - 5) * MM);
+    pdf.lineTo(nx * MM, (ny - 3) * MM);
+    pdf.close();
+    pdf.paint('S');
+    pdf.text(nx * MM, (ny + 9) * MM, 3 * MM, 'N', { bold: true, align: 'center' });
+
+    // title block on the right
+    const tw = Math.min(95, (W - 2 * MARGIN) * 0.4), tx = W - MARGIN - tw;
+    line(tx, MARGIN, tx, MARGIN + FOOTER);
+    const rows: Array<[string, string]> = [
+        ['Project', opts.title.project],
+        ['Drawn by', opts.title.drawnBy],
+        ['Date', opts.title.date],
+        ['Scale / sheet', `1:${opts.scale} · ${opts.paper} ${landscape ? 'landscape' : 'portrait'}`],
+    ];
+    const rowH = FOOTER / rows.length;
+    rows.forEach(([key, value], i) => {
+        const y = MARGIN + FOOTER - rowH * (i + 1);
+        if (i) line(tx, y + rowH, W - MARGIN, y + rowH);
+        pdf.text((tx + 2) * MM, (y + rowH - 3) * MM, 1.8 * MM, key.toUpperCase());
+        pdf.text((tx + 2) * MM, (y + 1.6) * MM, (i ? 2.6 : 3.2) * MM, value, { bold: i === 0 });
+    });
+
+    // legend between the north arrow and the title block: a pen sample per visible layer
+    const lx = nx + 9;
+    (Object.keys(layerLineWeights) as LayerId[]).filter(id => opts.layers[id].visible).forEach((id, i) => {
+        const y = MARGIN + FOOTER - 5 - i * 5;
+        const weight = layerLineWeights[id]!;
+        pdf.stroke(opts.print ? BLACK : ink(rgb(opts.layers[id].color)));
+        pdf.lineWidth(weight * MM);
+        line(lx, y, lx + 8, y);
+        pdf.text((lx + 10) * MM, (y - 0.8) * MM, 2.2 * MM, `${layerLabels[id]} ${weight.toFixed(2)} mm`);
+    });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, emptyWallGraph, Point } from './geometry';
+import { defaultLayers, layerIds, LayerId, updateLayer } from './layers';
+import { ArchitecturalPlan, syncWallGraph } from './plan';
+import { planSvg } from './planSvg';
+
+// A 4 m x 3 m room (1 unit = 1 cm) with a door in its top wall and a dimension along it
+function testPlan(): ArchitecturalPlan {
+    const corners: Point[] = [{ x: 100, y: 100 }, { x: 500, y: 100 }, { x: 500, y: 400 }, { x: 100, y: 400 }];
+    let graph = emptyWallGraph();
+    corners.forEach((p, i) => { graph = addGraphWall(graph, p, corners[(i + 1) % 4], 10); });
+    return syncWallGraph({
+        walls: [],
+        doors: [{ boundary: [], host: { edge: graph.edges[0].id, offset: 200, width: 80 } }],
+        windows: [],
+        rooms: [{ name: 'Living', type: 'Living Room', boundary: corners }],
+        dimensions: { width: 600, height: 500 },
+        dimensionLines: [{ a: corners[0], b: corners[1], offset: -30 }],
+        scale: { metersPerUnit: 0.01, units: 'm' },
+    }, graph);
+}
+
+// The opening tag and content of one layer group, up to the next layer or the footer
+function layer(svg: string, id: LayerId) {
+    const start = svg.indexOf(`<g id="layer-${id}"`);
+    const rest = svg.slice(start + 1);
+    const end = Math.min(...['<g id="layer-', '<g class="footer"'].map(s => rest.indexOf(s)).filter(i => i >= 0));
+    const text = svg.slice(start, start + 1 + end);
+    return { tag: text.slice(0, text.indexOf('>') + 1), body: text };
+}
+
+describe('planSvg', () => {
+    const plan = testPlan();
+
+    it('writes one Inkscape layer per plan layer, in drawing order', () => {
+        const svg = planSvg(plan, { layers: defaultLayers });
+        const order = [...svg.matchAll(/<g id="layer-(\w+)" data-layer="\1" inkscape:groupmode="layer"/g)].map(m => m[1]);
+        expect(order).toEqual(layerIds);
+    });
+
+    it('puts each part of the plan on its layer, in the layer colour', () => {
+        const svg = planSvg(plan, { layers: defaultLayers });
+        expect(layer(svg, 'walls').tag).toContain(`color="${defaultLayers.walls.color}"`);
+        // the door splits the top wall in two
+        expect(layer(svg, 'walls').body.match(/class="wall-shape"/g)).toHaveLength(plan.walls.length);
+        expect(plan.walls).toHaveLength(5);
+        expect(layer(svg, 'doors').body).toContain('class="door-leaf"');
+        expect(layer(svg, 'doors').body).toContain('class="door-swing"');
+        expect(layer(svg, 'rooms').body).toContain('data-room-type="Living Room"');
+        expect(layer(svg, 'dimensions').body).toContain('>4.00 m</text>');
+        expect(layer(svg, 'annotations').body).toContain('>Living</tspan>');
+        expect(layer(svg, 'annotations').body).toContain('>12.00 m²</tspan>');
+        expect(layer(svg, 'windows').tag).toMatch(/\/>$/);
+    });
+
+    it('hides hidden layers and draws in black for print', () => {
+        const layers = updateLayer(defaultLayers, 'dimensions', { visible: false });
+        const svg = planSvg(plan, { layers });
+        expect(layer(svg, 'dimensions').tag).toContain('display="none"');
+        expect(layer(svg, 'walls').tag).not.toContain('display=');
+        const print = planSvg(plan, { layers, print: true });
+        layerIds.forEach(id => expect(layer(print, id).tag).toContain('color="#000000"'));
+    });
+
+    it('sizes the sheet at 1:1 and adds a scale bar only to calibrated plans', () => {
+        const svg = planSvg(plan, { layers: defaultLayers });
+        expect(svg).toMatch(/<svg [^>]*width="6000mm" height="5600mm"/);
+        expect(svg).toContain('class="scale-bar"');
+        expect(planSvg({ ...plan, scale: undefined }, { layers: defaultLayers })).not.toContain('class="scale-bar"');
+    });
+});
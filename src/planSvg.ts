@@ -0,0 +1,214 @@
+// planSvg.ts - architectural plan to a standalone SVG drawing: one <g> per layer (Inkscape
+// sees them as layers), embedded styles, room labels, dimensions, and a footer with a
+// scale bar, north arrow and optional title block
+import { arcPointAt, arcWallPathData, createWallRectangle, emptyWallGraph, labelPoint, Point, shapeArea, shapePathData } from './geometry';
+import { LayerId, layerIds, layerLabels, PlanLayers } from './layers';
+import { ArchitecturalPlan, doorSwing, openingFrame, roomColors } from './plan';
+import { el, SvgNode, svgDocument, svgNum, svgPoints } from './svg';
+import { symbolDef, symbolLibrary, symbolSvgTransform } from './symbols';
+import { dimensionGeometry } from './dimensions';
+import { formatArea, formatLength, svgPhysicalSize } from './units';
+
+export type TitleBlock = { project: string; date: string; drawnBy: string };
+
+export type PlanSvgOptions = {
+    layers: PlanLayers;
+    background?: string; // data URL of the render, drawn on the render layer
+    title?: TitleBlock;
+    north?: number; // direction of north, degrees clockwise from up
+    // black linework on white for printing, instead of the editor's layer colours
+    print?: boolean;
+};
+
+const style = (print: boolean) => `
+.wall-shape { fill: currentColor; fill-opacity: ${print ? 0.6 : 0.3}; stroke: currentColor; stroke-width: 2px; }
+.opening-line { fill: none; stroke: currentColor; stroke-width: 4px; }
+.window-frame { fill: currentColor; fill-opacity: 0.15; stroke: currentColor; stroke-width: 1.5px; }
+.window-glass, .dim-line { stroke: currentColor; stroke-width: 1px; }
+.door-leaf { stroke: currentColor; stroke-width: 2.5px; }
+.door-swing { fill: none; stroke: currentColor; stroke-width: 1px; stroke-dasharray: 4 3; }
+.room-shape { fill-opacity: ${print ? 0.12 : 0.25}; stroke: currentColor; stroke-width: 1px; stroke-opacity: 0.6; }
+.symbol-line { fill: none; stroke: currentColor; stroke-width: 1px; }
+.dim-arrow { fill: currentColor; }
+.label { fill: currentColor; font-family: Helvetica, Arial, sans-serif; }
+.room-label { font-weight: 600; }
+.room-area { font-size: 0.8em; }
+${print ? '' : '.room-label, .dim-label { paint-order: stroke; stroke: rgba(0, 0, 0, 0.7); stroke-width: 3px; }'}
+.sheet { fill: ${print ? '#ffffff' : '#1f2937'}; }
+.footer { color: ${print ? '#000000' : '#e5e7eb'}; }
+.bar { stroke: currentColor; stroke-width: 1px; }
+.bar-dark { fill: currentColor; }
+.bar-light, .title-box { fill: none; stroke: currentColor; stroke-width: 1px; }
+.title-key { font-size: 0.7em; opacity: 0.7; }
+* { vector-effect: non-scaling-stroke; }
+`;
+
+// Scale bar length: the largest 1/2/5 step (metres, or feet for imperial plans) that
+// fits in `maxMetres`.
+function scaleBarLength(maxMetres: number, imperial: boolean): number {
+    const unit = imperial ? 0.3048 : 1;
+    const max = maxMetres / unit;
+    const pow = 10 ** Math.floor(Math.log10(max));
+    const step = [5, 2, 1].map(k => k * pow).find(v => v <= max) ?? pow;
+    return step * unit;
+}
+
+function planLayer(id: LayerId, opts: PlanSvgOptions, children: SvgNode[]): SvgNode {
+    const layer = opts.layers[id];
+    return el('g', {
+        id: `layer-${id}`,
+        'data-layer': id,
+        'inkscape:groupmode': 'layer',
+        'inkscape:label': layerLabels[id],
+        color: opts.print ? '#000000' : layer.color,
+        display: layer.visible ? undefined : 'none',
+    }, children);
+}
+
+function planLayers(plan: ArchitecturalPlan, opts: PlanSvgOptions): SvgNode[] {
+    const { width, height } = plan.dimensions;
+    const size = Math.max(width, height);
+    const graph = plan.graph ?? emptyWallGraph();
+    const symbols = (plan.symbols ?? []).filter(s => symbolDef(s.symbol));
+
+    const content: Record<LayerId, SvgNode[]> = {
+        render: opts.background
+            ? [el('image', { href: opts.background, width, height, preserveAspectRatio: 'none', opacity: opts.layers.render.opacity ?? 1 })]
+            : [],
+        rooms: plan.rooms.map(r => el('path', {
+            d: shapePathData(r),
+            'fill-rule': 'evenodd',
+            class: 'room-shape',
+            fill: roomColors[r.type] ?? '#e5e7eb',
+            'data-room-type': r.type || undefined,
+        })),
+        furniture: symbols.map(s => el('use', { href: `#sym-${s.symbol}`, transform: symbolSvgTransform(s) })),
+        walls: plan.walls.map(w => w.arc
+            ? el('path', { d: arcWallPathData(w.arc), class: 'wall-shape' })
+            : el('path', { d: shapePathData(w), 'fill-rule': 'evenodd', class: 'wall-shape' })),
+        windows: plan.windows.map(wd => {
+            const f = wd.host && openingFrame(graph, wd.host);
+            if (!f) return el('polyline', { points: svgPoints(wd.boundary), class: 'opening-line' });
+            return el('g', {}, [
+                el('polygon', { points: svgPoints(createWallRectangle(f.a, f.b, f.thickness)), class: 'window-frame' }),
+                el('line', { x1: f.a.x, y1: f.a.y, x2: f.b.x, y2: f.b.y, class: 'window-glass' }),
+            ]);
+        }),
+        doors: plan.doors.map(dr => {
+            const swing = doorSwing(graph, dr);
+            if (!swing) return el('polyline', { points: svgPoints(dr.boundary), class: 'opening-line' });
+            const { hinge, open, arc } = swing;
+            const latch = arcPointAt(arc, 1);
+            return el('g', {}, [
+                el('line', { x1: hinge.x, y1: hinge.y, x2: open.x, y2: open.y, class: 'door-leaf' }),
+                el('path', {
+                    d: `M${svgNum(open.x)},${svgNum(open.y)}A${svgNum(arc.radius)},${svgNum(arc.radius)} 0 0 ${arc.sweep > 0 ? 1 : 0} ${svgNum(latch.x)},${svgNum(latch.y)}`,
+                    class: 'door-swing',
+                }),
+            ]);
+        }),
+        dimensions: (plan.dimensionLines ?? []).map(dim => {
+            const g = dimensionGeometry(dim, size / 100);
+            return el('g', {}, [
+                ...[...g.extensions, g.line].map(([a, b]) => el('line', { x1: a.x, y1: a.y, x2: b.x, y2: b.y, class: 'dim-line' })),
+                ...g.arrows.map(tri => el('polygon', { points: svgPoints(tri), class: 'dim-arrow' })),
+                el('text', {
+                    x: g.label.x,
+                    y: g.label.y,
+                    'font-size': size / 70,
+                    class: 'label dim-label',
+                    'text-anchor': 'middle',
+                    dy: '-0.35em',
+                    transform: `rotate(${svgNum(g.angle)} ${svgNum(g.label.x)} ${svgNum(g.label.y)})`,
+                }, [formatLength(g.length, plan.scale)]),
+            ]);
+        }),
+        annotations: plan.rooms.map(r => {
+            const at = labelPoint(r);
+            return el('text', { x: at.x, y: at.y, 'font-size': size / 60, class: 'label room-label', 'text-anchor': 'middle' }, [
+                el('tspan', { x: at.x, dy: '-0.1em' }, [r.name]),
+                el('tspan', { x: at.x, dy: '1.2em', class: 'room-area' }, [formatArea(shapeArea(r), plan.scale)]),
+            ]);
+        }),
+    };
+
+    // library symbols used by the plan, defined once and placed with <use>
+    const defs = el('defs', {}, symbolLibrary.filter(def => symbols.some(s => s.symbol === def.id)).map(def =>
+        el('symbol', { id: `sym-${def.id}`, overflow: 'visible' }, def.shapes.map(sh => sh.kind === 'circle'
+            ? el('circle', { cx: sh.center.x, cy: sh.center.y, r: sh.radius, class: 'symbol-line' })
+            : el(sh.closed ? 'polygon' : 'polyline', { points: svgPoints(sh.points), class: 'symbol-line' })))
+    ));
+
+    return [defs, ...layerIds.map(id => planLayer(id, opts, content[id]))];
+}
+
+// Footer under the plan: scale bar (calibrated plans only), north arrow and title block.
+function footer(plan: ArchitecturalPlan, opts: PlanSvgOptions, top: number, height: number): SvgNode {
+    const width = plan.dimensions.width;
+    const pad = height * 0.15;
+    const font = height * 0.16;
+    const items: SvgNode[] = [];
+    let x = pad;
+
+    const scale = plan.scale;
+    if (scale) {
+        const metres = scaleBarLength((width * 0.3 * scale.metersPerUnit), scale.units === 'ft-in');
+        const len = metres / scale.metersPerUnit;
+        const barH = height * 0.1, y = top + height * 0.35;
+        items.push(el('g', { class: 'scale-bar' }, [
+            ...[0, 1, 2, 3].map(i => el('rect', {
+                x: x + (i * len) / 4, y, width: len / 4, height: barH,
+                class: `bar ${i % 2 ? 'bar-light' : 'bar-dark'}`,
+            })),
+            el('text', { x, y: y + barH + font * 1.2, 'font-size': font, class: 'label', 'text-anchor': 'middle' }, ['0']),
+            el('text', { x: x + len, y: y + barH + font * 1.2, 'font-size': font, class: 'label', 'text-anchor': 'middle' }, [formatLength(len, scale)]),
+        ]));
+        x += len + pad * 2;
+    } else {
+        items.push(el('text', { x, y: top + height * 0.5, 'font-size': font, class: 'label' }, ['Not to scale']));
+        x += font * 7;
+    }
+
+    // north arrow: a half-filled pointer in a circle
+    const r = height * 0.28;
+    const c: Point = { x: x + r, y: top + height * 0.45 };
+    items.push(el('g', { class: 'north-arrow', transform: `rotate(${svgNum(opts.north ?? 0)} ${svgNum(c.x)} ${svgNum(c.y)})` }, [
+        el('circle', { cx: c.x, cy: c.y, r, class: 'bar-light' }),
+        el('polygon', { points: svgPoints([{ x: c.x, y: c.y - r * 0.85 }, { x: c.x + r * 0.35, y: c.y + r * 0.5 }, { x: c.x, y: c.y + r * 0.25 }]), class: 'bar-dark' }),
+        el('polygon', { points: svgPoints([{ x: c.x, y: c.y - r * 0.85 }, { x: c.x - r * 0.35, y: c.y + r * 0.5 }, { x: c.x, y: c.y + r * 0.25 }]), class: 'bar-light' }),
+        el('text', { x: c.x, y: c.y - r - font * 0.3, 'font-size': font, class: 'label', 'text-anchor': 'middle' }, ['N']),
+    ]));
+
+    if (opts.title) {
+        const rows: Array<[string, string]> = [['Project', opts.title.project], ['Date', opts.title.date], ['Drawn by', opts.title.drawnBy]];
+        const boxW = Math.min(width * 0.45, font * 22), boxH = height - pad * 2;
+        const bx = width - pad - boxW, by = top + pad, rowH = boxH / rows.length;
+        items.push(el('g', { class: 'title-block' }, [
+            el('rect', { x: bx, y: by, width: boxW, height: boxH, class: 'title-box' }),
+            ...rows.slice(1).map((_, i) => el('line', { x1: bx, y1: by + rowH * (i + 1), x2: bx + boxW, y2: by + rowH * (i + 1), class: 'bar' })),
+            ...rows.map(([key, value], i) => el('text', { x: bx + font * 0.5, y: by + rowH * i + rowH * 0.65, 'font-size': font, class: 'label' }, [
+                el('tspan', { class: 'title-key' }, [`${key}  `]),
+                value,
+            ])),
+        ]));
+    }
+    return el('g', { class: 'footer' }, items);
+}
+
+export function planSvg(plan: ArchitecturalPlan, opts: PlanSvgOptions): string {
+    const { width, height } = plan.dimensions;
+    const footerH = Math.max(width, height) * 0.1;
+    const sheet = { width, height: height + footerH };
+    const size = svgPhysicalSize(sheet, plan.scale);
+    return svgDocument({
+        width: size.width,
+        height: size.height,
+        viewBox: sheet,
+        style: style(!!opts.print),
+        children: [
+            el('rect', { width: sheet.width, height: sheet.height, class: 'sheet' }),
+            ...planLayers(plan, opts),
+            footer(plan, opts, height, footerH),
+        ],
+    });
+}
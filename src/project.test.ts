@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ArchitecturalPlan } from './plan';
+import { parseProject, planChangeSize, serializeProject } from './project';
+import { HistoryEntry } from './useUndo';
+
+const room = (x: number) => ({ name: `Room ${x}`, type: 'Bedroom', boundary: [{ x, y: 0 }, { x: x + 10, y: 0 }, { x: x + 10, y: 10 }] });
+
+// a history where each step adds a room and keeps the previous ones by reference, as edits do
+function history(steps: number): HistoryEntry<ArchitecturalPlan>[] {
+    let plan: ArchitecturalPlan = { walls: [], doors: [], windows: [], rooms: [], dimensions: { width: 100, height: 100 } };
+    const entries = [{ label: 'Start', state: plan, time: 1 }];
+    for (let i = 0; i < steps; i++) {
+        plan = { ...plan, rooms: [...plan.rooms, room(i * 20)], ...(i === 2 ? { scale: { metersPerUnit: 0.01, units: 'm' as const } } : {}) };
+        entries.push({ label: `Add room ${i}`, state: plan, time: i + 2 });
+    }
+    return entries;
+}
+
+describe('project files', () => {
+    it('round-trips the history', () => {
+        const entries = history(5);
+        const project = parseProject(serializeProject('a house', 'data:,', { entries, index: 3 }))!;
+        expect(project.prompt).toBe('a house');
+        expect(project.history.index).toBe(3);
+        expect(project.history.entries).toEqual(entries);
+        // unchanged items are shared between the reopened steps, as in the editor
+        const [, a, b] = project.history.entries;
+        expect(b.state.rooms[0]).toBe(a.state.rooms[0]);
+    });
+
+    it('stores each step as its changes rather than a full plan', () => {
+        const entries = history(40);
+        const text = serializeProject('', 'data:,', { entries, index: 40 });
+        const full = JSON.stringify(entries);
+        expect(text.length).toBeLessThan(full.length / 5);
+    });
+
+    it('keeps the latest steps when capped, including the current one', () => {
+        const entries = history(10);
+        const latest = parseProject(serializeProject('', 'data:,', { entries, index: 10 }, 4))!;
+        expect(latest.history.entries.map(e => e.label)).toEqual(['Add room 6', 'Add room 7', 'Add room 8', 'Add room 9']);
+        expect(latest.history.index).toBe(3);
+        expect(latest.history.entries[3].state).toEqual(entries[10].state);
+        const undone = parseProject(serializeProject('', 'data:,', { entries, index: 2 }, 3))!;
+        expect(undone.history.entries.map(e => e.label)).toEqual(['Add room 1', 'Add room 2', 'Add room 3']);
+        expect(undone.history.index).toBe(0);
+    });
+
+    it('still opens version 1 files', () => {
+        const entries = history(2);
+        const v1 = JSON.stringify({ kind: 'intelligent-architect/project', version: 1, prompt: '', image: 'data:,', history: { entries, index: 1 } });
+        expect(parseProject(v1)!.history.entries).toEqual(entries);
+    });
+
+    it('measures an edit by what it changed', () => {
+        const entries = history(40);
+        const [last, prev] = [entries[40].state, entries[39].state];
+        const full = planChangeSize(null, last);
+        expect(full).toBe(JSON.stringify(last).length);
+        expect(planChangeSize(prev, last)).toBeLessThan(full / 10);
+        expect(planChangeSize(last, last)).toBe(2);
+    });
+});
@@ -0,0 +1,132 @@
+// project.ts - saving and reopening an architectural project: the render it was traced
+// from and the plan's full undo history, as a JSON file or in the browser's local storage
+import { ArchitecturalPlan, normalizePlan } from './plan';
+import { SavedHistory } from './useUndo';
+
+export type ProjectFile = {
+    kind: 'intelligent-architect/project';
+    version: 1 | 2;
+    prompt: string;
+    image: string; // data URL of the render under the plan
+    history: SavedHistory<ArchitecturalPlan>;
+};
+
+// On disk the history is a log: the first kept plan in full, then what each later entry
+// changed. Lists are written item by item, an item carried over from the previous plan as
+// its index there, so an edit costs about what it touched rather than a whole plan.
+type ListPatch = Array<number | { item: unknown }>;
+type PlanPatch = { set?: Record<string, unknown>; lists?: Record<string, ListPatch>; unset?: string[] };
+type SavedEntry = { label: string; time: number; changes?: PlanPatch };
+
+const storageKey = 'intelligent-architect-project';
+
+function planPatch(prev: ArchitecturalPlan, next: ArchitecturalPlan): PlanPatch {
+    const patch: PlanPatch = {};
+    const before = prev as Record<string, unknown>, after = next as Record<string, unknown>;
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+        const a = before[key], b = after[key];
+        if (a === b) return;
+        if (b === undefined) {
+            (patch.unset ??= []).push(key);
+        } else if (Array.isArray(a) && Array.isArray(b)) {
+            const at = new Map(a.map((item, i) => [item, i]));
+            (patch.lists ??= {})[key] = b.map(item => at.get(item) ?? { item });
+        } else {
+            (patch.set ??= {})[key] = b;
+        }
+    });
+    return patch;
+}
+
+// Rough memory an edit adds to the undo history: the JSON length of what it changed, since
+// everything else is shared with the previous state.
+export function planChangeSize(prev: ArchitecturalPlan | null, next: ArchitecturalPlan | null): number {
+    if (!next) return 0;
+    return JSON.stringify(prev ? planPatch(prev, next) : next).length;
+}
+
+// Applied to the plans as saved, before normalizePlan, so list indices match what was written.
+function applyPatch(prev: Record<string, unknown>, patch: PlanPatch): Record<string, unknown> {
+    const next: Record<string, unknown> = { ...prev, ...patch.set };
+    patch.unset?.forEach(key => delete next[key]);
+    Object.entries(patch.lists ?? {}).forEach(([key, list]) => {
+        const from = Array.isArray(prev[key]) ? prev[key] : [];
+        next[key] = list.map(x => (typeof x === 'number' ? from[x] : x.item));
+    });
+    return next;
+}
+
+// `maxEntries` caps the undo steps written, dropping the oldest first but always keeping
+// the current one; local saves use it to stay inside the storage quota.
+export function serializeProject(prompt: string, image: string, history: SavedHistory<ArchitecturalPlan>, maxEntries = Infinity): string {
+    const start = Math.max(0, Math.min(history.index, history.entries.length - maxEntries));
+    const kept = history.entries.slice(start, start + maxEntries);
+    const entries: SavedEntry[] = kept.map((e, i) => ({
+        label: e.label,
+        time: e.time,
+        ...(i ? { changes: planPatch(kept[i - 1].state, e.state) } : {}),
+    }));
+    return JSON.stringify({
+        kind: 'intelligent-architect/project',
+        version: 2,
+        prompt,
+        image,
+        history: { base: kept[0].state, entries, index: history.index - start },
+    });
+}
+
+// Parse a saved project, or null if the text isn't one. Version 1 files hold every plan in
+// full; version 2 files hold the log above. Every plan goes through normalizePlan so older or
+// hand-edited files load like fresh traces.
+export function parseProject(text: string): ProjectFile | null {
+    try {
+        const data = JSON.parse(text);
+        if (data?.kind !== 'intelligent-architect/project' || (data.version !== 1 && data.version !== 2) || typeof data.image !== 'string') return null;
+        const saved: unknown[] = Array.isArray(data.history?.entries) ? data.history.entries : [];
+        if (!saved.length) return null;
+        let plan: Record<string, unknown> = data.history.base ?? {};
+        const entries = saved.map((raw, i) => {
+            const e = (raw ?? {}) as Record<string, unknown>;
+            if (data.version === 1) plan = (e.state ?? {}) as Record<string, unknown>;
+            else if (i && e.changes) plan = applyPatch(plan, e.changes as PlanPatch);
+            return {
+                label: typeof e.label === 'string' ? e.label : 'Edit',
+                state: normalizePlan(plan),
+                time: Number.isFinite(e.time) ? (e.time as number) : 0,
+            };
+        });
+        return {
+            kind: data.kind,
+            version: data.version,
+            prompt: typeof data.prompt === 'string' ? data.prompt : '',
+            image: data.image,
+            history: {
+                entries,
+                index: Number.isInteger(data.history.index) ? data.history.index : entries.length - 1,
+            },
+        };
+    } catch {
+        return null;
+    }
+}
+
+// Local storage is small (a few MB) and the render alone can approach that, so a failed
+// save is reported rather than thrown; the project can still be downloaded.
+export function saveProjectLocally(text: string): boolean {
+    try {
+        localStorage.setItem(storageKey, text);
+        return true;
+    } catch (error) {
+        console.error('Failed to save project to localStorage', error);
+        return false;
+    }
+}
+
+export function loadProjectLocally(): ProjectFile | null {
+    const text = localStorage.getItem(storageKey);
+    return text ? parseProject(text) : null;
+}
+
+export function clearLocalProject() {
+    localStorage.removeItem(storageKey);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { addGraphWall, emptyWallGraph, graphNode, Point } from './geometry';
+import { ArchitecturalPlan, syncWallGraph } from './plan';
+import { copySelection, emptySelection, pasteFragment, selectionCentre, transformSelection, translation } from './selection';
+
+// A 400 x 300 rectangle of graph walls
+function rectanglePlan(): ArchitecturalPlan {
+    const corners: Point[] = [{ x: 100, y: 100 }, { x: 500, y: 100 }, { x: 500, y: 400 }, { x: 100, y: 400 }];
+    let graph = emptyWallGraph();
+    corners.forEach((p, i) => { graph = addGraphWall(graph, p, corners[(i + 1) % 4], 10); });
+    return syncWallGraph({ walls: [], doors: [], windows: [], rooms: [], dimensions: { width: 600, height: 500 } }, graph);
+}
+
+describe('pasteFragment', () => {
+    const plan = rectanglePlan();
+    // copy the top wall and paste it across the rectangle, crossing both side walls
+    const top = plan.walls.findIndex(w => w.boundary.every(p => p.y < 150));
+    const fragment = copySelection(plan, { ...emptySelection, walls: [top] });
+    const { plan: pasted, selection } = pasteFragment(plan, fragment, { x: 300, y: 250 });
+
+    it('leaves the existing walls whole', () => {
+        const before = plan.graph!.edges.map(e => e.id);
+        expect(pasted.graph!.edges.filter(e => before.includes(e.id))).toEqual(plan.graph!.edges);
+        expect(pasted.graph!.edges).toHaveLength(before.length + 1);
+    });
+
+    it('selects only the pasted wall', () => {
+        expect(selection.walls).toHaveLength(1);
+        const edge = pasted.walls[selection.walls[0]].edge;
+        expect(plan.graph!.edges.some(e => e.id === edge)).toBe(false);
+    });
+
+    it('moves the pasted wall without dragging the originals', () => {
+        const moved = transformSelection(pasted, selection, translation({ x: 0, y: 20 }));
+        plan.graph!.edges.forEach(e => {
+            expect(graphNode(moved.graph!, e.a)).toEqual(graphNode(plan.graph!, e.a));
+            expect(graphNode(moved.graph!, e.b)).toEqual(graphNode(plan.graph!, e.b));
+        });
+    });
+});
+
+describe('selectionCentre', () => {
+    it('centres selections with more points than fit in an argument list', () => {
+        const n = 200000;
+        const boundary: Point[] = Array.from({ length: n }, (_, i) => {
+            const a = (i / n) * Math.PI * 2;
+            return { x: 300 + 100 * Math.cos(a), y: 200 + 100 * Math.sin(a) };
+        });
+        const plan: ArchitecturalPlan = { walls: [{ boundary }], doors: [], windows: [], rooms: [], dimensions: { width: 600, height: 400 } };
+        const c = selectionCentre(plan, { ...emptySelection, walls: [0] });
+        expect(c.x).toBeCloseTo(300);
+        expect(c.y).toBeCloseTo(200);
+    });
+});
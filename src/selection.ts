@@ -0,0 +1,303 @@
+// selection.ts - multi-selection, group transforms and copy/paste fragments for plans
+import {
+    add,
+    addGraphPiece,
+    arcPointAt,
+    arcThroughPoints,
+    dot,
+    emptyWallGraph,
+    graphNode,
+    moveGraphNode,
+    mul,
+    nearestPointOnSegment,
+    normalize,
+    Point,
+    pointsBounds,
+    sub,
+    WallGraph
+} from './geometry';
+import { ArchitecturalPlan, arcWall, placeOpening, PlanOpening, PlanSymbol, PlanWall, removeWallEdge, syncWallGraph } from './plan';
+import { symbolFootprint } from './symbols';
+import { PlanScale } from './units';
+
+// Indices into the plan's collections.
+export type PlanSelection = { walls: number[]; doors: number[]; windows: number[]; symbols: number[] };
+
+export type SelectionKind = keyof PlanSelection;
+
+export const emptySelection: PlanSelection = { walls: [], doors: [], windows: [], symbols: [] };
+
+export const selectionSize = (s: PlanSelection) => s.walls.length + s.doors.length + s.windows.length + s.symbols.length;
+
+export function toggleSelected(s: PlanSelection, kind: SelectionKind, index: number): PlanSelection {
+    const list = s[kind].includes(index) ? s[kind].filter(i => i !== index) : [...s[kind], index];
+    return { ...s, [kind]: list };
+}
+
+export function mergeSelections(a: PlanSelection, b: PlanSelection): PlanSelection {
+    const union = (x: number[], y: number[]) => Array.from(new Set([...x, ...y]));
+    return {
+        walls: union(a.walls, b.walls),
+        doors: union(a.doors, b.doors),
+        windows: union(a.windows, b.windows),
+        symbols: union(a.symbols, b.symbols),
+    };
+}
+
+// Drop indices that no longer exist (e.g. after undo).
+export function clampSelection(s: PlanSelection, plan: ArchitecturalPlan): PlanSelection {
+    return {
+        walls: s.walls.filter(i => i < plan.walls.length),
+        doors: s.doors.filter(i => i < plan.doors.length),
+        windows: s.windows.filter(i => i < plan.windows.length),
+        symbols: s.symbols.filter(i => i < (plan.symbols ?? []).length),
+    };
+}
+
+// Everything lying entirely inside the rectangle a-b.
+export function selectInRect(plan: ArchitecturalPlan, a: Point, b: Point): PlanSelection {
+    const x0 = Math.min(a.x, b.x), x1 = Math.max(a.x, b.x), y0 = Math.min(a.y, b.y), y1 = Math.max(a.y, b.y);
+    const inside = (pts: Point[]) => pts.length > 0 && pts.every(p => p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1);
+    const hits = (list: Array<{ boundary: Point[] }>) => list.map((o, i) => (inside(o.boundary) ? i : -1)).filter(i => i >= 0);
+    return {
+        walls: hits(plan.walls),
+        doors: hits(plan.doors),
+        windows: hits(plan.windows),
+        symbols: hits((plan.symbols ?? []).map(sym => ({ boundary: symbolFootprint(sym) }))),
+    };
+}
+
+function selectionPoints(plan: ArchitecturalPlan, s: PlanSelection): Point[] {
+    return [
+        ...s.walls.flatMap(i => plan.walls[i]?.boundary ?? []),
+        ...s.doors.flatMap(i => plan.doors[i]?.boundary ?? []),
+        ...s.windows.flatMap(i => plan.windows[i]?.boundary ?? []),
+        ...s.symbols.flatMap(i => (plan.symbols?.[i] ? symbolFootprint(plan.symbols[i]) : [])),
+    ];
+}
+
+const boundsCentre = (pts: Point[]): Point => {
+    const b = pointsBounds(pts);
+    return b ? { x: (b.x0 + b.x1) / 2, y: (b.y0 + b.y1) / 2 } : { x: 0, y: 0 };
+};
+
+// Centre of the selection's bounding box, the pivot for rotate and mirror.
+export const selectionCentre = (plan: ArchitecturalPlan, s: PlanSelection) => boundsCentre(selectionPoints(plan, s));
+
+// ---- Transforms ----
+
+// `reflects` marks transforms that flip handedness, so door swings must flip too.
+export type PointTransform = { map: (p: Point) => Point; reflects: boolean };
+
+export const translation = (d: Point): PointTransform => ({ map: p => add(p, d), reflects: false });
+
+export function rotation(centre: Point, radians: number): PointTransform {
+    const c = Math.cos(radians), s = Math.sin(radians);
+    return {
+        map: p => {
+            const v = sub(p, centre);
+            return { x: centre.x + v.x * c - v.y * s, y: centre.y + v.x * s + v.y * c };
+        },
+        reflects: false,
+    };
+}
+
+// Mirror across a vertical ('x' flips left/right) or horizontal ('y' flips up/down) axis.
+export function mirror(centre: Point, flip: 'x' | 'y'): PointTransform {
+    return {
+        map: p => (flip === 'x' ? { x: 2 * centre.x - p.x, y: p.y } : { x: p.x, y: 2 * centre.y - p.y }),
+        reflects: true,
+    };
+}
+
+function transformWall(w: PlanWall, t: PointTransform): PlanWall {
+    if (w.arc) {
+        const arc = arcThroughPoints(t.map(arcPointAt(w.arc, 0)), t.map(arcPointAt(w.arc, 0.5)), t.map(arcPointAt(w.arc, 1)));
+        if (arc) return arcWall({ ...arc, thickness: w.arc.thickness });
+    }
+    return {
+        ...w,
+        boundary: w.boundary.map(t.map),
+        ...(w.holes ? { holes: w.holes.map(h => h.map(t.map)) } : {}),
+    };
+}
+
+// Move a symbol's insertion point and carry its orientation along; reflections flip it.
+function transformSymbol(sym: PlanSymbol, t: PointTransform): PlanSymbol {
+    const rad = (sym.rotation * Math.PI) / 180;
+    const at = t.map(sym.at);
+    const x = sub(t.map(add(sym.at, { x: Math.cos(rad), y: Math.sin(rad) })), at);
+    return {
+        ...sym,
+        at,
+        rotation: (Math.atan2(x.y, x.x) * 180) / Math.PI,
+        ...(t.reflects ? { mirrored: !sym.mirrored } : {}),
+    };
+}
+
+// Slide a hosted opening along its (unselected) wall to where the transform takes its centre.
+function slideOpening(graph: WallGraph, o: PlanOpening, t: PointTransform): PlanOpening {
+    const edge = graph.edges.find(e => e.id === o.host?.edge);
+    const [a, b] = o.boundary;
+    if (!edge || !a || !b) return o;
+    const na = graphNode(graph, edge.a)!, nb = graphNode(graph, edge.b)!;
+    const { q } = nearestPointOnSegment(t.map(mul(add(a, b), 0.5)), na, nb);
+    return { ...o, host: { ...o.host!, offset: dot(sub(q, na), normalize(sub(nb, na))) } };
+}
+
+// Apply a transform to the selected walls and openings. Graph walls move by their nodes,
+// so unselected walls connected to them stretch to follow; openings hosted on selected
+// walls go with them.
+export function transformSelection(plan: ArchitecturalPlan, s: PlanSelection, t: PointTransform): ArchitecturalPlan {
+    let graph = plan.graph ?? emptyWallGraph();
+    const edges = new Set(s.walls.map(i => plan.walls[i]?.edge).filter((e): e is number => e != null));
+    const nodes = new Set(graph.edges.filter(e => edges.has(e.id)).flatMap(e => [e.a, e.b]));
+    nodes.forEach(id => { graph = moveGraphNode(graph, id, t.map(graphNode(graph, id)!)); });
+
+    const walls = plan.walls.map((w, i) => (s.walls.includes(i) && w.edge == null ? transformWall(w, t) : w));
+    const moveOpening = (o: PlanOpening, selected: boolean): PlanOpening => {
+        if (o.host && edges.has(o.host.edge)) {
+            return t.reflects && o.swing ? { ...o, swing: o.swing === 'left' ? 'right' : 'left' } : o;
+        }
+        if (!selected) return o;
+        return o.host ? slideOpening(plan.graph ?? emptyWallGraph(), o, t) : { ...o, boundary: o.boundary.map(t.map) };
+    };
+    const doors = plan.doors.map((o, i) => moveOpening(o, s.doors.includes(i)));
+    const windows = plan.windows.map((o, i) => moveOpening(o, s.windows.includes(i)));
+    const symbols = plan.symbols?.map((sym, i) => (s.symbols.includes(i) ? transformSymbol(sym, t) : sym));
+    const next = { ...plan, walls, doors, windows, ...(symbols ? { symbols } : {}) };
+    return plan.graph ? syncWallGraph(next, graph) : next;
+}
+
+export function deleteSelection(plan: ArchitecturalPlan, s: PlanSelection): ArchitecturalPlan {
+    const edges = new Set(s.walls.map(i => plan.walls[i]?.edge).filter((e): e is number => e != null));
+    let next: ArchitecturalPlan = {
+        ...plan,
+        walls: plan.walls.filter((w, i) => w.edge != null || !s.walls.includes(i)),
+        doors: plan.doors.filter((_, i) => !s.doors.includes(i)),
+        windows: plan.windows.filter((_, i) => !s.windows.includes(i)),
+        ...(plan.symbols ? { symbols: plan.symbols.filter((_, i) => !s.symbols.includes(i)) } : {}),
+    };
+    edges.forEach(e => { next = removeWallEdge(next, e); });
+    // removed hosted openings leave their walls whole again
+    return next.graph && !edges.size ? syncWallGraph(next, next.graph) : next;
+}
+
+// ---- Clipboard fragments ----
+
+// A self-contained copy of selected geometry. Graph walls travel as centerlines and are
+// rebuilt on paste; hosted openings re-attach to whichever pasted wall runs through them.
+// `symbols` may be missing from fragments copied before furniture existed.
+export type PlanFragment = {
+    kind: 'intelligent-architect/fragment';
+    scale?: PlanScale;
+    lines: Array<{ a: Point; b: Point; thickness: number }>;
+    walls: PlanWall[];
+    doors: PlanOpening[];
+    windows: PlanOpening[];
+    symbols?: PlanSymbol[];
+};
+
+export function copySelection(plan: ArchitecturalPlan, s: PlanSelection): PlanFragment {
+    const graph = plan.graph ?? emptyWallGraph();
+    const edges = new Set<number>();
+    const lines: PlanFragment['lines'] = [];
+    const walls: PlanWall[] = [];
+    for (const i of s.walls) {
+        const w = plan.walls[i];
+        if (!w) continue;
+        if (w.edge == null) {
+            const { edge: _e, ...rest } = w;
+            walls.push(rest);
+            continue;
+        }
+        const e = graph.edges.find(x => x.id === w.edge);
+        if (!e || edges.has(e.id)) continue;
+        edges.add(e.id);
+        lines.push({ a: { ...graphNode(graph, e.a)! }, b: { ...graphNode(graph, e.b)! }, thickness: e.thickness });
+    }
+    // hosted openings are re-seated by their centre when pasted (see placeOpening)
+    const detach = (o: PlanOpening): PlanOpening => (o.host ? { ...o, host: { ...o.host, edge: -1 } } : o);
+    const pick = (list: PlanOpening[], indices: number[]) =>
+        list.filter((o, i) => indices.includes(i) || (o.host != null && edges.has(o.host.edge))).map(detach);
+    return {
+        kind: 'intelligent-architect/fragment',
+        ...(plan.scale ? { scale: plan.scale } : {}),
+        lines,
+        walls,
+        doors: pick(plan.doors, s.doors),
+        windows: pick(plan.windows, s.windows),
+        symbols: s.symbols.map(i => plan.symbols?.[i]).filter((sym): sym is PlanSymbol => !!sym),
+    };
+}
+
+export function parseFragment(text: string): PlanFragment | null {
+    try {
+        const f = JSON.parse(text);
+        return f?.kind === 'intelligent-architect/fragment' && Array.isArray(f.lines) && Array.isArray(f.walls) ? f : null;
+    } catch {
+        return null;
+    }
+}
+
+// Paste a fragment centred on `at`. Fragments copied from a plan with a different scale
+// are resized so they keep their real-world size. Returns the pasted items as a selection.
+export function pasteFragment(plan: ArchitecturalPlan, f: PlanFragment, at: Point): { plan: ArchitecturalPlan; selection: PlanSelection } {
+    const k = f.scale && plan.scale ? f.scale.metersPerUnit / plan.scale.metersPerUnit : 1;
+    const centre = boundsCentre([
+        ...f.lines.flatMap(l => [l.a, l.b]),
+        ...f.walls.flatMap(w => w.boundary),
+        ...f.doors.flatMap(o => o.boundary),
+        ...f.windows.flatMap(o => o.boundary),
+        ...(f.symbols ?? []).map(sym => sym.at),
+    ]);
+    const map = (p: Point) => add(at, mul(sub(p, centre), k));
+    const t: PointTransform = { map, reflects: false };
+
+    // pasted walls join each other but not the walls already there, so a copy laid over the
+    // original doesn't fuse with it
+    const { graph, edges: pasted } = addGraphPiece(
+        plan.graph ?? emptyWallGraph(),
+        f.lines.map(l => ({ a: map(l.a), b: map(l.b), thickness: l.thickness * k })),
+    );
+    const walls = f.walls.map(w => {
+        const moved = transformWall(w, t);
+        return moved.arc ? arcWall({ ...moved.arc, thickness: moved.arc.thickness * k }) : moved;
+    });
+    // copied openings sit on the pasted walls, not on originals they may overlap
+    const pastedOnly = { ...graph, edges: graph.edges.filter(e => pasted.includes(e.id)) };
+    const scaleOpening = (o: PlanOpening): PlanOpening => {
+        const moved = {
+            ...o,
+            boundary: o.boundary.map(map),
+            ...(o.host ? { host: { ...o.host, offset: o.host.offset * k, width: o.host.width * k } } : {}),
+        };
+        const seated = moved.host ? placeOpening(pastedOnly, moved) : moved;
+        return seated.host ? seated : moved;
+    };
+    const doors = f.doors.map(scaleOpening), windows = f.windows.map(scaleOpening);
+    const symbols = (f.symbols ?? []).map(sym => ({ ...sym, at: map(sym.at), scale: sym.scale * k }));
+    const oldSymbols = plan.symbols ?? [];
+
+    const merged = syncWallGraph({
+        ...plan,
+        walls: [...plan.walls, ...walls],
+        doors: [...plan.doors, ...doors],
+        windows: [...plan.windows, ...windows],
+        ...(symbols.length || plan.symbols ? { symbols: [...oldSymbols, ...symbols] } : {}),
+    }, graph);
+    const newEdges = new Set(pasted);
+    const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+    return {
+        plan: merged,
+        selection: {
+            walls: merged.walls
+                .map((w, i) => ((w.edge != null && newEdges.has(w.edge)) || walls.includes(w) ? i : -1))
+                .filter(i => i >= 0),
+            doors: range(plan.doors.length, doors.length),
+            windows: range(plan.windows.length, windows.length),
+            symbols: range(oldSymbols.length, symbols.length),
+        },
+    };
+}
+
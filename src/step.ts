@@ -0,0 +1,95 @@
+// step.ts - ISO 10303-21 (STEP physical file) writer, the text format of IFC files
+//
+// Entities are added in order and numbered #1, #2, ...; `add` returns a reference to use
+// as an attribute of later entities. Plain JS numbers are written as REALs, so INTEGER
+// attributes need stepInt().
+
+export type StepRef = { ref: number };
+type StepToken = { token: string };
+export type StepValue = number | string | boolean | null | StepRef | StepToken | StepValue[];
+
+export const stepEnum = (name: string): StepToken => ({ token: `.${name}.` });
+export const stepInt = (n: number): StepToken => ({ token: String(Math.round(n)) });
+// "*": an attribute that a subtype derives from others
+export const DERIVED: StepToken = { token: '*' };
+
+// REAL: always with a decimal point, rounded to 1e-9 so float noise doesn't bloat the file
+function stepReal(v: number): string {
+    const r = Math.round(v * 1e9) / 1e9;
+    const s = String(r === 0 ? 0 : r).toUpperCase();
+    if (s.includes('E')) return s.includes('.') ? s : s.replace('E', '.E');
+    return s.includes('.') ? s : `${s}.`;
+}
+
+// STEP strings are ASCII: quotes and backslashes are doubled, anything else outside
+// printable ASCII becomes a \X2\ UTF-16 escape.
+function stepString(text: string): string {
+    const escaped = text
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, "''")
+        .replace(/[^\x20-\x7e]+/g, run => `\\X2\\${Array.from({ length: run.length }, (_, i) =>
+            run.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0')).join('')}\\X0\\`);
+    return `'${escaped}'`;
+}
+
+function stepValue(v: StepValue): string {
+    if (v === null) return '$';
+    if (typeof v === 'number') return stepReal(v);
+    if (typeof v === 'string') return stepString(v);
+    if (typeof v === 'boolean') return v ? '.T.' : '.F.';
+    if (Array.isArray(v)) return `(${v.map(stepValue).join(',')})`;
+    return 'ref' in v ? `#${v.ref}` : v.token;
+}
+
+export type StepHeader = {
+    description: string[];
+    fileName: string;
+    author: string;
+    organization: string;
+    application: string;
+    schema: string;
+    timestamp?: Date;
+};
+
+export function stepFile() {
+    const lines: string[] = [];
+    return {
+        add(type: string, ...args: StepValue[]): StepRef {
+            lines.push(`#${lines.length + 1}=${type}(${args.map(stepValue).join(',')});`);
+            return { ref: lines.length };
+        },
+        write(h: StepHeader): string {
+            const time = (h.timestamp ?? new Date()).toISOString().slice(0, 19);
+            return [
+                'ISO-10303-21;',
+                'HEADER;',
+                `FILE_DESCRIPTION(${stepValue(h.description)},'2;1');`,
+                `FILE_NAME(${[h.fileName, time, [h.author], [h.organization], h.application, h.application, ''].map(stepValue).join(',')});`,
+                `FILE_SCHEMA((${stepString(h.schema)}));`,
+                'ENDSEC;',
+                'DATA;',
+                ...lines,
+                'ENDSEC;',
+                'END-ISO-10303-21;',
+                '',
+            ].join('\n');
+        },
+    };
+}
+
+export type StepFile = ReturnType<typeof stepFile>;
+
+const GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+// A new IFC GlobalId: a random 128-bit UUID in IFC's 22-character base-64 form (the first
+// byte as 2 characters, then each 3 bytes as 4).
+export function ifcGuid(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+    bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+    const chars = (n: number, count: number) =>
+        Array.from({ length: count }, (_, i) => GUID_CHARS[(n >> (6 * (count - 1 - i))) & 63]).join('');
+    let out = chars(bytes[0], 2);
+    for (let i = 1; i < 16; i += 3) out += chars((bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2], 4);
+    return out;
+}
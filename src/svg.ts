@@ -0,0 +1,47 @@
+// svg.ts - SVG documents built as plain element trees and serialized to standalone
+// files: attributes and text are escaped and styles are embedded, so the output doesn't
+// depend on the page that made it.
+
+export type SvgNode = {
+    tag: string;
+    attrs: Record<string, string | number | undefined>;
+    children: Array<SvgNode | string>;
+};
+
+export const el = (tag: string, attrs: SvgNode['attrs'] = {}, children: SvgNode['children'] = []): SvgNode => ({ tag, attrs, children });
+
+// Coordinates are written to 1/1000 of a unit, which is far below anything visible
+export const svgNum = (v: number) => String(Math.round(v * 1000) / 1000);
+
+export const svgPoints = (points: Array<{ x: number; y: number }>) => points.map(p => `${svgNum(p.x)},${svgNum(p.y)}`).join(' ');
+
+const escapeXml = (s: string) => s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+
+export function serializeSvg(node: SvgNode): string {
+    const attrs = Object.entries(node.attrs)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => ` ${k}="${escapeXml(typeof v === 'number' ? svgNum(v) : v!)}"`)
+        .join('');
+    if (!node.children.length) return `<${node.tag}${attrs}/>`;
+    const body = node.children.map(c => (typeof c === 'string' ? escapeXml(c) : serializeSvg(c))).join('');
+    return `<${node.tag}${attrs}>${body}</${node.tag}>`;
+}
+
+// A standalone document: `width`/`height` are the printed size (e.g. "210mm"), the
+// viewBox is in drawing units, and `style` is embedded CSS.
+export function svgDocument({ width, height, viewBox, style, children }: {
+    width: string;
+    height: string;
+    viewBox: { width: number; height: number };
+    style: string;
+    children: SvgNode[];
+}): string {
+    const root = el('svg', {
+        xmlns: 'http://www.w3.org/2000/svg',
+        'xmlns:inkscape': 'http://www.inkscape.org/namespaces/inkscape',
+        width,
+        height,
+        viewBox: `0 0 ${svgNum(viewBox.width)} ${svgNum(viewBox.height)}`,
+    }, [el('style', {}, [style]), ...children]);
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeSvg(root)}\n`;
+}
@@ -0,0 +1,133 @@
+// symbols.ts - furniture and fixture symbol library, placed in plans as block references
+import { add, Point, sub } from './geometry';
+import { ArchitecturalPlan, PlanSymbol } from './plan';
+
+// Symbol geometry is in metres, centred on the origin with y pointing down like the plan;
+// the back of each piece (the side that goes against a wall) faces -y.
+export type SymbolShape =
+    | { kind: 'poly'; points: Point[]; closed: boolean }
+    | { kind: 'circle'; center: Point; radius: number };
+
+export type SymbolDef = { id: string; name: string; width: number; depth: number; shapes: SymbolShape[] };
+
+const rect = (x0: number, y0: number, x1: number, y1: number): SymbolShape => ({
+    kind: 'poly',
+    points: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+    closed: true,
+});
+const line = (x0: number, y0: number, x1: number, y1: number): SymbolShape =>
+    ({ kind: 'poly', points: [{ x: x0, y: y0 }, { x: x1, y: y1 }], closed: false });
+const circle = (x: number, y: number, radius: number): SymbolShape => ({ kind: 'circle', center: { x, y }, radius });
+const ellipse = (x: number, y: number, rx: number, ry: number, segments = 24): SymbolShape => ({
+    kind: 'poly',
+    points: Array.from({ length: segments }, (_, i) => {
+        const a = (i / segments) * 2 * Math.PI;
+        return { x: x + rx * Math.cos(a), y: y + ry * Math.sin(a) };
+    }),
+    closed: true,
+});
+
+// Bed with pillows along the head (-y) and the turned-down cover
+function bed(id: string, name: string, width: number, pillows: number): SymbolDef {
+    const w = width / 2, d = 1.0;
+    const pw = (width - 0.1 * (pillows + 1)) / pillows;
+    return {
+        id, name, width, depth: 2 * d,
+        shapes: [
+            rect(-w, -d, w, d),
+            ...Array.from({ length: pillows }, (_, i) => rect(-w + 0.1 + i * (pw + 0.1), -d + 0.08, -w + 0.1 + i * (pw + 0.1) + pw, -d + 0.4)),
+            line(-w, -d + 0.55, w, -d + 0.55),
+            line(-w, -d + 0.55, -w + 0.3, -d + 0.85),
+        ],
+    };
+}
+
+export const symbolLibrary: SymbolDef[] = [
+    bed('bed-single', 'Single bed', 0.9, 1),
+    bed('bed-double', 'Double bed', 1.6, 2),
+    {
+        id: 'sofa', name: 'Sofa', width: 2.0, depth: 0.9,
+        shapes: [
+            rect(-1.0, -0.45, 1.0, 0.45),
+            line(-1.0, -0.2, 1.0, -0.2),
+            line(-0.8, -0.2, -0.8, 0.45),
+            line(0.8, -0.2, 0.8, 0.45),
+            line(0, -0.2, 0, 0.45),
+        ],
+    },
+    {
+        id: 'table', name: 'Dining table', width: 1.4, depth: 1.8,
+        shapes: [
+            rect(-0.7, -0.4, 0.7, 0.4),
+            ...[-0.35, 0.35].flatMap(x => [rect(x - 0.22, -0.88, x + 0.22, -0.45), rect(x - 0.22, 0.45, x + 0.22, 0.88)]),
+        ],
+    },
+    {
+        id: 'wc', name: 'WC', width: 0.4, depth: 0.7,
+        shapes: [rect(-0.2, -0.35, 0.2, -0.17), ellipse(0, 0.07, 0.18, 0.26)],
+    },
+    {
+        id: 'sink', name: 'Sink', width: 0.6, depth: 0.45,
+        shapes: [rect(-0.3, -0.225, 0.3, 0.225), rect(-0.24, -0.12, 0.24, 0.18), circle(0, 0.06, 0.025), circle(0, -0.17, 0.03)],
+    },
+    {
+        id: 'stove', name: 'Stove', width: 0.6, depth: 0.6,
+        shapes: [
+            rect(-0.3, -0.3, 0.3, 0.3),
+            circle(-0.14, -0.14, 0.09), circle(0.14, -0.14, 0.07),
+            circle(-0.14, 0.14, 0.07), circle(0.14, 0.14, 0.09),
+        ],
+    },
+    {
+        id: 'wardrobe', name: 'Wardrobe', width: 1.2, depth: 0.6,
+        shapes: [
+            rect(-0.6, -0.3, 0.6, 0.3),
+            line(-0.55, 0, 0.55, 0),
+            ...[-0.4, -0.15, 0.1, 0.35].map(x => line(x - 0.06, -0.2, x + 0.06, 0.2)),
+        ],
+    },
+];
+
+export const symbolDef = (id: string) => symbolLibrary.find(s => s.id === id);
+
+// Plan units per metre for new symbols. Uncalibrated plans are assumed to be about 15 m
+// across so furniture still comes out roughly in proportion.
+export const unitsPerMetre = (plan: ArchitecturalPlan) =>
+    plan.scale ? 1 / plan.scale.metersPerUnit : Math.max(plan.dimensions.width, plan.dimensions.height) / 15;
+
+// Map symbol coordinates (metres) to plan coordinates for one placed symbol.
+export function symbolTransform(s: PlanSymbol): (p: Point) => Point {
+    const rad = (s.rotation * Math.PI) / 180;
+    const c = Math.cos(rad), sn = Math.sin(rad);
+    const ky = s.mirrored ? -1 : 1;
+    return p => {
+        const x = p.x * s.scale, y = p.y * s.scale * ky;
+        return add(s.at, { x: x * c - y * sn, y: x * sn + y * c });
+    };
+}
+
+export const symbolSvgTransform = (s: PlanSymbol) =>
+    `translate(${s.at.x} ${s.at.y}) rotate(${s.rotation}) scale(${s.scale} ${s.mirrored ? -s.scale : s.scale})`;
+
+// Corners of a placed symbol's bounding rectangle in plan coordinates.
+export function symbolFootprint(s: PlanSymbol): Point[] {
+    const def = symbolDef(s.symbol);
+    const w = (def?.width ?? 1) / 2, d = (def?.depth ?? 1) / 2;
+    return [{ x: -w, y: -d }, { x: w, y: -d }, { x: w, y: d }, { x: -w, y: d }].map(symbolTransform(s));
+}
+
+// Topmost symbol whose footprint (grown by tol plan units) contains p, or -1.
+export function pickSymbol(symbols: PlanSymbol[], p: Point, tol = 0): number {
+    for (let i = symbols.length - 1; i >= 0; i--) {
+        const s = symbols[i];
+        const def = symbolDef(s.symbol);
+        const rad = (s.rotation * Math.PI) / 180;
+        const v = sub(p, s.at);
+        // rotate back into the symbol's frame; mirroring doesn't change the rectangle
+        const lx = (v.x * Math.cos(rad) + v.y * Math.sin(rad)) / s.scale;
+        const ly = (-v.x * Math.sin(rad) + v.y * Math.cos(rad)) / s.scale;
+        const t = tol / s.scale;
+        if (Math.abs(lx) <= (def?.width ?? 1) / 2 + t && Math.abs(ly) <= (def?.depth ?? 1) / 2 + t) return i;
+    }
+    return -1;
+}
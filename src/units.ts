@@ -0,0 +1,121 @@
+// units.ts - real-world scale and unit formatting for plans
+
+export type UnitSystem = 'mm' | 'm' | 'ft-in';
+
+// Stored with the plan once calibrated: how many meters one plan unit (image pixel) spans,
+// and which unit system to present lengths in.
+export type PlanScale = { metersPerUnit: number; units: UnitSystem };
+
+const METERS_PER_INCH = 0.0254;
+
+export const unitLabels: Record<UnitSystem, string> = {
+    'mm': 'Millimeters',
+    'm': 'Meters',
+    'ft-in': 'Feet & inches',
+};
+
+export function calibrateScale(planDistance: number, meters: number, units: UnitSystem): PlanScale | null {
+    if (!(planDistance > 0) || !(meters > 0)) return null;
+    return { metersPerUnit: meters / planDistance, units };
+}
+
+export const toMeters = (len: number, scale: PlanScale) => len * scale.metersPerUnit;
+export const fromMeters = (meters: number, scale: PlanScale) => meters / scale.metersPerUnit;
+
+function formatFeetInches(meters: number): string {
+    const totalInches = meters / METERS_PER_INCH;
+    const sign = totalInches < 0 ? '-' : '';
+    let feet = Math.floor(Math.abs(totalInches) / 12);
+    let inches = Math.round((Math.abs(totalInches) - feet * 12) * 4) / 4; // quarter-inch precision
+    if (inches >= 12) { feet += 1; inches -= 12; }
+    return `${sign}${feet}' ${inches}"`;
+}
+
+// Format a plan-space length; uncalibrated plans show raw pixels.
+export function formatLength(len: number, scale?: PlanScale): string {
+    if (!scale) return `${Math.round(len)} px`;
+    const m = toMeters(len, scale);
+    switch (scale.units) {
+        case 'mm': return `${Math.round(m * 1000)} mm`;
+        case 'm': return `${m.toFixed(2)} m`;
+        case 'ft-in': return formatFeetInches(m);
+    }
+}
+
+// Format a plan-space area (units²).
+export function formatArea(area: number, scale?: PlanScale): string {
+    if (!scale) return `${Math.round(area)} px²`;
+    const m2 = area * scale.metersPerUnit * scale.metersPerUnit;
+    if (scale.units === 'ft-in') return `${(m2 / (0.3048 * 0.3048)).toFixed(1)} ft²`;
+    return `${m2.toFixed(2)} m²`;
+}
+
+// Parse a typed distance into meters. Bare numbers use the given unit system's base unit
+// (mm, m or ft); explicit suffixes (mm, cm, m, ft/', in/") always win.
+export function parseLength(text: string, units: UnitSystem): number | null {
+    const t = text.trim().toLowerCase();
+    if (!t) return null;
+    const imperial = t.match(/^(?:(\d+(?:\.\d+)?)\s*(?:'|ft|feet))?\s*(?:(\d+(?:\.\d+)?)\s*(?:"|in|inch|inches))?$/);
+    if (imperial && (imperial[1] || imperial[2])) {
+        const feet = parseFloat(imperial[1] ?? '0'), inches = parseFloat(imperial[2] ?? '0');
+        return (feet * 12 + inches) * METERS_PER_INCH;
+    }
+    const metric = t.match(/^(\d+(?:\.\d+)?)\s*(mm|cm|m)?$/);
+    if (!metric) return null;
+    const v = parseFloat(metric[1]);
+    const unit = metric[2] ?? (units === 'ft-in' ? 'ft' : units);
+    switch (unit) {
+        case 'mm': return v / 1000;
+        case 'cm': return v / 100;
+        case 'm': return v;
+        default: return v * 12 * METERS_PER_INCH;
+    }
+}
+
+// Wall-thickness slider settings in the display unit (mm or inches).
+export function thicknessSlider(scale: PlanScale) {
+    const imperial = scale.units === 'ft-in';
+    const metersPerStep = imperial ? METERS_PER_INCH : 0.001;
+    return {
+        min: imperial ? 2 : 50,
+        max: imperial ? 24 : 600,
+        step: imperial ? 0.5 : 10,
+        toSlider: (len: number) => toMeters(len, scale) / metersPerStep,
+        fromSlider: (v: number) => fromMeters(v * metersPerStep, scale),
+    };
+}
+
+// Numeric length inputs: plan lengths shown in a single display unit (mm, m, decimal
+// inches, or pixels when uncalibrated) and converted back.
+export function lengthField(scale?: PlanScale) {
+    if (!scale) return { unit: 'px', step: 1, toField: (len: number) => len, fromField: (v: number) => v };
+    const metersPerField = scale.units === 'mm' ? 0.001 : scale.units === 'm' ? 1 : METERS_PER_INCH;
+    return {
+        unit: scale.units === 'ft-in' ? 'in' : scale.units,
+        step: scale.units === 'm' ? 0.01 : 1,
+        toField: (len: number) => toMeters(len, scale) / metersPerField,
+        fromField: (v: number) => fromMeters(v * metersPerField, scale),
+    };
+}
+
+// Export scaling: plan units -> drawing units, with the matching DXF $INSUNITS code
+// (0 unitless, 1 inches, 4 millimeters, 6 meters) and $MEASUREMENT (0 imperial, 1 metric).
+export function exportUnits(scale?: PlanScale): { factor: number; insunits: number; measurement: number } {
+    if (!scale) return { factor: 1, insunits: 0, measurement: 1 };
+    switch (scale.units) {
+        case 'mm': return { factor: scale.metersPerUnit * 1000, insunits: 4, measurement: 1 };
+        case 'm': return { factor: scale.metersPerUnit, insunits: 6, measurement: 1 };
+        case 'ft-in': return { factor: scale.metersPerUnit / METERS_PER_INCH, insunits: 1, measurement: 0 };
+    }
+}
+
+// Physical width/height attributes for an exported SVG, so it prints at true size.
+// SVG has no meter unit, so metric plans are sized in millimeters.
+export function svgPhysicalSize(dimensions: { width: number; height: number }, scale?: PlanScale): { width: string; height: string } {
+    if (!scale) return { width: `${dimensions.width}`, height: `${dimensions.height}` };
+    const imperial = scale.units === 'ft-in';
+    const k = imperial ? scale.metersPerUnit / METERS_PER_INCH : scale.metersPerUnit * 1000;
+    const unit = imperial ? 'in' : 'mm';
+    const fmt = (v: number) => `${+(v * k).toFixed(3)}${unit}`;
+    return { width: fmt(dimensions.width), height: fmt(dimensions.height) };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, trimHistory } from './useUndo';
+
+const entries = (sizes: number[]): HistoryEntry<number>[] => sizes.map((size, i) => ({ label: `Step ${i}`, state: i, time: i, size }));
+
+describe('trimHistory', () => {
+    it('keeps at most `limit` undo steps', () => {
+        const { entries: kept, dropped } = trimHistory(entries([1, 1, 1, 1, 1]), 4, 2, Infinity);
+        expect(kept.map(e => e.state)).toEqual([2, 3, 4]);
+        expect(dropped).toBe(2);
+    });
+
+    it('drops the oldest steps until their sizes fit', () => {
+        const { entries: kept } = trimHistory(entries([100, 10, 10, 10]), 3, 100, 50);
+        expect(kept.map(e => e.state)).toEqual([1, 2, 3]);
+    });
+
+    it('always keeps the current step, even when it alone is too big', () => {
+        const { entries: kept, dropped } = trimHistory(entries([10, 10, 500, 10]), 2, 100, 50);
+        expect(kept.map(e => e.state)).toEqual([2, 3]);
+        expect(dropped).toBe(2);
+    });
+
+    it('leaves a history within its limits as it is', () => {
+        const list = entries([1, 2, 3]);
+        expect(trimHistory(list, 1, 100, 100).entries).toBe(list);
+    });
+});
@@ -1,36 +1,93 @@
-// useUndo.ts - tiny undo/redo for immutable objects
-import { useRef, useState } from 'react';
-
-export function useUndo<T>(initial: T) {
-  const [present, setPresent] = useState<T>(initial);
-  const past = useRef<T[]>([]);
-  const future = useRef<T[]>([]);
-
-  const set = (next: T) => {
-    past.current.push(present);
-    setPresent(next);
-    future.current = [];
+// useUndo.ts - labelled undo/redo history for immutable objects
+import { useState } from 'react';
+
+// One recorded change: what it was called and the state it produced. Entries are whole
+// states rather than commands on purpose: every edit is already a pure function from one
+// plan to the next, so undo needs no inverse operations, and states share everything an
+// edit didn't touch. `size` estimates what the entry's state added over the one before it.
+export type HistoryEntry<T> = { label: string; state: T; time: number; size?: number };
+
+// Serializable form of a history, saved with a project.
+export type SavedHistory<T> = { entries: HistoryEntry<T>[]; index: number };
+
+export type UndoOptions<T> = {
+  limit?: number;
+  maxSize?: number;
+  sizeOf?: (prev: T | null, next: T) => number;
+};
+
+// Drop the oldest entries until at most `limit` undo steps remain and their sizes add up
+// to no more than `maxSize`. The entry at `index` is always kept. Returns the kept entries
+// and how many were dropped from the front.
+export function trimHistory<T>(entries: HistoryEntry<T>[], index: number, limit: number, maxSize: number) {
+  let start = Math.min(index, Math.max(0, entries.length - 1 - limit));
+  let total = 0;
+  for (let i = start; i < entries.length; i++) total += entries[i].size ?? 0;
+  while (start < index && total > maxSize) total -= entries[start++].size ?? 0;
+  return { entries: start ? entries.slice(start) : entries, dropped: start };
+}
+
+// `limit` caps how many undo steps are kept and `maxSize` their estimated memory, as
+// measured by `sizeOf`; older entries are dropped first.
+export function useUndo<T>(initial: T, { limit = 100, maxSize = Infinity, sizeOf }: UndoOptions<T> = {}) {
+  const measure = (prev: T | null, next: T) => (sizeOf ? sizeOf(prev, next) : 0);
+  // `present` differs from the entry at `index` while a transient gesture is in progress
+  const [history, setHistory] = useState<SavedHistory<T> & { present: T }>(() => ({
+    entries: [{ label: 'Start', state: initial, time: Date.now(), size: measure(null, initial) }],
+    index: 0,
+    present: initial,
+  }));
+
+  // Transient updates (e.g. each step of a drag) replace the present without recording
+  // anything; the next non-transient set records the whole gesture as one entry.
+  const set = (next: T, { transient = false, label = 'Edit' }: { transient?: boolean; label?: string } = {}) => {
+    setHistory(h => {
+      if (transient) return { ...h, present: next };
+      // ending a gesture that changed nothing records nothing
+      if (next === h.entries[h.index].state) return { ...h, present: next };
+      const size = measure(h.entries[h.index].state, next);
+      const entries = [...h.entries.slice(0, h.index + 1), { label, state: next, time: Date.now(), size }];
+      const kept = trimHistory(entries, entries.length - 1, limit, maxSize).entries;
+      return { entries: kept, index: kept.length - 1, present: next };
+    });
   };
 
-  const undo = () => {
-    if (!past.current.length) return;
-    const prev = past.current.pop() as T;
-    future.current.push(present);
-    setPresent(prev);
+  // Move to the entry `target` picks, dropping an unfinished gesture.
+  const go = (target: (index: number) => number) => {
+    setHistory(h => {
+      const i = Math.min(Math.max(target(h.index), 0), h.entries.length - 1);
+      return { ...h, index: i, present: h.entries[i].state };
+    });
   };
 
-  const redo = () => {
-    if (!future.current.length) return;
-    const nxt = future.current.pop() as T;
-    past.current.push(present);
-    setPresent(nxt);
+  const undo = () => go(i => i - 1);
+  const redo = () => go(i => i + 1);
+  const jumpTo = (index: number) => go(() => index);
+
+  const reset = (val: T, label = 'Start') => {
+    setHistory({ entries: [{ label, state: val, time: Date.now(), size: measure(null, val) }], index: 0, present: val });
   };
 
-  const reset = (val: T) => {
-    past.current = [];
-    future.current = [];
-    setPresent(val);
+  // Reopen a saved history at its saved position.
+  const restore = (saved: SavedHistory<T>) => {
+    if (!saved.entries.length) return;
+    const sized = saved.entries.map((e, i) => (e.size != null ? e : { ...e, size: measure(i ? saved.entries[i - 1].state : null, e.state) }));
+    const index = Math.min(Math.max(saved.index, 0), sized.length - 1);
+    const { entries, dropped } = trimHistory(sized, index, limit, maxSize);
+    setHistory({ entries, index: index - dropped, present: entries[index - dropped].state });
   };
 
-  return { present, set, undo, redo, reset, canUndo: !!past.current.length, canRedo: !!future.current.length };
-}
\ No newline at end of file
+  return {
+    present: history.present,
+    entries: history.entries,
+    index: history.index,
+    set,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+    restore,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+  };
+}
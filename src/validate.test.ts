@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from './geometry';
+import { findSelfIntersection } from './validate';
+
+describe('findSelfIntersection', () => {
+    it('finds the crossing of a bow-tie', () => {
+        const at = findSelfIntersection([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }]);
+        expect(at).toEqual({ x: 5, y: 5 });
+    });
+
+    it('accepts simple rings, including through the closing edge', () => {
+        expect(findSelfIntersection([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }])).toBeNull();
+        expect(findSelfIntersection([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 2 }, { x: 10, y: 10 }, { x: 0, y: 10 }])).toBeNull();
+    });
+
+    it('handles large rings and finds a single crossing among them', () => {
+        // a many-sided circle, then the same with two neighbouring vertices swapped
+        const circle: Point[] = Array.from({ length: 20000 }, (_, i) => {
+            const a = (i / 20000) * Math.PI * 2;
+            return { x: 1000 * Math.cos(a), y: 1000 * Math.sin(a) };
+        });
+        expect(findSelfIntersection(circle)).toBeNull();
+        const twisted = circle.slice();
+        [twisted[5000], twisted[5001]] = [twisted[5001], twisted[5000]];
+        const at = findSelfIntersection(twisted)!;
+        expect(at).not.toBeNull();
+        expect(Math.hypot(at.x, at.y)).toBeCloseTo(1000, 0);
+    });
+});
@@ -0,0 +1,152 @@
+// validate.ts - geometry checks for plans, with safe automatic fixes
+import { Point, polygonArea, removeDuplicateVertices, segmentIntersection, unionShapes } from './geometry';
+import { ArchitecturalPlan, removeWallEdge } from './plan';
+
+export type IssueKind = 'too-few-points' | 'zero-area' | 'self-intersection' | 'out-of-bounds';
+
+export type PlanCollection = 'walls' | 'doors' | 'windows' | 'rooms';
+
+// `fix` is only set when the repair cannot change the intent of the drawing.
+export type PlanIssue = {
+    kind: IssueKind;
+    collection: PlanCollection;
+    index: number;
+    location: Point;
+    message: string;
+    fix?: 'remove' | 'untangle' | 'clamp';
+};
+
+const singular: Record<PlanCollection, string> = { walls: 'Wall', doors: 'Door', windows: 'Window', rooms: 'Room' };
+
+// A crossing between two non-adjacent edges of a closed ring, if any. Edges are swept in
+// order of their left end, so only edges whose x-ranges overlap are tested against each other.
+export function findSelfIntersection(ring: Point[]): Point | null {
+    const n = ring.length;
+    if (n < 4) return null;
+    const minX = (i: number) => Math.min(ring[i].x, ring[(i + 1) % n].x);
+    const maxX = (i: number) => Math.max(ring[i].x, ring[(i + 1) % n].x);
+    const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => minX(a) - minX(b));
+    let active: number[] = [];
+    for (const i of order) {
+        const x = minX(i);
+        active = active.filter(j => maxX(j) >= x);
+        for (const j of active) {
+            const gap = Math.abs(i - j);
+            if (gap === 1 || gap === n - 1) continue; // adjacent, including through the closing edge
+            const r = segmentIntersection(ring[i], ring[(i + 1) % n], ring[j], ring[(j + 1) % n]);
+            if (r.hit && r.p) return r.p;
+        }
+        active.push(i);
+    }
+    return null;
+}
+
+const centroidOf = (pts: Point[]): Point =>
+    pts.length ? { x: pts.reduce((t, p) => t + p.x, 0) / pts.length, y: pts.reduce((t, p) => t + p.y, 0) / pts.length } : { x: 0, y: 0 };
+
+// Report malformed geometry. Walls and rooms are closed polygons; doors and windows are
+// open polylines, so only point count and bounds apply to them.
+export function validatePlan(plan: ArchitecturalPlan, eps = 0.5): PlanIssue[] {
+    const issues: PlanIssue[] = [];
+    const { width, height } = plan.dimensions;
+    const inBounds = (p: Point) => !(width > 0 && height > 0) ||
+        (p.x >= -eps && p.y >= -eps && p.x <= width + eps && p.y <= height + eps);
+
+    const check = (collection: PlanCollection, index: number, rings: Point[][], closed: boolean, derived: boolean) => {
+        const label = `${singular[collection]} ${index + 1}`;
+        const boundary = rings[0] ?? [];
+        const minPoints = closed ? 3 : 2;
+        if (removeDuplicateVertices(boundary).length < minPoints) {
+            issues.push({
+                kind: 'too-few-points', collection, index, location: centroidOf(boundary),
+                message: `${label} has fewer than ${minPoints} distinct points`, fix: 'remove',
+            });
+            return;
+        }
+        // crossing rings are checked first: a bow-tie's signed area can cancel out to zero
+        let crossed = false;
+        if (closed) {
+            for (const ring of rings) {
+                const at = findSelfIntersection(removeDuplicateVertices(ring));
+                if (!at) continue;
+                issues.push({
+                    kind: 'self-intersection', collection, index, location: at,
+                    message: `${label} crosses itself`,
+                    // graph and arc walls are generated from their centerline, so their polygon can't be patched
+                    ...(derived ? {} : { fix: 'untangle' as const }),
+                });
+                crossed = true;
+                break;
+            }
+        }
+        if (closed && !crossed && polygonArea(boundary) < 1e-6) {
+            issues.push({ kind: 'zero-area', collection, index, location: centroidOf(boundary), message: `${label} has zero area`, fix: 'remove' });
+            return;
+        }
+        const outside = rings.flat().find(p => !inBounds(p));
+        if (outside) {
+            issues.push({
+                kind: 'out-of-bounds', collection, index, location: outside,
+                message: `${label} extends outside the plan (${Math.round(outside.x)}, ${Math.round(outside.y)})`,
+                ...(derived ? {} : { fix: 'clamp' as const }),
+            });
+        }
+    };
+
+    plan.walls.forEach((w, i) => check('walls', i, [w.boundary, ...(w.holes ?? [])], true, w.edge != null || !!w.arc));
+    plan.doors.forEach((d, i) => check('doors', i, [d.boundary], false, false));
+    plan.windows.forEach((w, i) => check('windows', i, [w.boundary], false, false));
+    plan.rooms.forEach((r, i) => check('rooms', i, [r.boundary, ...(r.holes ?? [])], true, false));
+    return issues;
+}
+
+function removeItem(plan: ArchitecturalPlan, collection: PlanCollection, index: number): ArchitecturalPlan {
+    if (collection === 'walls') {
+        const wall = plan.walls[index];
+        const rest = { ...plan, walls: plan.walls.filter((_, i) => i !== index) };
+        return wall?.edge != null ? removeWallEdge(plan, wall.edge) : rest;
+    }
+    return { ...plan, [collection]: (plan[collection] as unknown[]).filter((_, i) => i !== index) };
+}
+
+// Apply the suggested fix for one issue. Untangling resolves a self-intersecting ring
+// into its simple parts via a union; clamping pulls stray points onto the plan edge.
+export function fixIssue(plan: ArchitecturalPlan, issue: PlanIssue): ArchitecturalPlan {
+    const item = (plan[issue.collection] as Array<{ boundary: Point[]; holes?: Point[][] }>)[issue.index];
+    if (!item || !issue.fix) return plan;
+    switch (issue.fix) {
+        case 'remove':
+            return removeItem(plan, issue.collection, issue.index);
+        case 'untangle': {
+            const parts = unionShapes([{ boundary: removeDuplicateVertices(item.boundary), holes: item.holes?.map(h => removeDuplicateVertices(h)) }]);
+            const pieces = parts.map(s => ({ ...item, boundary: s.boundary, holes: s.holes?.length ? s.holes : undefined }));
+            const list = (plan[issue.collection] as unknown[]).slice();
+            list.splice(issue.index, 1, ...pieces);
+            return { ...plan, [issue.collection]: list };
+        }
+        case 'clamp': {
+            const { width, height } = plan.dimensions;
+            const clamp = (p: Point) => ({ x: Math.min(Math.max(p.x, 0), width), y: Math.min(Math.max(p.y, 0), height) });
+            const list = (plan[issue.collection] as unknown[]).slice();
+            list[issue.index] = { ...item, boundary: item.boundary.map(clamp), ...(item.holes ? { holes: item.holes.map(h => h.map(clamp)) } : {}) };
+            return { ...plan, [issue.collection]: list };
+        }
+    }
+}
+
+// Fix every fixable issue, re-validating between fixes since removals shift indices.
+// Stops as soon as a pass no longer reduces the number of fixable issues.
+export function fixAllIssues(plan: ArchitecturalPlan): ArchitecturalPlan {
+    let next = plan;
+    let remaining = validatePlan(next).filter(i => i.fix);
+    while (remaining.length) {
+        const fixed = fixIssue(next, remaining[0]);
+        const after = validatePlan(fixed).filter(i => i.fix);
+        if (after.length >= remaining.length) break;
+        next = fixed;
+        remaining = after;
+    }
+    return next;
+}
+
+export const issueKey = (i: PlanIssue) => `${i.collection}:${i.index}:${i.kind}`;